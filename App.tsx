@@ -1,50 +1,220 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import type { Reference } from './types';
-import { searchLiterature, answerFromLiterature } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import type { Reference, GroundingChunk, DateRange, TimeRange, CitationDirection, SavedSearch, QueryExpansion, SearchWarning } from './types';
+import { expandQuery, summarizeReferences, suggestSearchQuery } from './services/geminiService';
+import { searchLiterature, searchDateWindows } from './services/literatureService';
+import type { SearchProgress, SearchStage } from './services/literatureService';
+import { ACADEMIC_SOURCES } from './services/providers';
+import { classifyError } from './services/errors';
+import { dedupeReferences } from './services/deduplication';
+import { formatDateRange, splitIntoWindows } from './services/dateWindows';
+import { expandCitations } from './services/citationGraph';
+import { clusterReferences } from './services/topicClustering';
+import type { TopicCluster } from './services/topicClustering';
+import { applyFilters, EMPTY_FILTERS, isFiltering, sortReferences, SORT_KEYS } from './services/referenceFilters';
+import type { ReferenceFilters, SortKey } from './services/referenceFilters';
+import type { LiteratureServiceError } from './services/errors';
 import Header from './components/Header';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
+import VerificationBadge from './components/VerificationBadge';
+import CitedSummary from './components/CitedSummary';
+import SourcesPanel from './components/SourcesPanel';
+import SearchWarnings from './components/SearchWarnings';
+import QABox from './components/QABox';
+import LibraryView from './components/LibraryView';
+import ExportMenu from './components/ExportMenu';
+import BibliographyImport from './components/BibliographyImport';
+import DateRangeControl from './components/DateRangeControl';
+import YearHistogram from './components/YearHistogram';
+import FilterPanel from './components/FilterPanel';
+import FullTextControl from './components/FullTextControl';
+import CitationGraph from './components/CitationGraph';
+import ReviewPanel from './components/ReviewPanel';
+import TopicClusters from './components/TopicClusters';
+import SavedSearchesView from './components/SavedSearchesView';
+import WhatsNewDigest from './components/WhatsNewDigest';
+import SessionShare from './components/SessionShare';
+import SettingsView from './components/SettingsView';
+import TranslatedText from './components/TranslatedText';
+import ExtractionCard from './components/ExtractionCard';
+import ComparisonPanel from './components/ComparisonPanel';
+import { useLibrary } from './hooks/useLibrary';
+import { useChat } from './hooks/useChat';
+import { useFullTexts } from './hooks/useFullTexts';
+import { useReview } from './hooks/useReview';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import { useTranslations } from './hooks/useTranslations';
+import { useExtractions } from './hooks/useExtractions';
+import { useComparison } from './hooks/useComparison';
+import type { FullTextsApi } from './hooks/useFullTexts';
+import type { TranslationsApi } from './hooks/useTranslations';
+import type { ExtractionsApi } from './hooks/useExtractions';
+import { loadThread, saveThread, toQuestionAnswerPairs } from './services/chatService';
+import { loadSession, saveSession } from './services/sessionService';
+import { windowsOf } from './services/savedSearchService';
+import type { SavedSearchOptions } from './services/savedSearchService';
+import { getSettings, saveSettings } from './services/settingsService';
+import { isNavigation, readUrlState, writeUrlState } from './services/urlState';
+import type { AppView, UrlState } from './services/urlState';
+import { createSharedSession, readSessionLink } from './services/shareService';
+import type { SharedSession } from './services/shareService';
+import { useLocale } from './i18n';
 
-const ACADEMIC_SOURCES = ["Google Scholar", "PubMed", "arXiv", "bioRxiv"];
-const ITEMS_PER_PAGE = 5;
+const PAGE_SIZE_OPTIONS = [5, 10, 20, 50, 100];
 const CURRENT_YEAR = new Date().getFullYear();
+// The last 24 years in six-year windows: the newest is searched first, the older ones on demand.
+const DEFAULT_TIME_RANGE: TimeRange = { startYear: CURRENT_YEAR - 23, endYear: CURRENT_YEAR, windowSize: 6, parallel: false };
+
+const formatTime = (timestamp: number, locale: string): string => new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
 
 const SearchBar: React.FC<{ onSearch: (query: string) => void; isLoading: boolean }> = ({ onSearch, isLoading }) => {
+  const { t } = useLocale();
   const [query, setQuery] = useState('');
+  const [bilingual, setBilingual] = useState(false);
+  // The expansion waiting to be reviewed; the search only starts once the user confirms or edits it.
+  const [expansion, setExpansion] = useState<QueryExpansion | null>(null);
+  const [isExpanding, setIsExpanding] = useState(false);
+  const [expansionError, setExpansionError] = useState(false);
+  const expandAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => expandAbortRef.current?.abort(), []);
+
+  const closeExpansion = () => {
+    expandAbortRef.current?.abort();
+    expandAbortRef.current = null;
+    setIsExpanding(false);
+    setExpansion(null);
+    setExpansionError(false);
+  };
+
+  const runSearch = (text: string) => {
+    closeExpansion();
+    if (text.trim()) onSearch(text.trim());
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim() && !isLoading) {
-      onSearch(query.trim());
+    const trimmed = query.trim();
+    if (!trimmed || isLoading) return;
+    if (!bilingual) {
+      runSearch(trimmed);
+      return;
+    }
+    closeExpansion();
+    const controller = new AbortController();
+    expandAbortRef.current = controller;
+    setIsExpanding(true);
+    try {
+      setExpansion(await expandQuery(trimmed, { signal: controller.signal }));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Expanding the query failed:', err);
+      setExpansionError(true);
+    } finally {
+      if (expandAbortRef.current === controller) {
+        expandAbortRef.current = null;
+        setIsExpanding(false);
+      }
     }
   };
 
+  const toggleTerm = (term: string) => {
+    if (!expansion) return;
+    const index = expansion.query.toLowerCase().indexOf(term.toLowerCase());
+    const next = index === -1
+      ? `${expansion.query} ${term}`.trim()
+      : `${expansion.query.slice(0, index)}${expansion.query.slice(index + term.length)}`.replace(/\s+/g, ' ').trim();
+    setExpansion({ ...expansion, query: next });
+  };
+
   return (
-    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
-      <input
-        type="text"
-        value={query}
-        onChange={(e) => setQuery(e.target.value)}
-        placeholder="例如：CRISPR 基因编辑最新进展"
-        className="w-full px-4 py-3 text-lg bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200"
-        disabled={isLoading}
-        aria-label="Search literature"
-      />
-      <button
-        type="submit"
-        className="px-6 py-3 text-lg font-semibold text-white bg-slate-800 rounded-lg hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 disabled:bg-slate-400 disabled:cursor-not-allowed transition duration-200"
-        disabled={isLoading}
-      >
-        {isLoading ? '搜索中...' : '搜索'}
-      </button>
-    </form>
+    <div>
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t.search.placeholder}
+          className="w-full px-4 py-3 text-lg bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200"
+          disabled={isLoading}
+          aria-label={t.search.inputLabel}
+        />
+        <button
+          type="submit"
+          className="px-6 py-3 text-lg font-semibold text-white bg-slate-800 rounded-lg hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 disabled:bg-slate-400 disabled:cursor-not-allowed transition duration-200"
+          disabled={isLoading || isExpanding}
+        >
+          {isLoading ? t.search.searching : t.search.submit}
+        </button>
+      </form>
+      <label className="mt-2 flex items-center space-x-2 cursor-pointer p-2 rounded-md hover:bg-slate-200 transition-colors">
+        <input
+          type="checkbox"
+          className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          checked={bilingual}
+          onChange={(e) => setBilingual(e.target.checked)}
+        />
+        <span className="text-slate-700">{t.search.bilingual}</span>
+      </label>
+      {isExpanding && (
+        <p className="mt-2 px-2 text-sm text-slate-500">
+          <span className="animate-pulse">{t.search.expanding}</span>
+          <button type="button" onClick={closeExpansion} className="ml-2 text-slate-600 hover:underline">{t.common.cancel}</button>
+        </p>
+      )}
+      {expansionError && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 px-2 text-sm text-red-600">
+          <span>{t.search.expansionFailed}</span>
+          <button type="button" onClick={() => runSearch(query)} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700">{t.search.searchOriginal}</button>
+        </div>
+      )}
+      {expansion && (
+        <div className="mt-2 p-3 space-y-2 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+          <div className="flex justify-between items-baseline gap-2">
+            <span className="font-semibold text-slate-700">{t.search.expansionTitle(t.languages[expansion.to])}</span>
+            <button type="button" onClick={closeExpansion} className="text-slate-500 hover:underline">{t.common.close}</button>
+          </div>
+          <textarea
+            value={expansion.query}
+            onChange={(e) => setExpansion({ ...expansion, query: e.target.value })}
+            rows={2}
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label={t.search.expansionLabel}
+          />
+          {expansion.terms.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-slate-500">{t.search.termsHint}</span>
+              {expansion.terms.map(term => {
+                const included = expansion.query.toLowerCase().includes(term.toLowerCase());
+                return (
+                  <button
+                    key={term}
+                    type="button"
+                    onClick={() => toggleTerm(term)}
+                    aria-pressed={included}
+                    className={`px-2 py-0.5 text-xs rounded-full border ${included ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 hover:bg-slate-100'}`}
+                  >
+                    {term}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => runSearch(expansion.query)} disabled={isLoading || !expansion.query.trim()} className="px-3 py-1 font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed">{t.search.searchExpanded}</button>
+            <button type="button" onClick={() => runSearch(query)} disabled={isLoading} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed">{t.search.searchOriginal}</button>
+          </div>
+        </div>
+      )}
+    </div>
   );
 };
 
 const SourceSelector: React.FC<{ selected: string[]; onChange: (source: string) => void; }> = ({ selected, onChange }) => {
+    const { t } = useLocale();
     return (
         <div className="mt-4">
-            <p className="text-sm font-semibold text-slate-600 mb-2">选择文献来源：</p>
+            <p className="text-sm font-semibold text-slate-600 mb-2">{t.search.sources}</p>
             <div className="flex flex-wrap gap-3">
                 {ACADEMIC_SOURCES.map(source => (
                     <label key={source} className="flex items-center space-x-2 cursor-pointer p-2 rounded-md hover:bg-slate-200 transition-colors">
@@ -62,58 +232,58 @@ const SourceSelector: React.FC<{ selected: string[]; onChange: (source: string)
     );
 };
 
-const QABox: React.FC<{ onAsk: (question: string) => void; isLoading: boolean; answer: string | null; selectedCount: number }> = ({ onAsk, isLoading, answer, selectedCount }) => {
-  const [question, setQuestion] = useState('');
-  const isDisabled = selectedCount === 0 || isLoading;
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (question.trim() && !isDisabled) {
-      onAsk(question.trim());
-    }
-  };
-
-  return (
-    <div className="mt-8 pt-6 border-t border-slate-300">
-      <h3 className="text-xl font-bold text-slate-700 mb-3">深入提问</h3>
-      <p className="text-sm text-slate-500 mb-4">请在上方参考文献列表中勾选一项或多项，然后针对所选文献提出问题。</p>
-      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
-        <input
-          type="text"
-          value={question}
-          onChange={(e) => setQuestion(e.target.value)}
-          placeholder={selectedCount > 0 ? `针对 ${selectedCount} 篇文献提问...` : '请先选择文献...'}
-          className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 disabled:bg-slate-100"
-          disabled={isDisabled}
-          aria-label="Ask a follow-up question"
-        />
-        <button
-          type="submit"
-          className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 disabled:bg-blue-300 disabled:cursor-not-allowed transition duration-200"
-          disabled={isDisabled}
-        >
-          {isLoading ? '思考中...' : '提问'}
-        </button>
-      </form>
-      {isLoading && <div className="mt-4"><LoadingSpinner message="正在生成回答..." /></div>}
-      {answer && !isLoading && (
-        <div className="mt-4 p-4 bg-blue-50 border-l-4 border-blue-400 rounded-r-lg">
-          <p className="text-slate-800 whitespace-pre-wrap">{answer}</p>
+const VerificationOptions: React.FC<{
+    verify: boolean;
+    dropUnresolvable: boolean;
+    onVerifyChange: (value: boolean) => void;
+    onDropUnresolvableChange: (value: boolean) => void;
+}> = ({ verify, dropUnresolvable, onVerifyChange, onDropUnresolvableChange }) => {
+    const { t } = useLocale();
+    return (
+        <div className="mt-2 flex flex-wrap gap-3">
+            <label className="flex items-center space-x-2 cursor-pointer p-2 rounded-md hover:bg-slate-200 transition-colors">
+                <input
+                    type="checkbox"
+                    className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={verify || dropUnresolvable}
+                    disabled={dropUnresolvable}
+                    onChange={(e) => onVerifyChange(e.target.checked)}
+                />
+                <span className="text-slate-700">{t.search.verify}</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer p-2 rounded-md hover:bg-slate-200 transition-colors">
+                <input
+                    type="checkbox"
+                    className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={dropUnresolvable}
+                    onChange={(e) => onDropUnresolvableChange(e.target.checked)}
+                />
+                <span className="text-slate-700">{t.search.dropUnresolvable}</span>
+            </label>
         </div>
-      )}
-    </div>
-  );
+    );
 };
 
 const ResultsDisplay: React.FC<{ 
     references: Reference[]; 
     onSelect: (ref: Reference) => void;
     selectedURIs: string[];
-}> = ({ references, onSelect, selectedURIs }) => {
+    referenceNumbers: Map<string, number>;
+    highlightedURI: string | null;
+    savedURIs: Set<string>;
+    onSave: (ref: Reference) => void;
+    fullTexts: FullTextsApi;
+    expandingCitations: Map<string, CitationDirection>;
+    onExpandCitations: (ref: Reference, direction: CitationDirection) => void;
+    newURIs: Set<string>;
+    translations: TranslationsApi;
+    extractions: ExtractionsApi;
+}> = ({ references, onSelect, selectedURIs, referenceNumbers, highlightedURI, savedURIs, onSave, fullTexts, expandingCitations, onExpandCitations, newURIs, translations, extractions }) => {
+  const { t } = useLocale();
   return (
     <ul className="space-y-4">
       {references.map((ref) => (
-        <li key={ref.uri} className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm transition duration-200 flex items-start gap-4">
+        <li key={ref.uri} className={`p-4 bg-white rounded-lg border shadow-sm transition duration-200 flex items-start gap-4 ${highlightedURI === ref.uri ? 'border-blue-500 ring-2 ring-blue-300' : 'border-slate-200'}`}>
           <input 
             type="checkbox"
             className="h-5 w-5 mt-1.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer flex-shrink-0"
@@ -122,6 +292,26 @@ const ResultsDisplay: React.FC<{
             aria-labelledby={`title-${ref.uri}`}
           />
           <div className="flex-grow">
+            <button
+              type="button"
+              onClick={() => onSave(ref)}
+              className={`float-right ml-2 px-3 py-1 text-sm rounded-full border ${savedURIs.has(ref.uri) ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-600'}`}
+            >
+              {savedURIs.has(ref.uri) ? t.results.saved : t.results.save}
+            </button>
+            <span className="mr-2 text-sm font-semibold text-slate-400">[{referenceNumbers.get(ref.uri)}]</span>
+            {newURIs.has(ref.uri) && (
+              <span className="mr-2 px-2 py-0.5 text-xs font-semibold text-white bg-green-600 rounded-full" title={t.results.newTitle}>{t.results.new}</span>
+            )}
+            {ref.searchWindow && (
+              <span className="mr-2 px-2 py-0.5 text-xs bg-slate-100 text-slate-500 rounded-full" title={t.results.windowTitle}>{formatDateRange(ref.searchWindow, t.dateRange.ongoing)}</span>
+            )}
+            {ref.citationRelations?.filter(relation => referenceNumbers.has(relation.seedURI)).map(relation => (
+              <span key={`${relation.direction}-${relation.seedURI}`} className={`mr-2 px-2 py-0.5 text-xs rounded-full ${relation.direction === 'citing' ? 'bg-blue-50 text-blue-700' : 'bg-emerald-50 text-emerald-700'}`}>
+                {relation.direction === 'citing' ? t.results.citing(referenceNumbers.get(relation.seedURI)) : t.results.citedBy(referenceNumbers.get(relation.seedURI))}
+              </span>
+            ))}
+            <VerificationBadge verification={ref.verification} />
             <a
               id={`title-${ref.uri}`}
               href={ref.uri}
@@ -131,17 +321,56 @@ const ResultsDisplay: React.FC<{
             >
               {ref.title}
             </a>
+            {ref.verification?.resolvedUri && ref.verification.resolvedUri !== ref.uri && (
+              <a
+                href={ref.verification.resolvedUri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`block text-xs hover:underline mt-1 ${ref.verification.status === 'mismatched' ? 'text-amber-700' : 'text-slate-500'}`}
+              >
+                {t.results.resolvedRecord}
+              </a>
+            )}
             <div className="text-sm text-slate-600 mt-2 space-y-1">
                {ref.authors && ref.authors.length > 0 && (
-                  <p><span className="font-semibold">作者：</span>{ref.authors.join(', ')}</p>
+                  <p><span className="font-semibold">{t.reference.authors}</span>{ref.authors.join(', ')}</p>
                )}
                {ref.publicationDate && (
-                  <p><span className="font-semibold">发布日期：</span>{ref.publicationDate}</p>
+                  <p><span className="font-semibold">{t.reference.published}</span>{ref.publicationDate}{ref.preprintDate && t.reference.preprint(ref.preprintDate)}</p>
+               )}
+               {ref.alternateURIs && ref.alternateURIs.length > 0 && (
+                  <p>
+                    <span className="font-semibold">{t.reference.otherVersions}</span>
+                    {ref.alternateURIs.map((uri, index) => (
+                      <a key={uri} href={uri} target="_blank" rel="noopener noreferrer" className="mr-2 text-blue-700 hover:underline">[{index + 1}]</a>
+                    ))}
+                  </p>
+               )}
+               {(ref.venue || ref.source) && (
+                  <p><span className="font-semibold">{t.reference.source}</span>{[ref.venue, ref.source !== ref.venue ? ref.source : undefined].filter(Boolean).join(' · ')}</p>
                )}
                {ref.abstract && (
-                  <p className="mt-2 pt-2 border-t border-slate-200 text-slate-500 leading-normal">{ref.abstract}</p>
+                  <div className="mt-2 pt-2 border-t border-slate-200 text-slate-500 leading-normal">
+                    <p>{ref.abstract}</p>
+                    <TranslatedText text={ref.abstract} translations={translations} />
+                  </div>
                )}
             </div>
+            <FullTextControl reference={ref} fullTexts={fullTexts} />
+            <ExtractionCard reference={ref} extractions={extractions} hasFullText={fullTexts.byURI.has(ref.uri)} />
+            <div className="flex flex-wrap gap-2 mt-2 text-sm">
+              {(['citing', 'cited'] as const).map(direction => (
+                <button
+                  key={direction}
+                  type="button"
+                  onClick={() => onExpandCitations(ref, direction)}
+                  disabled={expandingCitations.has(ref.uri)}
+                  className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {expandingCitations.get(ref.uri) === direction ? t.results.finding : direction === 'citing' ? t.results.findCiting : t.results.findCited}
+                </button>
+              ))}
+            </div>
           </div>
         </li>
       ))}
@@ -150,34 +379,160 @@ const ResultsDisplay: React.FC<{
 };
 
 const Pagination: React.FC<{ currentPage: number; totalPages: number; onPageChange: (page: number) => void; }> = ({ currentPage, totalPages, onPageChange }) => {
+    const { t } = useLocale();
     if (totalPages <= 1) return null;
     return (
         <div className="flex justify-center items-center gap-4 mt-6">
-            <button onClick={() => onPageChange(currentPage - 1)} disabled={currentPage === 1} className="px-4 py-2 bg-white border border-slate-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">上一页</button>
-            <span className="text-slate-600 font-medium">第 {currentPage} 页 / 共 {totalPages} 页</span>
-            <button onClick={() => onPageChange(currentPage + 1)} disabled={currentPage === totalPages} className="px-4 py-2 bg-white border border-slate-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">下一页</button>
+            <button onClick={() => onPageChange(currentPage - 1)} disabled={currentPage === 1} className="px-4 py-2 bg-white border border-slate-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">{t.pagination.previous}</button>
+            <span className="text-slate-600 font-medium">{t.pagination.page(currentPage, totalPages)}</span>
+            <button onClick={() => onPageChange(currentPage + 1)} disabled={currentPage === totalPages} className="px-4 py-2 bg-white border border-slate-300 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">{t.pagination.next}</button>
         </div>
     )
 }
 
 const App: React.FC = () => {
+  const { t } = useLocale();
+  const [view, setView] = useState<AppView>('search');
+  const [settings, setSettings] = useState(getSettings);
+  const library = useLibrary();
+  const savedSearches = useSavedSearches();
+  const fullTexts = useFullTexts();
+  const [saveTargetCollectionId, setSaveTargetCollectionId] = useState<string>('');
   const [summary, setSummary] = useState<string | null>(null);
   const [references, setReferences] = useState<Reference[]>([]);
+  const [groundingChunks, setGroundingChunks] = useState<GroundingChunk[]>([]);
   const [originalQuery, setOriginalQuery] = useState<string>('');
-  const [answer, setAnswer] = useState<string | null>(null);
   const [selectedSources, setSelectedSources] = useState<string[]>(["Google Scholar", "bioRxiv"]);
+  const [verifyResults, setVerifyResults] = useState<boolean>(true);
+  const [dropUnresolvable, setDropUnresolvable] = useState<boolean>(false);
   
   const [isSearching, setIsSearching] = useState<boolean>(false);
   const [isSearchingOlder, setIsSearchingOlder] = useState<boolean>(false);
-  const [isAnswering, setIsAnswering] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
+  const [isPreparingSeedSearch, setIsPreparingSeedSearch] = useState<boolean>(false);
+  const [error, setError] = useState<LiteratureServiceError | null>(null);
+  const [searchStage, setSearchStage] = useState<SearchStage | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
 
-  const [sortOrder, setSortOrder] = useState<'relevance' | 'date'>('relevance');
+  // Primary and secondary sort keys; ties after both fall back to relevance order.
+  const [sortKeys, setSortKeys] = useState<[SortKey, SortKey]>(['relevance', 'relevance']);
+  const [filters, setFilters] = useState<ReferenceFilters>(EMPTY_FILTERS);
+  const [pageSize, setPageSize] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedReferencesForQA, setSelectedReferencesForQA] = useState<Reference[]>([]);
   const selectedReferenceURIs = useMemo(() => selectedReferencesForQA.map(r => r.uri), [selectedReferencesForQA]);
 
-  const [nextDateRange, setNextDateRange] = useState<{ start: number, end: number} | null>(null);
+  const [timeRange, setTimeRange] = useState<TimeRange>(DEFAULT_TIME_RANGE);
+  const [pendingWindows, setPendingWindows] = useState<DateRange[]>([]);
+  const [activeWindows, setActiveWindows] = useState<DateRange[]>([]);
+  const [highlightedURI, setHighlightedURI] = useState<string | null>(null);
+  // Seed URI -> the direction currently being fetched for it.
+  const [expandingCitations, setExpandingCitations] = useState<Map<string, CitationDirection>>(new Map());
+  const [showCitationGraph, setShowCitationGraph] = useState(false);
+  const [clusters, setClusters] = useState<TopicCluster[] | null>(null);
+  // Papers a saved-search re-run found that were not in its previous snapshot.
+  const [newReferenceURIs, setNewReferenceURIs] = useState<Set<string>>(new Set());
+  // When the shown results were stored, if they were replayed from the response cache.
+  const [resultCachedAt, setResultCachedAt] = useState<number | null>(null);
+  // Providers, or the summary, that failed in the search the shown results came from.
+  const [searchWarnings, setSearchWarnings] = useState<SearchWarning[]>([]);
+  // The windows and verification options the shown results were searched with.
+  const [searchOptions, setSearchOptions] = useState<SavedSearchOptions | null>(null);
+  const [isClustering, setIsClustering] = useState(false);
+  const clusterAbortRef = useRef<AbortController | null>(null);
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  // A query from the URL waiting to be searched, and the URL state to apply once its results are in.
+  const [urlSearchQuery, setUrlSearchQuery] = useState<string | null>(null);
+  const urlRestoreRef = useRef<UrlState | null>(null);
+  const hasSyncedUrlRef = useRef(false);
+
+  const chat = useChat(selectedReferencesForQA, originalQuery);
+  const review = useReview(originalQuery);
+  const translations = useTranslations();
+  // Extractions are stored on the reference itself, so filters, sorting and the saved session all see them.
+  const extractions = useExtractions((uri, extraction) => {
+    const withExtraction = (ref: Reference) => ref.uri === uri ? { ...ref, extraction } : ref;
+    setReferences(prev => prev.map(withExtraction));
+    setSelectedReferencesForQA(prev => prev.map(withExtraction));
+  });
+  const comparison = useComparison();
+
+  // Shows the sort order, page and selection a URL describes for the results already loaded.
+  const applyResultView = (state: UrlState, currentReferences: Reference[]) => {
+    setSortKeys(state.sort);
+    setCurrentPage(state.page);
+    setSelectedReferencesForQA(currentReferences.filter(ref => state.selectedURIs.includes(ref.uri)));
+  };
+
+  // Brings the app to the state a URL describes; a different query is searched again, usually answered from the cache.
+  const applyUrlState = (state: UrlState, currentQuery: string, currentReferences: Reference[]) => {
+    setView(state.view);
+    if (!state.query) return;
+    setSelectedSources(state.sources);
+    if (state.timeRange) setTimeRange(state.timeRange);
+    if (state.query === currentQuery) {
+      applyResultView(state, currentReferences);
+    } else {
+      urlRestoreRef.current = state;
+      setUrlSearchQuery(state.query);
+    }
+  };
+
+  useEffect(() => {
+    // Strict mode runs this twice; only the second run, which is not cleaned up, applies anything.
+    let cancelled = false;
+    const restore = async () => {
+      // A shared link carries its own results and replaces the stored session.
+      const shared = await readSessionLink(window.location.hash).catch(e => {
+        if (!cancelled) setError(classifyError(e));
+        return null;
+      });
+      if (cancelled) return;
+      if (shared) {
+        await handleOpenSharedSession(shared);
+        return;
+      }
+      const session = await loadSession().catch(e => {
+        console.error('Restoring the previous session failed:', e);
+        return null;
+      });
+      if (cancelled) return;
+      if (session) {
+        setOriginalQuery(session.query);
+        setSummary(session.summary);
+        setReferences(session.references);
+        setGroundingChunks(session.groundingChunks);
+        setSelectedReferencesForQA(session.references.filter(ref => session.selectedURIs.includes(ref.uri)));
+        setPendingWindows(session.pendingWindows);
+        setSearchOptions(session.searchOptions);
+        review.update(session.review);
+      }
+      applyUrlState(readUrlState(window.location.search), session?.query ?? '', session?.references ?? []);
+    };
+    restore().finally(() => {
+      if (!cancelled) setIsSessionRestored(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => applyUrlState(readUrlState(window.location.search), originalQuery, references);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [originalQuery, references]);
+
+  useEffect(() => () => {
+    searchAbortRef.current?.abort();
+    clusterAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    // Saving before the restore finishes would overwrite the stored session with an empty one;
+    // partial results are not worth a write per streamed chunk.
+    if (!isSessionRestored || isSearching || isSearchingOlder) return;
+    saveSession({ query: originalQuery, summary, references, groundingChunks, selectedURIs: selectedReferenceURIs, pendingWindows, searchOptions, review: review.review })
+      .catch(e => console.error('Saving the session failed:', e));
+  }, [isSessionRestored, isSearching, isSearchingOlder, originalQuery, summary, references, groundingChunks, selectedReferenceURIs, pendingWindows, searchOptions, review.review]);
 
   const handleSourceChange = (source: string) => {
     setSelectedSources(prev => 
@@ -195,142 +550,554 @@ const App: React.FC = () => {
     );
   };
 
-  const handleSearch = useCallback(async (query: string) => {
-    setIsSearching(true);
+  const resetResults = () => {
     setError(null);
     setSummary(null);
     setReferences([]);
-    setAnswer(null);
-    setOriginalQuery(query);
+    setGroundingChunks([]);
+    setHighlightedURI(null);
     setCurrentPage(1);
-    setSortOrder('relevance');
+    setSortKeys(['relevance', 'relevance']);
+    setFilters(EMPTY_FILTERS);
     setSelectedReferencesForQA([]);
-    setNextDateRange(null);
+    setPendingWindows([]);
+    handleCancelClustering();
+    extractions.cancel();
+    comparison.cancel();
+    setClusters(null);
+    setNewReferenceURIs(new Set());
+    setResultCachedAt(null);
+    setSearchOptions(null);
+    setSearchWarnings([]);
+  };
+
+  // Starts a cancellable search, replacing any search still running.
+  const startSearch = () => {
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    return controller;
+  };
+
+  const finishSearch = (controller: AbortController) => {
+    if (searchAbortRef.current !== controller) return false;
+    searchAbortRef.current = null;
+    setSearchStage(null);
+    return true;
+  };
+
+  const handleCancelSearch = () => searchAbortRef.current?.abort();
+
+  // Embedding requests cannot be interrupted, so the UI is released at once and a late result is discarded.
+  const handleCancelClustering = () => {
+    clusterAbortRef.current?.abort();
+    clusterAbortRef.current = null;
+    setIsClustering(false);
+  };
+
+  // With `refresh`, a cached result for the same search is ignored and replaced.
+  const handleSearch = useCallback(async (query: string, { refresh = false }: { refresh?: boolean } = {}) => {
+    const controller = startSearch();
+    setIsSearching(true);
+    resetResults();
+    setOriginalQuery(query);
+    setSearchStage('searching');
+    const windows = splitIntoWindows(timeRange);
+    // In sequential mode only the newest window is searched now; the rest wait for "continue searching".
+    const searchedWindows = timeRange.parallel ? windows : windows.slice(0, 1);
+    setActiveWindows(searchedWindows);
+
+    const onProgress = (progress: SearchProgress) => {
+      setSearchStage(progress.stage);
+      setReferences(progress.references);
+      setSummary(progress.summary || null);
+    };
 
     try {
-      const result = await searchLiterature(query, selectedSources, { startYear: 2021, endYear: CURRENT_YEAR });
+      const result = await searchDateWindows(query, selectedSources, searchedWindows, { verify: verifyResults, dropUnresolvable, refresh, signal: controller.signal, onProgress });
+      setResultCachedAt(result.cachedAt ?? null);
+      setSearchWarnings(result.warnings ?? []);
       setSummary(result.summary);
       setReferences(result.references);
-      setNextDateRange({ start: 2015, end: 2020 });
-    } catch (e: any) {
-      setError(e.message);
+      setGroundingChunks(result.groundingChunks ?? []);
+      setPendingWindows(windows.slice(searchedWindows.length));
+      setSearchOptions({ windows: searchedWindows, verify: verifyResults, dropUnresolvable });
+    } catch (e) {
+      // After a cancel, whatever streamed in so far stays on screen.
+      if (!controller.signal.aborted) setError(classifyError(e));
     } finally {
-      setIsSearching(false);
+      if (finishSearch(controller)) setIsSearching(false);
+    }
+  }, [selectedSources, verifyResults, dropUnresolvable, timeRange]);
+
+  // Runs after the sources and time range from the URL are in state, so the search uses them.
+  useEffect(() => {
+    if (urlSearchQuery === null) return;
+    setUrlSearchQuery(null);
+    handleSearch(urlSearchQuery);
+  }, [urlSearchQuery, handleSearch]);
+
+  useEffect(() => {
+    const pending = urlRestoreRef.current;
+    if (!pending || urlSearchQuery !== null || isSearching) return;
+    urlRestoreRef.current = null;
+    // Skipped if another search replaced the one the URL asked for.
+    if (pending.query === originalQuery) applyResultView(pending, references);
+  }, [urlSearchQuery, isSearching, originalQuery, references]);
+
+  const urlState = useMemo<UrlState>(() => ({
+    view,
+    query: originalQuery,
+    sources: selectedSources,
+    timeRange,
+    sort: sortKeys,
+    page: currentPage,
+    selectedURIs: selectedReferenceURIs,
+  }), [view, originalQuery, selectedSources, timeRange, sortKeys, currentPage, selectedReferenceURIs]);
+
+  useEffect(() => {
+    // Writing before the URL's own state has been applied would replace it with the defaults.
+    if (!isSessionRestored || urlRestoreRef.current) return;
+    const search = writeUrlState(urlState);
+    if (search === window.location.search && !window.location.hash) return;
+    const url = `${window.location.pathname}${search}`;
+    if (hasSyncedUrlRef.current && isNavigation(readUrlState(window.location.search), urlState)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
     }
-  }, [selectedSources]);
+    hasSyncedUrlRef.current = true;
+  }, [isSessionRestored, urlState]);
   
   const handleSearchOlder = useCallback(async () => {
-    if (!originalQuery || !nextDateRange) return;
+    const [nextWindow, ...remainingWindows] = pendingWindows;
+    if (!originalQuery || !nextWindow) return;
 
+    const controller = startSearch();
     setIsSearchingOlder(true);
     setError(null);
+    setSearchStage('searching');
+    setActiveWindows([nextWindow]);
+
+    // Merge and de-duplicate references
+    const mergeWithCurrent = (found: Reference[]) => dedupeReferences([...references, ...found]);
 
     try {
-        const result = await searchLiterature(originalQuery, selectedSources, { startYear: nextDateRange.start, endYear: nextDateRange.end });
-        
-        // Merge and de-duplicate references
-        const allRefs = [...references, ...result.references];
-        const uniqueRefs = Array.from(new Map(allRefs.map(ref => [ref.uri, ref])).values());
+        const result = await searchLiterature(originalQuery, selectedSources, nextWindow, {
+            verify: verifyResults,
+            dropUnresolvable,
+            signal: controller.signal,
+            onProgress: progress => {
+                setSearchStage(progress.stage);
+                setReferences(mergeWithCurrent(progress.references));
+            },
+        });
         
-        setReferences(uniqueRefs);
+        setReferences(mergeWithCurrent(result.references));
+        setGroundingChunks(prev => [...prev, ...(result.groundingChunks ?? [])]);
+        // The older window's own summary is not shown, so only its provider failures matter.
+        setSearchWarnings(prev => [...prev, ...(result.warnings ?? []).filter(warning => warning.kind === 'provider')]);
         
-        // Set up the next date range for even older search
-        setNextDateRange({ start: nextDateRange.start - 6, end: nextDateRange.end - 6 });
+        setPendingWindows(remainingWindows);
+        setSearchOptions(prev => prev && { ...prev, windows: [...prev.windows, nextWindow] });
 
-    } catch (e: any) {
-        setError(e.message);
+    } catch (e) {
+        if (!controller.signal.aborted) setError(classifyError(e));
     } finally {
-        setIsSearchingOlder(false);
+        if (finishSearch(controller)) setIsSearchingOlder(false);
     }
-  }, [originalQuery, selectedSources, references, nextDateRange]);
+  }, [originalQuery, selectedSources, references, pendingWindows, verifyResults, dropUnresolvable]);
 
-  const handleAsk = useCallback(async (question: string) => {
-      if (!originalQuery || selectedReferencesForQA.length === 0) return;
+  const handleLoadImported = (imported: Reference[], label: string) => {
+    resetResults();
+    setOriginalQuery(label);
+    setReferences(imported);
+  };
 
-      setIsAnswering(true);
-      setError(null);
-      setAnswer(null);
+  const handleSeedSearch = useCallback(async (seeds: Reference[]) => {
+    setIsPreparingSeedSearch(true);
+    setError(null);
+    try {
+      const query = await suggestSearchQuery(seeds);
+      await handleSearch(query);
+    } catch (e) {
+      setError(classifyError(e));
+    } finally {
+      setIsPreparingSeedSearch(false);
+    }
+  }, [handleSearch]);
 
-      try {
-        const result = await answerFromLiterature(originalQuery, selectedReferencesForQA, question);
-        setAnswer(result);
-      } catch (e: any) {
-        setError(e.message);
-      } finally {
-        setIsAnswering(false);
+  const handleExpandCitations = useCallback(async (seed: Reference, direction: CitationDirection) => {
+    setExpandingCitations(prev => new Map(prev).set(seed.uri, direction));
+    setError(null);
+    try {
+      const found = await expandCitations(seed, direction);
+      setReferences(prev => dedupeReferences([...prev, ...found]));
+    } catch (e) {
+      setError(classifyError(e));
+    } finally {
+      setExpandingCitations(prev => {
+        const next = new Map(prev);
+        next.delete(seed.uri);
+        return next;
+      });
+    }
+  }, []);
+
+  const handleCluster = useCallback(async (clusterCount?: number) => {
+    clusterAbortRef.current?.abort();
+    const controller = new AbortController();
+    clusterAbortRef.current = controller;
+    setIsClustering(true);
+    setError(null);
+    try {
+      setClusters(await clusterReferences(originalQuery, references, { clusterCount, signal: controller.signal }));
+    } catch (e) {
+      if (!controller.signal.aborted) setError(classifyError(e));
+    } finally {
+      if (clusterAbortRef.current === controller) {
+        clusterAbortRef.current = null;
+        setIsClustering(false);
       }
-  }, [originalQuery, selectedReferencesForQA]);
+    }
+  }, [originalQuery, references]);
 
-  const sortedReferences = useMemo(() => {
-    if (sortOrder === 'relevance') {
-      return references; // Default order from API is by relevance
+  const handleSummarize = useCallback(async () => {
+    if (references.length === 0) return;
+    setIsSummarizing(true);
+    setError(null);
+    try {
+      setSummary(await summarizeReferences(originalQuery, references, { onText: setSummary }));
+    } catch (e) {
+      setError(classifyError(e));
+    } finally {
+      setIsSummarizing(false);
     }
-    return [...references].sort((a, b) => {
-      return (b.publicationDate || '').localeCompare(a.publicationDate || '');
-    });
-  }, [references, sortOrder]);
+  }, [originalQuery, references]);
+
+  const sortedReferences = useMemo(() => sortReferences(references, sortKeys), [references, sortKeys]);
+  const visibleReferences = useMemo(() => applyFilters(sortedReferences, filters), [sortedReferences, filters]);
 
-  const totalPages = Math.ceil(sortedReferences.length / ITEMS_PER_PAGE);
+  const totalPages = Math.ceil(visibleReferences.length / pageSize);
   const paginatedReferences = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    return sortedReferences.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-  }, [sortedReferences, currentPage]);
+    const startIndex = (currentPage - 1) * pageSize;
+    return visibleReferences.slice(startIndex, startIndex + pageSize);
+  }, [visibleReferences, currentPage, pageSize]);
+
+  const unanalyzedReferences = useMemo(
+    () => references.filter(ref => !ref.extraction && (ref.abstract || fullTexts.byURI.has(ref.uri))),
+    [references, fullTexts.byURI]
+  );
+
+  // Any change to what is listed starts again from the first page.
+  const handleFiltersChange = (next: ReferenceFilters) => {
+    setFilters(next);
+    setCurrentPage(1);
+  };
+
+  const handleSortChange = (position: 0 | 1, key: SortKey) => {
+    setSortKeys(prev => position === 0 ? [key, prev[1] === key ? 'relevance' : prev[1]] : [prev[0], key]);
+    setCurrentPage(1);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
+  };
+
+  // The histogram drives the same year-range filter as the filter panel.
+  const selectedYear = filters.yearFrom !== undefined && filters.yearFrom === filters.yearTo ? filters.yearFrom : null;
+  const handleYearSelect = (year: number | null) => {
+    handleFiltersChange({ ...filters, yearFrom: year ?? undefined, yearTo: year ?? undefined });
+  };
+
+  const handleSaveSearch = () => {
+    const name = window.prompt(t.app.saveSearchPrompt, originalQuery);
+    if (name === null) return;
+    // Imported or shared results were not searched here; the windows tagged on their references stand in.
+    const options = searchOptions ?? { windows: windowsOf(references), verify: verifyResults, dropUnresolvable };
+    savedSearches.save(name, originalQuery, selectedSources, timeRange, summary ?? '', references, options);
+  };
+
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    resetResults();
+    setOriginalQuery(search.query);
+    setSelectedSources(search.sources);
+    setTimeRange(search.timeRange);
+    setSummary(search.summary || null);
+    setReferences(search.snapshot);
+    setSearchOptions({ windows: search.windows, verify: search.verify, dropUnresolvable: search.dropUnresolvable });
+    setNewReferenceURIs(new Set([...search.unseen, ...(search.lastDiff?.added ?? [])].map(ref => ref.uri)));
+    if (search.unseen.length > 0) savedSearches.markSeen([search.id]);
+    setView('search');
+  };
+
+  const getSharedSession = () => createSharedSession({
+    query: originalQuery,
+    sources: selectedSources,
+    timeRange,
+    summary,
+    references,
+    groundingChunks,
+    selectedURIs: selectedReferenceURIs,
+    messages: chat.messages,
+  });
+
+  // Loads a shared snapshot as it was, without searching again; its Q&A transcript joins the local conversations.
+  const handleOpenSharedSession = async (shared: SharedSession) => {
+    searchAbortRef.current?.abort();
+    resetResults();
+    setOriginalQuery(shared.query);
+    setSelectedSources(shared.sources);
+    setTimeRange(shared.timeRange);
+    setSummary(shared.summary);
+    setReferences(shared.references);
+    setGroundingChunks(shared.groundingChunks);
+    if (shared.messages.length > 0 && shared.selectedURIs.length > 0) {
+      try {
+        const thread = await loadThread(shared.selectedURIs);
+        if (thread.messages.length === 0 || window.confirm(t.share.replaceThread)) {
+          await saveThread({ ...thread, messages: shared.messages });
+        }
+      } catch (e) {
+        console.error('Saving the shared conversation failed:', e);
+      }
+    }
+    setSelectedReferencesForQA(shared.references.filter(ref => shared.selectedURIs.includes(ref.uri)));
+    setView('search');
+  };
+
+  const handleSaveReference = useCallback((ref: Reference) => {
+    library.saveReference(ref, originalQuery, saveTargetCollectionId || undefined);
+  }, [library.saveReference, originalQuery, saveTargetCollectionId]);
+
+  const referenceNumbers = useMemo(() => new Map(references.map((ref, index) => [ref.uri, index + 1])), [references]);
+
+  const handleCitationClick = useCallback((index: number) => {
+    const ref = references[index];
+    if (!ref) return;
+    // A cited paper hidden by the filters is shown by clearing them.
+    const isVisible = visibleReferences.some(r => r.uri === ref.uri);
+    if (!isVisible) setFilters(EMPTY_FILTERS);
+    const position = (isVisible ? visibleReferences : sortedReferences).findIndex(r => r.uri === ref.uri);
+    setCurrentPage(Math.floor(position / pageSize) + 1);
+    setHighlightedURI(ref.uri);
+  }, [references, sortedReferences, visibleReferences, pageSize]);
+
+  // A review may cite papers from an earlier search that are no longer listed; those open directly.
+  const handleReviewCitationClick = (ref: Reference) => {
+    const index = references.findIndex(r => r.uri === ref.uri || r.alternateURIs?.includes(ref.uri));
+    if (index === -1) {
+      window.open(ref.uri, '_blank', 'noopener,noreferrer');
+    } else {
+      handleCitationClick(index);
+    }
+  };
+
+  const handleShowReference = (uri: string) => handleCitationClick(references.findIndex(ref => ref.uri === uri));
+  const hasCitationRelations = useMemo(() => references.some(ref => ref.citationRelations?.length), [references]);
+
+  useEffect(() => {
+    if (highlightedURI) {
+      document.getElementById(`title-${highlightedURI}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlightedURI, currentPage]);
 
   const isAnyLoading = isSearching || isSearchingOlder;
+  const searchProgressMessage = searchStage
+    ? t.app.progress(t.app.stages[searchStage], references.length)
+    : '';
 
   return (
     <div className="min-h-screen bg-slate-100 font-sans">
       <Header />
       <main className="container mx-auto p-4 md:p-6 max-w-4xl">
-        <div className="p-4 bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200">
-            <SearchBar onSearch={handleSearch} isLoading={isSearching} />
-            <SourceSelector selected={selectedSources} onChange={handleSourceChange} />
+        <div className="flex gap-2 mb-4">
+            <button onClick={() => setView('search')} className={`px-4 py-2 font-semibold rounded-lg ${view === 'search' ? 'bg-slate-800 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}>{t.app.tabs.search}</button>
+            <button onClick={() => setView('library')} className={`px-4 py-2 font-semibold rounded-lg ${view === 'library' ? 'bg-slate-800 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}>{t.app.tabs.library(library.entries.length)}</button>
+            <button onClick={() => setView('saved')} className={`px-4 py-2 font-semibold rounded-lg ${view === 'saved' ? 'bg-slate-800 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}>{t.app.tabs.saved(savedSearches.searches.length)}</button>
+            <button onClick={() => setView('settings')} className={`px-4 py-2 font-semibold rounded-lg ${view === 'settings' ? 'bg-slate-800 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}>{t.app.tabs.settings}</button>
         </div>
+
+        <WhatsNewDigest searches={savedSearches.digest} onOpen={handleOpenSavedSearch} onDismiss={savedSearches.markSeen} />
+
+        {view === 'library' && <LibraryView library={library} fullTexts={fullTexts} />}
+        {view === 'saved' && <SavedSearchesView savedSearches={savedSearches} onOpen={handleOpenSavedSearch} />}
+        {view === 'settings' && <SettingsView settings={settings} onSave={next => setSettings(saveSettings(next))} />}
+
+        {view === 'search' && settings.backend === 'mock' && (
+          <p className="mb-4 px-4 py-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+            {t.app.mockBanner}
+            <button type="button" onClick={() => setView('settings')} className="ml-1 font-semibold underline hover:text-amber-900">{t.app.goToSettings}</button>
+          </p>
+        )}
+
+        {/* Kept mounted while the library is open so the search form and results survive switching tabs. */}
+        <div className={view === 'search' ? '' : 'hidden'}>
+          <div className="p-4 bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-slate-200">
+              <SearchBar onSearch={handleSearch} isLoading={isSearching} />
+              <SourceSelector selected={selectedSources} onChange={handleSourceChange} />
+              <VerificationOptions
+                  verify={verifyResults}
+                  dropUnresolvable={dropUnresolvable}
+                  onVerifyChange={setVerifyResults}
+                  onDropUnresolvableChange={setDropUnresolvable}
+              />
+              <DateRangeControl value={timeRange} onChange={setTimeRange} disabled={isAnyLoading} />
+              <BibliographyImport onLoad={handleLoadImported} onSeedSearch={handleSeedSearch} disabled={isSearching || isPreparingSeedSearch} />
+              <SessionShare getSession={getSharedSession} onOpen={handleOpenSharedSession} canShare={references.length > 0} disabled={isAnyLoading} />
+          </div>
         
-        <div className="mt-6">
-          {error && <ErrorMessage message={error} />}
-          {isSearching && <LoadingSpinner message="正在搜索最新文献 (2021至今)..." />}
+          <div className="mt-6">
+            {error && <ErrorMessage message={error.message} kind={error.kind} />}
+            {isPreparingSeedSearch && !isSearching && <LoadingSpinner message={t.app.preparingSeedSearch} />}
+            {isSearching && references.length === 0 && <LoadingSpinner message={t.app.searchingWindows(activeWindows.map(window => formatDateRange(window, t.dateRange.ongoing)).join(t.listSeparator))} onCancel={handleCancelSearch} />}
           
-          {summary && references.length > 0 && (
-            <div className="bg-slate-50 p-4 sm:p-6 rounded-xl shadow-lg border border-slate-200">
-              <div>
-                <h3 className="text-xl font-bold text-slate-700 mb-3">AI 文献摘要</h3>
-                <div className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm">
-                  <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">{summary}</p>
+            {references.length > 0 && (
+              <div className="bg-slate-50 p-4 sm:p-6 rounded-xl shadow-lg border border-slate-200">
+                {resultCachedAt && !isAnyLoading && (
+                  <div className="flex justify-between items-center gap-4 mb-4 px-4 py-2 bg-slate-100 border border-slate-200 rounded-lg text-sm text-slate-600">
+                    <span>{t.app.cachedResults(formatTime(resultCachedAt, t.dateLocale))}</span>
+                    <button type="button" onClick={() => handleSearch(originalQuery, { refresh: true })} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700">{t.app.searchAgain}</button>
+                  </div>
+                )}
+                {!isAnyLoading && <SearchWarnings warnings={searchWarnings} />}
+                <div>
+                  <h3 className="text-xl font-bold text-slate-700 mb-3">{t.app.summaryTitle}</h3>
+                  <div className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm">
+                    {summary ? (
+                      <>
+                        <CitedSummary summary={summary} references={references} onCitationClick={handleCitationClick} />
+                        {!isSummarizing && !isSearching && (
+                          <TranslatedText
+                            text={summary}
+                            translations={translations}
+                            render={translated => <CitedSummary summary={translated} references={references} onCitationClick={handleCitationClick} />}
+                          />
+                        )}
+                      </>
+                    ) : isSummarizing || isSearching ? (
+                      <LoadingSpinner message={t.app.summarizing} />
+                    ) : (
+                      <div className="text-center">
+                        <button onClick={handleSummarize} className="px-5 py-2 font-medium text-white bg-slate-800 rounded-lg hover:bg-slate-700">{t.app.summarize}</button>
+                      </div>
+                    )}
+                  </div>
+                  <SourcesPanel chunks={groundingChunks} />
                 </div>
-              </div>
               
-              <div className="mt-6">
-                <div className="flex flex-col sm:flex-row justify-between items-baseline mb-4">
-                    <h3 className="text-xl font-bold text-slate-700">参考文献 ({references.length})</h3>
-                    <div className="flex items-center gap-2 mt-2 sm:mt-0">
-                        <span className="text-sm font-semibold text-slate-600">排序:</span>
-                        <button onClick={() => setSortOrder('relevance')} className={`px-3 py-1 text-sm rounded-full ${sortOrder === 'relevance' ? 'bg-slate-800 text-white' : 'bg-white hover:bg-slate-200'}`}>相关度</button>
-                        <button onClick={() => setSortOrder('date')} className={`px-3 py-1 text-sm rounded-full ${sortOrder === 'date' ? 'bg-slate-800 text-white' : 'bg-white hover:bg-slate-200'}`}>时间</button>
-                    </div>
+                <div className="mt-6">
+                  {isAnyLoading && (
+                      <div className="flex justify-between items-center gap-4 mb-4 px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                          <span className="animate-pulse">{searchProgressMessage}</span>
+                          <button type="button" onClick={handleCancelSearch} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700">{t.common.cancel}</button>
+                      </div>
+                  )}
+                  <div className="flex flex-col sm:flex-row justify-between items-baseline mb-4">
+                      <h3 className="text-xl font-bold text-slate-700">{t.app.referencesTitle(isFiltering(filters) ? `${visibleReferences.length} / ${references.length}` : String(references.length))}</h3>
+                      <div className="flex items-center gap-2 mt-2 sm:mt-0">
+                          {library.collections.length > 0 && (
+                              <select
+                                  value={saveTargetCollectionId}
+                                  onChange={(e) => setSaveTargetCollectionId(e.target.value)}
+                                  className="px-2 py-1 text-sm bg-white border border-slate-300 rounded-md"
+                                  aria-label={t.app.saveTo}
+                              >
+                                  <option value="">{t.app.saveToUncategorized}</option>
+                                  {library.collections.map(collection => (
+                                      <option key={collection.id} value={collection.id}>{t.app.saveToCollection(collection.name)}</option>
+                                  ))}
+                              </select>
+                          )}
+                          <button
+                              type="button"
+                              onClick={handleSaveSearch}
+                              disabled={isAnyLoading || !originalQuery}
+                              className="px-2 py-1 text-sm bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                              {t.app.saveSearch}
+                          </button>
+                          <span className="text-sm font-semibold text-slate-600">{t.sort.label}</span>
+                          <select value={sortKeys[0]} onChange={(e) => handleSortChange(0, e.target.value as SortKey)} className="px-2 py-1 text-sm bg-white border border-slate-300 rounded-md" aria-label={t.sort.primary}>
+                              {SORT_KEYS.map(key => <option key={key} value={key}>{t.sort.keys[key]}</option>)}
+                          </select>
+                          {sortKeys[0] !== 'relevance' && (
+                              <select value={sortKeys[1]} onChange={(e) => handleSortChange(1, e.target.value as SortKey)} className="px-2 py-1 text-sm bg-white border border-slate-300 rounded-md" aria-label={t.sort.secondary}>
+                                  {SORT_KEYS.filter(key => key !== sortKeys[0]).map(key => (
+                                      <option key={key} value={key}>{t.sort.then(t.sort.keys[key])}</option>
+                                  ))}
+                              </select>
+                          )}
+                      </div>
+                  </div>
+                  <YearHistogram references={references} selectedYear={selectedYear} onSelectYear={handleYearSelect} />
+                  <FilterPanel references={references} filters={filters} onChange={handleFiltersChange} matchCount={visibleReferences.length} extractions={extractions} unanalyzed={unanalyzedReferences} />
+                  <TopicClusters
+                      clusters={clusters}
+                      references={references}
+                      referenceNumbers={referenceNumbers}
+                      isClustering={isClustering}
+                      onCluster={handleCluster}
+                      onCancel={handleCancelClustering}
+                      onSelectCluster={setSelectedReferencesForQA}
+                      onSearchCluster={handleSearch}
+                      onShowReference={handleShowReference}
+                      searchDisabled={isAnyLoading}
+                  />
+                  {pendingWindows.length > 0 && !isSearching && (
+                      <div className="my-4 text-center">
+                          <button onClick={handleSearchOlder} disabled={isAnyLoading} className="px-5 py-2.5 font-medium text-white bg-green-600 rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 disabled:bg-green-300 disabled:cursor-not-allowed transition duration-200">
+                              {isSearchingOlder ? t.app.searching : t.app.searchOlder(formatDateRange(pendingWindows[0], t.dateRange.ongoing))}
+                          </button>
+                      </div>
+                  )}
+                  <ExportMenu
+                      references={references}
+                      selectedReferences={selectedReferencesForQA}
+                      referenceNumbers={referenceNumbers}
+                      report={{ query: originalQuery, summary: summary ?? undefined, qa: toQuestionAnswerPairs(chat.messages) }}
+                  />
+                  {hasCitationRelations && (
+                      <div className="mb-4">
+                          <button type="button" onClick={() => setShowCitationGraph(prev => !prev)} className="text-sm font-semibold text-blue-700 hover:underline">
+                              {showCitationGraph ? t.app.hideGraph : t.app.showGraph}
+                          </button>
+                          {showCitationGraph && (
+                              <div className="mt-2">
+                                  <CitationGraph references={references} referenceNumbers={referenceNumbers} onSelect={handleShowReference} />
+                              </div>
+                          )}
+                      </div>
+                  )}
+                  <ResultsDisplay references={paginatedReferences} onSelect={handleSelectReference} selectedURIs={selectedReferenceURIs} referenceNumbers={referenceNumbers} highlightedURI={highlightedURI} savedURIs={library.savedURIs} onSave={handleSaveReference} fullTexts={fullTexts} expandingCitations={expandingCitations} onExpandCitations={handleExpandCitations} newURIs={newReferenceURIs} translations={translations} extractions={extractions} />
+                  {visibleReferences.length === 0 && (
+                      <p className="text-center text-slate-500 p-6 bg-white rounded-lg border border-slate-200">{t.app.noMatches}</p>
+                  )}
+                  <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+                  <div className="flex justify-end items-center gap-2 mt-4 text-sm text-slate-600">
+                      <label htmlFor="page-size">{t.app.pageSize}</label>
+                      <select id="page-size" value={pageSize} onChange={(e) => handlePageSizeChange(Number(e.target.value))} className="px-2 py-1 bg-white border border-slate-300 rounded-md">
+                          {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{t.common.papers(size)}</option>)}
+                      </select>
+                  </div>
                 </div>
-                {nextDateRange && !isSearching && (
-                    <div className="my-4 text-center">
-                        <button onClick={handleSearchOlder} disabled={isAnyLoading} className="px-5 py-2.5 font-medium text-white bg-green-600 rounded-lg hover:bg-green-500 focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-offset-2 disabled:bg-green-300 disabled:cursor-not-allowed transition duration-200">
-                            {isSearchingOlder ? '搜索中...' : `继续搜索 ${nextDateRange.start}-${nextDateRange.end} 年文献`}
-                        </button>
-                    </div>
-                )}
-                {isSearchingOlder && <LoadingSpinner message={`正在搜索 ${nextDateRange?.start}-${nextDateRange?.end} 年文献...`} />}
-                <ResultsDisplay references={paginatedReferences} onSelect={handleSelectReference} selectedURIs={selectedReferenceURIs} />
-                <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
-              </div>
 
-              <QABox onAsk={handleAsk} isLoading={isAnswering} answer={answer} selectedCount={selectedReferencesForQA.length}/>
-            </div>
-          )}
+                <ComparisonPanel comparison={comparison} selectedReferences={selectedReferencesForQA} referenceNumbers={referenceNumbers} topic={originalQuery} onCitationClick={handleReviewCitationClick} />
 
-          {!isSearching && !summary && (
-              <div className="text-center p-10 bg-white rounded-xl shadow-lg border border-slate-200 mt-6">
-                  <h2 className="text-xl font-semibold text-slate-700">准备开始您的学术探索之旅</h2>
-                  <p className="text-slate-500 mt-2">在上方搜索框中输入您感兴趣的研究领域，选择来源后即可开始探索！</p>
+                <ReviewPanel review={review} selectedReferences={selectedReferencesForQA} onCitationClick={handleReviewCitationClick} />
+
+                <QABox chat={chat} selectedCount={selectedReferencesForQA.length}/>
               </div>
-          )}
+            )}
+
+            {!isSearching && !isPreparingSeedSearch && references.length === 0 && (
+                <div className="text-center p-10 bg-white rounded-xl shadow-lg border border-slate-200 mt-6">
+                    <h2 className="text-xl font-semibold text-slate-700">{t.app.emptyTitle}</h2>
+                    <p className="text-slate-500 mt-2">{t.app.emptyHint}</p>
+                </div>
+            )}
+          </div>
         </div>
       </main>
     </div>
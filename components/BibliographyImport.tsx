@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import type { Reference } from '../types';
+import { importBibliography } from '../services/bibliography';
+import { classifyError } from '../services/errors';
+import { useLocale } from '../i18n';
+
+interface BibliographyImportProps {
+  onLoad: (references: Reference[], label: string) => void;
+  onSeedSearch: (references: Reference[]) => void;
+  disabled: boolean;
+}
+
+const BibliographyImport: React.FC<BibliographyImportProps> = ({ onLoad, onSeedSearch, disabled }) => {
+  const { t } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [imported, setImported] = useState<{ references: Reference[]; label: string; skipped: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const { references, skipped } = importBibliography(file.name, await file.text());
+      setImported({ references, skipped, label: file.name.replace(/\.[^.]+$/, '') });
+    } catch (err) {
+      setImported(null);
+      setError(classifyError(err).message);
+    }
+  };
+
+  const withAbstract = imported ? imported.references.filter(ref => ref.abstract).length : 0;
+
+  return (
+    <div className="mt-2 p-2 text-sm">
+      <input ref={inputRef} type="file" accept=".bib,.bibtex,.ris,.json" className="hidden" onChange={handleFile} />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t.import.button}
+      </button>
+      {error && <p className="mt-2 text-red-600">{t.import.failed(error)}</p>}
+      {imported && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-slate-600">
+          <span>
+            {t.import.loaded(imported.label, imported.references.length, withAbstract)}
+            {imported.skipped > 0 && t.import.skipped(imported.skipped)}{t.import.end}
+          </span>
+          <button
+            type="button"
+            onClick={() => onLoad(imported.references, imported.label)}
+            disabled={disabled}
+            className="px-3 py-1 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:bg-blue-300"
+          >
+            {t.import.useAsResults}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSeedSearch(imported.references)}
+            disabled={disabled}
+            className="px-3 py-1 font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 disabled:bg-green-300"
+          >
+            {t.import.seedSearch}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BibliographyImport;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import type { Reference } from '../types';
+import { buildCitationGraph } from '../services/citationGraph';
+import { useLocale } from '../i18n';
+
+interface CitationGraphProps {
+  references: Reference[];
+  referenceNumbers: Map<string, number>;
+  onSelect: (uri: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+
+const CitationGraph: React.FC<CitationGraphProps> = ({ references, referenceNumbers, onSelect }) => {
+  const { t } = useLocale();
+  const graph = useMemo(() => buildCitationGraph(references), [references]);
+  const [hoveredURI, setHoveredURI] = useState<string | null>(null);
+
+  const positions = useMemo(() => new Map(graph.nodes.map(node => [node.uri, { x: node.x * WIDTH, y: node.y * HEIGHT }])), [graph]);
+  const neighbours = useMemo(() => {
+    if (!hoveredURI) return null;
+    return new Set(graph.edges.filter(edge => edge.from === hoveredURI || edge.to === hoveredURI).flatMap(edge => [edge.from, edge.to]));
+  }, [graph, hoveredURI]);
+
+  if (graph.nodes.length === 0) {
+    return <p className="text-sm text-slate-500 p-4">{t.graph.empty}</p>;
+  }
+
+  const hovered = graph.nodes.find(node => node.uri === hoveredURI);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white rounded-lg border border-slate-200" role="img" aria-label={t.graph.label}>
+        <defs>
+          <marker id="citation-arrow" viewBox="0 0 10 10" refX="16" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+          </marker>
+        </defs>
+        {graph.edges.map(edge => {
+          const from = positions.get(edge.from)!;
+          const to = positions.get(edge.to)!;
+          const isActive = neighbours ? hoveredURI === edge.from || hoveredURI === edge.to : false;
+          return (
+            <line
+              key={`${edge.from}->${edge.to}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={isActive ? '#2563eb' : '#cbd5e1'}
+              strokeWidth={isActive ? 2 : 1}
+              opacity={neighbours && !isActive ? 0.3 : 1}
+              markerEnd="url(#citation-arrow)"
+            />
+          );
+        })}
+        {graph.nodes.map(node => {
+          const { x, y } = positions.get(node.uri)!;
+          const dimmed = neighbours && !neighbours.has(node.uri);
+          return (
+            <g
+              key={node.uri}
+              transform={`translate(${x}, ${y})`}
+              onMouseEnter={() => setHoveredURI(node.uri)}
+              onMouseLeave={() => setHoveredURI(null)}
+              onClick={() => onSelect(node.uri)}
+              className="cursor-pointer"
+              opacity={dimmed ? 0.35 : 1}
+            >
+              <title>{node.reference.title}</title>
+              <circle
+                r={node.isSeed ? 12 : 7}
+                fill={node.isSeed ? '#1e293b' : node.reference.citationRelations?.some(r => r.direction === 'citing') ? '#3b82f6' : '#10b981'}
+                stroke="#fff"
+                strokeWidth={2}
+              />
+              <text y={node.isSeed ? 4 : 3} textAnchor="middle" fontSize={node.isSeed ? 10 : 8} fill="#fff" pointerEvents="none">
+                {referenceNumbers.get(node.uri)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap justify-between gap-2 mt-2 text-xs text-slate-500">
+        <div className="flex gap-4">
+          <span><span className="inline-block w-3 h-3 mr-1 align-middle rounded-full bg-slate-800" />{t.graph.seed}</span>
+          <span><span className="inline-block w-3 h-3 mr-1 align-middle rounded-full bg-blue-500" />{t.graph.citing}</span>
+          <span><span className="inline-block w-3 h-3 mr-1 align-middle rounded-full bg-emerald-500" />{t.graph.cited}</span>
+        </div>
+        <span>{t.graph.help}</span>
+      </div>
+      {hovered && (
+        <p className="mt-2 text-sm text-slate-700">
+          [{referenceNumbers.get(hovered.uri)}] {hovered.reference.title}
+          {hovered.reference.publicationDate && <span className="text-slate-500">{t.graph.date(hovered.reference.publicationDate)}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CitationGraph;
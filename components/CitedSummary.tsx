@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import type { Reference } from '../types';
+import { splitCitations } from '../services/citations';
+
+interface CitedSummaryProps {
+  summary: string;
+  references: Reference[];
+  onCitationClick: (index: number) => void;
+}
+
+const CitedSummary: React.FC<CitedSummaryProps> = ({ summary, references, onCitationClick }) => {
+  const segments = useMemo(() => splitCitations(summary), [summary]);
+
+  return (
+    <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">
+      {segments.map((segment, i) => {
+        if (segment.type === 'text') {
+          return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+        }
+        return (
+          <sup key={i} className="whitespace-nowrap">
+            {segment.indices.map(index => {
+              const ref = references[index];
+              if (!ref) {
+                return <span key={index} className="text-slate-400">[{index + 1}]</span>;
+              }
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => onCitationClick(index)}
+                  title={ref.title}
+                  className="text-blue-700 font-semibold hover:underline"
+                >
+                  [{index + 1}]
+                </button>
+              );
+            })}
+          </sup>
+        );
+      })}
+    </p>
+  );
+};
+
+export default CitedSummary;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import type { ComparisonDimension, ComparisonDimensionKey, Reference } from '../types';
+import type { ComparisonApi } from '../hooks/useComparison';
+import { COMPARISON_DIMENSIONS, MAX_COMPARED, MIN_COMPARED, comparisonGrid, dimensionId, gridToCsv, gridToMarkdown } from '../services/paperComparison';
+import { downloadTextFile } from '../services/download';
+import { useLocale } from '../i18n';
+
+interface ComparisonPanelProps {
+  comparison: ComparisonApi;
+  selectedReferences: Reference[];
+  referenceNumbers: Map<string, number>;
+  topic: string;
+  onCitationClick: (ref: Reference) => void;
+}
+
+const buttonClass = 'px-3 py-1 text-sm bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ comparison, selectedReferences, referenceNumbers, topic, onCitationClick }) => {
+  const { t } = useLocale();
+  const { dimensions, cells, errors, isGenerating, generate } = comparison;
+  const [isOpen, setIsOpen] = useState(false);
+  const [newDimension, setNewDimension] = useState('');
+  const count = selectedReferences.length;
+  const canCompare = count >= MIN_COMPARED && count <= MAX_COMPARED;
+  const isShown = isOpen && canCompare;
+
+  const labelOf = (dimension: ComparisonDimension) =>
+    dimension.kind === 'builtIn' ? t.comparison.dimensions[dimension.key] : dimension.name;
+  const paperLabel = (ref: Reference) => `[${referenceNumbers.get(ref.uri) ?? '?'}] ${ref.title}`;
+
+  // While the matrix is shown, a newly checked paper or added dimension gets its cells straight away.
+  useEffect(() => {
+    if (isShown) generate(selectedReferences, dimensions);
+  }, [isShown, selectedReferences, dimensions, generate]);
+
+  const toggleBuiltIn = (key: ComparisonDimensionKey) => {
+    const existing = dimensions.find(dimension => dimension.kind === 'builtIn' && dimension.key === key);
+    comparison.setDimensions(existing ? dimensions.filter(dimension => dimension !== existing) : [...dimensions, { kind: 'builtIn', key }]);
+  };
+
+  const handleAddDimension = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newDimension.trim();
+    setNewDimension('');
+    if (!name || dimensions.some(dimension => dimension.kind === 'custom' && dimension.name.toLowerCase() === name.toLowerCase())) return;
+    comparison.setDimensions([...dimensions, { kind: 'custom', name }]);
+  };
+
+  const handleExport = (format: 'csv' | 'markdown') => {
+    const grid = comparisonGrid(selectedReferences, dimensions, cells, {
+      corner: t.comparison.corner,
+      paper: paperLabel,
+      dimension: labelOf,
+      missing: t.comparison.missing,
+      pending: '',
+    });
+    const slug = topic.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'comparison';
+    if (format === 'csv') {
+      // The byte order mark lets spreadsheet programs detect UTF-8, so Chinese text opens correctly.
+      downloadTextFile(`\uFEFF${gridToCsv(grid)}`, `${slug}_${t.comparison.fileSuffix}.csv`, 'text/csv');
+    } else {
+      downloadTextFile(`# ${t.comparison.heading(topic)}\n\n${gridToMarkdown(grid)}`, `${slug}_${t.comparison.fileSuffix}.md`, 'text/markdown');
+    }
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-2 py-0.5 text-xs rounded-full border ${selected ? 'bg-slate-800 border-slate-800 text-white' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-600'}`;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-300">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-3">
+        <h3 className="text-xl font-bold text-slate-700">{t.comparison.title}</h3>
+        <div className="flex flex-wrap gap-2">
+          {isShown && (
+            <>
+              {isGenerating && <button type="button" onClick={comparison.cancel} className={buttonClass}>{t.comparison.stop}</button>}
+              <button type="button" onClick={() => generate(selectedReferences, dimensions, true)} disabled={isGenerating} className={buttonClass}>{t.comparison.regenerate}</button>
+              <button type="button" onClick={() => handleExport('csv')} disabled={isGenerating} className={buttonClass}>{t.comparison.exportCsv}</button>
+              <button type="button" onClick={() => handleExport('markdown')} disabled={isGenerating} className={buttonClass}>{t.comparison.exportMarkdown}</button>
+              <button type="button" onClick={() => setIsOpen(false)} className={buttonClass}>{t.common.close}</button>
+            </>
+          )}
+          {!isShown && (
+            <button
+              type="button"
+              onClick={() => setIsOpen(true)}
+              disabled={!canCompare || dimensions.length === 0}
+              className="px-3 py-1 text-sm font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+            >
+              {t.comparison.compare(count)}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {count > MAX_COMPARED ? (
+        <p className="text-sm text-amber-700">{t.comparison.tooMany(MAX_COMPARED)}</p>
+      ) : !isShown && (
+        <p className="text-sm text-slate-500">{t.comparison.intro(MIN_COMPARED, MAX_COMPARED)}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+        <span className="font-semibold text-slate-600">{t.comparison.dimensionsLabel}</span>
+        {COMPARISON_DIMENSIONS.map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => toggleBuiltIn(key)}
+            aria-pressed={dimensions.some(dimension => dimension.kind === 'builtIn' && dimension.key === key)}
+            className={chipClass(dimensions.some(dimension => dimension.kind === 'builtIn' && dimension.key === key))}
+          >
+            {t.comparison.dimensions[key]}
+          </button>
+        ))}
+        {dimensions.filter(dimension => dimension.kind === 'custom').map(dimension => (
+          <span key={dimensionId(dimension)} className={`${chipClass(true)} inline-flex items-center gap-1`}>
+            {labelOf(dimension)}
+            <button
+              type="button"
+              onClick={() => comparison.setDimensions(dimensions.filter(other => other !== dimension))}
+              aria-label={t.comparison.removeDimension(labelOf(dimension))}
+              className="text-slate-300 hover:text-white"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddDimension}>
+          <input
+            type="text"
+            value={newDimension}
+            onChange={(e) => setNewDimension(e.target.value)}
+            placeholder={t.comparison.addDimension}
+            className="w-40 px-2 py-0.5 text-xs bg-white border border-slate-300 rounded-full outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </form>
+      </div>
+
+      {isShown && (
+        <div className="mt-4 overflow-x-auto bg-white rounded-lg border border-slate-200 shadow-sm">
+          <table className="w-full text-sm text-left border-collapse table-fixed min-w-[40rem]">
+            <thead>
+              <tr className="bg-slate-100 text-slate-600 align-top">
+                <th className="w-32 p-2 border border-slate-200">{t.comparison.corner}</th>
+                {selectedReferences.map(ref => (
+                  <th key={ref.uri} className="p-2 border border-slate-200 font-normal">
+                    <button type="button" onClick={() => onCitationClick(ref)} className="text-left font-semibold text-blue-700 hover:underline">
+                      {paperLabel(ref)}
+                    </button>
+                    {errors[ref.uri] && (
+                      <p className="mt-1 text-xs text-red-600">
+                        {t.errors[errors[ref.uri].kind].title}
+                        <button type="button" onClick={() => generate([ref], dimensions)} className="ml-2 text-blue-700 hover:underline">{t.comparison.retry}</button>
+                      </p>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dimensions.map(dimension => (
+                <tr key={dimensionId(dimension)} className="align-top">
+                  <th className="p-2 border border-slate-200 bg-slate-50 text-slate-600">{labelOf(dimension)}</th>
+                  {selectedReferences.map(ref => {
+                    const cell = cells[ref.uri]?.[dimensionId(dimension)];
+                    if (comparison.isPending(ref.uri, dimension)) {
+                      return <td key={ref.uri} className="p-2 border border-slate-200 text-slate-400 animate-pulse">{t.comparison.generating}</td>;
+                    }
+                    if (!cell) {
+                      return <td key={ref.uri} className="p-2 border border-slate-200 text-slate-300">—</td>;
+                    }
+                    if (cell.missing) {
+                      return (
+                        <td key={ref.uri} className="p-2 border border-slate-200 bg-amber-50 text-amber-700" title={t.comparison.missingTitle}>
+                          ⚠ {t.comparison.missing}
+                        </td>
+                      );
+                    }
+                    return <td key={ref.uri} className="p-2 border border-slate-200 text-slate-700">{cell.text}</td>;
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
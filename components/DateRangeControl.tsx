@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import type { TimeRange } from '../types';
+import { MAX_PARALLEL_WINDOWS, MIN_YEAR, WINDOW_SIZES, clampYear, formatDateRange, splitIntoWindows } from '../services/dateWindows';
+import { useLocale } from '../i18n';
+
+interface DateRangeControlProps {
+  value: TimeRange;
+  onChange: (value: TimeRange) => void;
+  disabled?: boolean;
+}
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+const parseYear = (value: string, fallback: number) => {
+  const year = Number.parseInt(value, 10);
+  return Number.isNaN(year) ? fallback : clampYear(year);
+};
+
+// Keeps the typed text locally and only commits a clamped year on blur, so partial input like "20" is not rejected mid-typing.
+const YearInput: React.FC<{ value: number; onCommit: (year: number) => void; disabled?: boolean; label: string }> = ({ value, onCommit, disabled, label }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const year = parseYear(draft, value);
+    setDraft(String(year));
+    if (year !== value) onCommit(year);
+  };
+
+  return (
+    <input
+      type="number"
+      min={MIN_YEAR}
+      max={CURRENT_YEAR}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-20 px-2 py-1 bg-white border border-slate-300 rounded-md"
+      aria-label={label}
+      disabled={disabled}
+    />
+  );
+};
+
+const DateRangeControl: React.FC<DateRangeControlProps> = ({ value, onChange, disabled }) => {
+  const { t } = useLocale();
+  const windows = splitIntoWindows(value);
+  const ranges = windows.map(window => formatDateRange(window, t.dateRange.ongoing));
+  const tooManyWindows = value.parallel && windows.length > MAX_PARALLEL_WINDOWS;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-700">
+        <span className="font-semibold text-slate-600">{t.dateRange.label}</span>
+        <label className="flex items-center gap-1">
+          {t.dateRange.from}
+          <YearInput label={t.dateRange.startYear} value={value.startYear} onCommit={(startYear) => onChange({ ...value, startYear })} disabled={disabled} />
+        </label>
+        <label className="flex items-center gap-1">
+          {t.dateRange.to}
+          <YearInput label={t.dateRange.endYear} value={value.endYear} onCommit={(endYear) => onChange({ ...value, endYear })} disabled={disabled} />
+        </label>
+        <select
+          value={value.windowSize}
+          onChange={(e) => onChange({ ...value, windowSize: Number(e.target.value) })}
+          className="px-2 py-1 bg-white border border-slate-300 rounded-md"
+          aria-label={t.dateRange.windowSize}
+          disabled={disabled}
+        >
+          {WINDOW_SIZES.map(size => <option key={size} value={size}>{size === 0 ? t.dateRange.wholeRange : t.dateRange.everyYears(size)}</option>)}
+        </select>
+        {windows.length > 1 && (
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={value.parallel}
+              onChange={(e) => onChange({ ...value, parallel: e.target.checked })}
+              disabled={disabled}
+            />
+            {t.dateRange.parallel}
+          </label>
+        )}
+      </div>
+      <p className={`text-xs mt-1 ${tooManyWindows ? 'text-amber-700' : 'text-slate-500'}`}>
+        {windows.length === 1
+          ? t.dateRange.single(ranges[0])
+          : value.parallel
+            ? t.dateRange.allAtOnce(windows.length, ranges.join(t.listSeparator))
+            : t.dateRange.oneByOne(ranges[0], windows.length - 1)}
+        {tooManyWindows && t.dateRange.tooManyWindows(MAX_PARALLEL_WINDOWS)}
+      </p>
+    </div>
+  );
+};
+
+export default DateRangeControl;
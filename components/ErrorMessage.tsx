@@ -1,15 +1,20 @@
-
 import React from 'react';
+import type { ServiceErrorKind } from '../services/errors';
+import { useLocale } from '../i18n';
 
 interface ErrorMessageProps {
   message: string;
+  kind?: ServiceErrorKind;
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, kind = 'unknown' }) => {
+  const { t } = useLocale();
+  const { title, hint } = t.errors[kind];
   return (
     <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md shadow-md" role="alert">
-      <p className="font-bold">发生错误</p>
+      <p className="font-bold">{title}</p>
       <p>{message}</p>
+      {hint && <p className="mt-1 text-sm text-red-600">{hint}</p>}
     </div>
   );
 };
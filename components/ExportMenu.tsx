@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import type { Reference } from '../types';
+import { EXPORT_FORMATS, buildCitationKeys, exportReferences } from '../services/bibliography';
+import type { ExportFormat, ExportReport } from '../services/bibliography';
+import { downloadTextFile } from '../services/download';
+import { useLocale } from '../i18n';
+
+interface ExportMenuProps {
+  references: Reference[];
+  selectedReferences: Reference[];
+  referenceNumbers: Map<string, number>;
+  report: ExportReport;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ references, selectedReferences, referenceNumbers, report }) => {
+  const { t } = useLocale();
+  const [format, setFormat] = useState<ExportFormat>('bibtex');
+  const [scope, setScope] = useState<'all' | 'selected'>('all');
+  const [includeReport, setIncludeReport] = useState(true);
+
+  const toExport = scope === 'selected' ? selectedReferences : references;
+  // Built over every result, so a \cite key stays the same whichever scope is exported.
+  const citationKeys = useMemo(() => {
+    const uris = new Set(references.map(ref => ref.uri));
+    return buildCitationKeys([...references, ...selectedReferences.filter(ref => !uris.has(ref.uri))]);
+  }, [references, selectedReferences]);
+
+  const handleExport = () => {
+    if (toExport.length === 0) return;
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const content = exportReferences(format, toExport, {
+      labels: t.export,
+      numbers: referenceNumbers,
+      keys: citationKeys,
+      report: includeReport ? report : undefined,
+    });
+    const slug = report.query.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'references';
+    downloadTextFile(content, `${slug}.${extension}`, mimeType);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 mb-4 bg-white rounded-lg border border-slate-200 text-sm">
+      <span className="font-semibold text-slate-600">{t.export.label}</span>
+      <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className="px-2 py-1 bg-white border border-slate-300 rounded-md" aria-label={t.export.format}>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+          <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+        ))}
+      </select>
+      <select value={scope} onChange={(e) => setScope(e.target.value as 'all' | 'selected')} className="px-2 py-1 bg-white border border-slate-300 rounded-md" aria-label={t.export.scope}>
+        <option value="all">{t.export.all(references.length)}</option>
+        <option value="selected">{t.export.selected(selectedReferences.length)}</option>
+      </select>
+      {format === 'markdown' && (
+        <label className="flex items-center gap-1 cursor-pointer text-slate-600">
+          <input type="checkbox" className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" checked={includeReport} onChange={(e) => setIncludeReport(e.target.checked)} />
+          {t.export.includeReport}
+        </label>
+      )}
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={toExport.length === 0}
+        className="px-3 py-1 font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+      >
+        {t.export.download}
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
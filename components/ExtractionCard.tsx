@@ -0,0 +1,75 @@
+import React from 'react';
+import type { Reference } from '../types';
+import type { ExtractionsApi } from '../hooks/useExtractions';
+import { EXTRACTION_TEXT_FIELDS } from '../services/paperExtraction';
+import { useLocale } from '../i18n';
+
+interface ExtractionCardProps {
+  reference: Reference;
+  extractions: ExtractionsApi;
+  hasFullText: boolean;
+}
+
+// The analyze button for one paper, and its structured details once they have been extracted.
+const ExtractionCard: React.FC<ExtractionCardProps> = ({ reference, extractions, hasFullText }) => {
+  const { t } = useLocale();
+  const { extraction } = reference;
+  const isBusy = extractions.busyURIs.includes(reference.uri);
+  const error = extractions.errors[reference.uri];
+  const canAnalyze = Boolean(reference.abstract) || hasFullText;
+
+  const analyzeButton = (
+    <button
+      type="button"
+      onClick={() => extractions.analyze(reference)}
+      disabled={isBusy || !canAnalyze}
+      title={canAnalyze ? undefined : t.extraction.nothingToAnalyze}
+      className="px-2 py-0.5 bg-white border border-slate-300 rounded-full hover:bg-slate-100 text-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isBusy ? t.extraction.analyzing : extraction ? t.extraction.reanalyze : t.extraction.analyze}
+    </button>
+  );
+
+  const errorMessage = error && (
+    <p className="mt-1 text-red-600">{t.errors[error.kind].title}</p>
+  );
+
+  if (!extraction) {
+    return (
+      <div className="mt-2 text-xs">
+        {analyzeButton}
+        {errorMessage}
+      </div>
+    );
+  }
+
+  return (
+    <details className="mt-2 text-xs bg-slate-50 border border-slate-200 rounded-md">
+      <summary className="px-3 py-1.5 cursor-pointer select-none text-slate-600">
+        <span className="font-semibold">{t.extraction.title}</span>
+        <span className="ml-2 px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-full">{t.extraction.designs[extraction.studyDesign]}</span>
+        {extraction.sampleSize !== undefined && (
+          <span className="ml-2 text-slate-500">{t.extraction.sampleSizeValue(extraction.sampleSize.toLocaleString(t.dateLocale))}</span>
+        )}
+      </summary>
+      <div className="px-3 pb-3">
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1.5 text-slate-600">
+          {EXTRACTION_TEXT_FIELDS.map(field => (
+            <React.Fragment key={field}>
+              <dt className="font-semibold">{t.extraction.fields[field]}</dt>
+              <dd>{extraction[field] || <span className="italic text-slate-400">{t.extraction.notReported}</span>}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-slate-400">
+          <span>{extraction.source === 'fullText' ? t.extraction.fromFullText : t.extraction.fromAbstract}</span>
+          {hasFullText && extraction.source === 'abstract' && <span className="text-amber-700">{t.extraction.fullTextAvailable}</span>}
+          {analyzeButton}
+        </div>
+        {errorMessage}
+      </div>
+    </details>
+  );
+};
+
+export default ExtractionCard;
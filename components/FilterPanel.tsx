@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import type { Reference, StudyDesign } from '../types';
+import type { ReferenceFilters } from '../services/referenceFilters';
+import { EMPTY_FILTERS, authorFacet, isFiltering, studyDesignFacet, venueFacet } from '../services/referenceFilters';
+import type { ExtractionsApi } from '../hooks/useExtractions';
+import { useLocale } from '../i18n';
+
+interface FilterPanelProps {
+  references: Reference[];
+  filters: ReferenceFilters;
+  onChange: (filters: ReferenceFilters) => void;
+  matchCount: number;
+  extractions: ExtractionsApi;
+  // References that have not been analyzed yet but have an abstract or full text to analyze.
+  unanalyzed: Reference[];
+}
+
+const MAX_VENUES = 12;
+const MAX_AUTHOR_SUGGESTIONS = 50;
+
+const parseInteger = (value: string): number | undefined => {
+  const year = Number.parseInt(value, 10);
+  return Number.isNaN(year) ? undefined : year;
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ references, filters, onChange, matchCount, extractions, unanalyzed }) => {
+  const { t } = useLocale();
+  const authors = useMemo(() => authorFacet(references).slice(0, MAX_AUTHOR_SUGGESTIONS), [references]);
+  const venues = useMemo(() => venueFacet(references), [references]);
+  const designs = useMemo(() => studyDesignFacet(references), [references]);
+  const analyzedCount = references.filter(ref => ref.extraction).length;
+  const active = isFiltering(filters);
+
+  const update = (changes: Partial<ReferenceFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleVenue = (venue: string) => {
+    update({
+      venues: filters.venues.includes(venue)
+        ? filters.venues.filter(v => v !== venue)
+        : [...filters.venues, venue],
+    });
+  };
+
+  const toggleDesign = (design: StudyDesign) => {
+    update({
+      studyDesigns: filters.studyDesigns.includes(design)
+        ? filters.studyDesigns.filter(d => d !== design)
+        : [...filters.studyDesigns, design],
+    });
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-2 py-0.5 text-xs rounded-full border ${selected ? 'bg-slate-800 border-slate-800 text-white' : 'bg-white border-slate-300 hover:bg-slate-100'}`;
+
+  const inputClass = 'px-2 py-1 text-sm bg-white border border-slate-300 rounded-md outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <details className="mb-4 bg-white rounded-lg border border-slate-200" open={active}>
+      <summary className="px-4 py-2 cursor-pointer text-sm font-semibold text-slate-600 select-none">
+        {t.filters.title}{active && t.filters.matching(matchCount, references.length)}
+      </summary>
+      <div className="px-4 pb-4 space-y-3 text-sm text-slate-700">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="search"
+            value={filters.keyword}
+            onChange={(e) => update({ keyword: e.target.value })}
+            placeholder={t.filters.keyword}
+            className={`${inputClass} flex-grow min-w-[12rem]`}
+          />
+          <input
+            type="search"
+            value={filters.author}
+            onChange={(e) => update({ author: e.target.value })}
+            placeholder={t.filters.author}
+            list="filter-author-suggestions"
+            className={`${inputClass} w-40`}
+          />
+          <datalist id="filter-author-suggestions">
+            {authors.map(author => <option key={author.value} value={author.value}>{t.common.papers(author.count)}</option>)}
+          </datalist>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-semibold text-slate-600">{t.filters.year}</span>
+          <input
+            type="number"
+            value={filters.yearFrom ?? ''}
+            onChange={(e) => update({ yearFrom: parseInteger(e.target.value) })}
+            placeholder={t.filters.yearFrom}
+            className={`${inputClass} w-20`}
+            aria-label={t.filters.startYear}
+          />
+          <span>-</span>
+          <input
+            type="number"
+            value={filters.yearTo ?? ''}
+            onChange={(e) => update({ yearTo: parseInteger(e.target.value) })}
+            placeholder={t.filters.yearTo}
+            className={`${inputClass} w-20`}
+            aria-label={t.filters.endYear}
+          />
+          <label className="flex items-center gap-1 cursor-pointer ml-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={filters.hasAbstract}
+              onChange={(e) => update({ hasAbstract: e.target.checked })}
+            />
+            {t.filters.hasAbstract}
+          </label>
+        </div>
+
+        {venues.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-slate-600">{t.filters.venue}</span>
+            {venues.filter((venue, index) => index < MAX_VENUES || filters.venues.includes(venue.value)).map(venue => (
+              <button
+                key={venue.value}
+                type="button"
+                onClick={() => toggleVenue(venue.value)}
+                className={chipClass(filters.venues.includes(venue.value))}
+              >
+                {venue.value} ({venue.count})
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-slate-100">
+          <span className="text-slate-600">{t.filters.analyzed(analyzedCount, references.length)}</span>
+          {extractions.isAnalyzingAll ? (
+            <>
+              <span className="text-slate-500 animate-pulse">{t.filters.analyzingAll}</span>
+              <button type="button" onClick={extractions.cancel} className="text-sm text-blue-700 hover:underline">{t.filters.stop}</button>
+            </>
+          ) : unanalyzed.length > 0 && (
+            <button type="button" onClick={() => extractions.analyzeAll(unanalyzed)} className="px-2 py-0.5 text-xs bg-white border border-slate-300 rounded-full hover:bg-slate-100 text-slate-600">
+              {t.filters.analyzeRest} ({unanalyzed.length})
+            </button>
+          )}
+        </div>
+
+        {analyzedCount > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-slate-600">{t.filters.studyDesign}</span>
+            {designs.map(design => (
+              <button key={design.value} type="button" onClick={() => toggleDesign(design.value)} className={chipClass(filters.studyDesigns.includes(design.value))}>
+                {t.extraction.designs[design.value]} ({design.count})
+              </button>
+            ))}
+            <label className="flex items-center gap-2 ml-2">
+              <span className="font-semibold text-slate-600">{t.filters.minSampleSize}</span>
+              <input
+                type="number"
+                min={0}
+                value={filters.minSampleSize ?? ''}
+                onChange={(e) => update({ minSampleSize: parseInteger(e.target.value) })}
+                className={`${inputClass} w-24`}
+              />
+            </label>
+          </div>
+        )}
+        {(filters.studyDesigns.length > 0 || filters.minSampleSize !== undefined) && (
+          <p className="text-xs text-slate-500">{t.filters.analyzedOnly}</p>
+        )}
+
+        {active && (
+          <button type="button" onClick={() => onChange(EMPTY_FILTERS)} className="text-sm text-blue-700 hover:underline">{t.filters.clear}</button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,53 @@
+import React, { useRef } from 'react';
+import type { Reference } from '../types';
+import type { FullTextsApi } from '../hooks/useFullTexts';
+import { useLocale } from '../i18n';
+
+interface FullTextControlProps {
+  reference: Reference;
+  fullTexts: FullTextsApi;
+}
+
+const FullTextControl: React.FC<FullTextControlProps> = ({ reference, fullTexts }) => {
+  const { t } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const document = fullTexts.byURI.get(reference.uri);
+  const isBusy = fullTexts.busyURIs.includes(reference.uri);
+  const error = fullTexts.errors[reference.uri];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) fullTexts.attach(reference, file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {isBusy ? (
+          <span className="text-slate-500">{t.fullText.processing}</span>
+        ) : document ? (
+          <>
+            <span className="px-2 py-0.5 bg-emerald-100 text-emerald-800 rounded-full" title={document.fileName}>
+              {t.fullText.loaded(document.pageCount)}
+            </span>
+            <button type="button" onClick={() => fullTexts.remove(reference.uri)} className="text-slate-500 hover:text-red-600">{t.fullText.remove}</button>
+          </>
+        ) : (
+          <>
+            <button type="button" onClick={() => inputRef.current?.click()} className="px-2 py-0.5 bg-white border border-slate-300 rounded-full hover:bg-slate-100 text-slate-600">
+              {t.fullText.upload}
+            </button>
+            <button type="button" onClick={() => fullTexts.fetchOpenAccess(reference)} className="px-2 py-0.5 bg-white border border-slate-300 rounded-full hover:bg-slate-100 text-slate-600">
+              {t.fullText.fetchOpenAccess}
+            </button>
+          </>
+        )}
+        <input ref={inputRef} type="file" accept="application/pdf,.pdf" onChange={handleFileChange} className="hidden" />
+      </div>
+      {error && <p className="mt-1 text-red-600">{error.message}</p>}
+    </div>
+  );
+};
+
+export default FullTextControl;
@@ -1,9 +1,17 @@
 
 import React from 'react';
+import type { Language } from '../types';
+import { useLocale } from '../i18n';
+
+const LOCALE_OPTIONS: { value: Language; label: string }[] = [
+  { value: 'zh', label: '中文' },
+  { value: 'en', label: 'English' },
+];
 
 const Header: React.FC = () => {
+  const { locale, setLocale, t } = useLocale();
   return (
-    <header className="text-center p-4 md:p-6 bg-white border-b border-slate-200">
+    <header className="relative text-center p-4 md:p-6 bg-white border-b border-slate-200">
       <div className="flex items-center justify-center gap-4">
         <div className="w-12 h-12 bg-slate-800 rounded-lg flex items-center justify-center">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -11,10 +19,23 @@ const Header: React.FC = () => {
             </svg>
         </div>
         <div>
-            <h1 className="text-2xl md:text-3xl font-bold text-slate-800">学术文献AI助手</h1>
-            <p className="text-sm md:text-md text-slate-500 mt-1">输入关键词，AI为您搜索、总结并解答文献疑问</p>
+            <h1 className="text-2xl md:text-3xl font-bold text-slate-800">{t.header.title}</h1>
+            <p className="text-sm md:text-md text-slate-500 mt-1">{t.header.subtitle}</p>
         </div>
       </div>
+      <div className="absolute top-3 right-3 flex text-xs border border-slate-300 rounded-md overflow-hidden" role="group" aria-label={t.header.languageLabel}>
+        {LOCALE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setLocale(option.value)}
+            aria-pressed={locale === option.value}
+            className={`px-2 py-1 ${locale === option.value ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
     </header>
   );
 };
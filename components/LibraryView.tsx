@@ -0,0 +1,287 @@
+import React, { useState, useMemo } from 'react';
+import type { LibraryEntry, LibraryCollection, ReadingStatus } from '../types';
+import type { LibraryApi } from '../hooks/useLibrary';
+import type { FullTextsApi } from '../hooks/useFullTexts';
+import { useChat } from '../hooks/useChat';
+import QABox from './QABox';
+import FullTextControl from './FullTextControl';
+import ErrorMessage from './ErrorMessage';
+import { useLocale } from '../i18n';
+
+const READING_STATUSES: ReadingStatus[] = ['unread', 'reading', 'read'];
+
+const ALL_ENTRIES = 'all';
+
+const EntryCard: React.FC<{
+  entry: LibraryEntry;
+  collections: LibraryCollection[];
+  isSelected: boolean;
+  onToggleSelect: () => void;
+  onUpdate: LibraryApi['updateEntry'];
+  onRemove: LibraryApi['removeEntry'];
+  onTagClick: (tag: string) => void;
+  fullTexts: FullTextsApi;
+}> = ({ entry, collections, isSelected, onToggleSelect, onUpdate, onRemove, onTagClick, fullTexts }) => {
+  const { t } = useLocale();
+  const [notes, setNotes] = useState(entry.notes);
+  const [newTag, setNewTag] = useState('');
+  const { reference } = entry;
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = newTag.trim();
+    if (tag && !entry.tags.includes(tag)) {
+      onUpdate(entry.id, { tags: [...entry.tags, tag] });
+    }
+    setNewTag('');
+  };
+
+  const toggleCollection = (collectionId: string) => {
+    const collectionIds = entry.collectionIds.includes(collectionId)
+      ? entry.collectionIds.filter(id => id !== collectionId)
+      : [...entry.collectionIds, collectionId];
+    onUpdate(entry.id, { collectionIds });
+  };
+
+  return (
+    <li className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm flex items-start gap-4">
+      <input
+        type="checkbox"
+        className="h-5 w-5 mt-1.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 cursor-pointer flex-shrink-0"
+        checked={isSelected}
+        onChange={onToggleSelect}
+        aria-label={t.library.select(reference.title)}
+      />
+      <div className="flex-grow min-w-0">
+        <div className="flex justify-between items-start gap-2">
+          <a href={reference.uri} target="_blank" rel="noopener noreferrer" className="text-lg font-semibold text-blue-700 hover:underline">
+            {reference.title}
+          </a>
+          <select
+            value={entry.readingStatus}
+            onChange={(e) => onUpdate(entry.id, { readingStatus: e.target.value as ReadingStatus })}
+            className="text-sm px-2 py-1 bg-white border border-slate-300 rounded-md flex-shrink-0"
+            aria-label={t.library.readingStatus}
+          >
+            {READING_STATUSES.map(status => (
+              <option key={status} value={status}>{t.library.statuses[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="text-sm text-slate-600 mt-2 space-y-1">
+          {reference.authors.length > 0 && <p><span className="font-semibold">{t.reference.authors}</span>{reference.authors.join(', ')}</p>}
+          {reference.publicationDate && <p><span className="font-semibold">{t.reference.published}</span>{reference.publicationDate}</p>}
+          {entry.sourceQuery && <p><span className="font-semibold">{t.library.fromSearch}</span>{entry.sourceQuery}</p>}
+        </div>
+        <FullTextControl reference={reference} fullTexts={fullTexts} />
+
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          {entry.tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-slate-200 text-slate-700 rounded-full">
+              <button type="button" onClick={() => onTagClick(tag)} className="hover:underline">#{tag}</button>
+              <button type="button" onClick={() => onUpdate(entry.id, { tags: entry.tags.filter(existing => existing !== tag) })} aria-label={t.library.removeTag(tag)} className="text-slate-500 hover:text-red-600">×</button>
+            </span>
+          ))}
+          <form onSubmit={handleAddTag}>
+            <input
+              type="text"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              placeholder={t.library.addTag}
+              className="w-24 px-2 py-0.5 text-xs bg-white border border-slate-300 rounded-full outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </form>
+        </div>
+
+        {collections.length > 0 && (
+          <div className="flex flex-wrap gap-3 mt-3 text-sm">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center gap-1 cursor-pointer text-slate-600">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={entry.collectionIds.includes(collection.id)}
+                  onChange={() => toggleCollection(collection.id)}
+                />
+                {collection.name}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes !== entry.notes && onUpdate(entry.id, { notes })}
+          placeholder={t.library.notes}
+          rows={2}
+          className="w-full mt-3 px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-md outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <div className="text-right mt-1">
+          <button type="button" onClick={() => onRemove(entry.id)} className="text-xs text-red-600 hover:underline">{t.library.remove}</button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const CollectionList: React.FC<{
+  collections: LibraryCollection[];
+  entries: LibraryEntry[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: LibraryApi['createCollection'];
+  onRename: LibraryApi['renameCollection'];
+  onDelete: LibraryApi['deleteCollection'];
+}> = ({ collections, entries, activeId, onSelect, onCreate, onRename, onDelete }) => {
+  const { t } = useLocale();
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      onCreate(newName);
+      setNewName('');
+    }
+  };
+
+  const handleRename = (collection: LibraryCollection) => {
+    const name = window.prompt(t.library.renamePrompt, collection.name);
+    if (name && name.trim()) onRename(collection, name);
+  };
+
+  const handleDelete = (collection: LibraryCollection) => {
+    if (window.confirm(t.library.confirmDelete(collection.name))) {
+      onDelete(collection.id);
+      if (activeId === collection.id) onSelect(ALL_ENTRIES);
+    }
+  };
+
+  const itemClass = (id: string) =>
+    `w-full text-left px-3 py-2 rounded-md text-sm ${activeId === id ? 'bg-slate-800 text-white' : 'hover:bg-slate-200 text-slate-700'}`;
+
+  return (
+    <nav className="space-y-1">
+      <button type="button" onClick={() => onSelect(ALL_ENTRIES)} className={itemClass(ALL_ENTRIES)}>
+        {t.library.all(entries.length)}
+      </button>
+      {collections.map(collection => (
+        <div key={collection.id} className="group flex items-center">
+          <button type="button" onClick={() => onSelect(collection.id)} className={itemClass(collection.id)}>
+            {collection.name} ({entries.filter(entry => entry.collectionIds.includes(collection.id)).length})
+          </button>
+          <button type="button" onClick={() => handleRename(collection)} className="hidden group-hover:block px-1 text-xs text-slate-500 hover:text-slate-800" aria-label={t.library.rename}>✎</button>
+          <button type="button" onClick={() => handleDelete(collection)} className="hidden group-hover:block px-1 text-xs text-slate-500 hover:text-red-600" aria-label={t.common.delete}>×</button>
+        </div>
+      ))}
+      <form onSubmit={handleCreate} className="pt-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t.library.newCollection}
+          className="w-full px-3 py-2 text-sm bg-white border border-slate-300 rounded-md outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </form>
+    </nav>
+  );
+};
+
+const LibraryView: React.FC<{ library: LibraryApi; fullTexts: FullTextsApi }> = ({ library, fullTexts }) => {
+  const { t } = useLocale();
+  const { entries, collections, isLoaded } = library;
+  const [activeCollectionId, setActiveCollectionId] = useState<string>(ALL_ENTRIES);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReadingStatus | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const visibleEntries = useMemo(() => entries.filter(entry =>
+    (activeCollectionId === ALL_ENTRIES || entry.collectionIds.includes(activeCollectionId)) &&
+    (!tagFilter || entry.tags.includes(tagFilter)) &&
+    (statusFilter === 'all' || entry.readingStatus === statusFilter)
+  ), [entries, activeCollectionId, tagFilter, statusFilter]);
+
+  const selectedEntries = useMemo(() => entries.filter(entry => selectedIds.includes(entry.id)), [entries, selectedIds]);
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const selectedReferences = useMemo(() => selectedEntries.map(entry => entry.reference), [selectedEntries]);
+  // Saved papers may come from different searches; all of their queries frame the question.
+  const researchTopic = useMemo(
+    () => Array.from(new Set(selectedEntries.map(entry => entry.sourceQuery).filter(Boolean))).join('; '),
+    [selectedEntries]
+  );
+  const chat = useChat(selectedReferences, researchTopic);
+
+  if (!isLoaded) return null;
+
+  return (
+    <div className="bg-slate-50 p-4 sm:p-6 rounded-xl shadow-lg border border-slate-200">
+      {library.error && <div className="mb-4"><ErrorMessage message={t.library[library.error]} /></div>}
+      <div className="flex flex-col md:flex-row gap-6">
+        <aside className="md:w-56 flex-shrink-0">
+          <CollectionList
+            collections={collections}
+            entries={entries}
+            activeId={activeCollectionId}
+            onSelect={setActiveCollectionId}
+            onCreate={library.createCollection}
+            onRename={library.renameCollection}
+            onDelete={library.deleteCollection}
+          />
+        </aside>
+        <section className="flex-grow min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm font-semibold text-slate-600">{t.library.statusFilter}</span>
+            {(['all', 'unread', 'reading', 'read'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1 text-sm rounded-full ${statusFilter === status ? 'bg-slate-800 text-white' : 'bg-white hover:bg-slate-200'}`}
+              >
+                {status === 'all' ? t.library.allStatuses : t.library.statuses[status]}
+              </button>
+            ))}
+            {tagFilter && (
+              <button onClick={() => setTagFilter(null)} className="px-3 py-1 text-sm rounded-full bg-blue-100 text-blue-800">
+                #{tagFilter} ×
+              </button>
+            )}
+          </div>
+
+          {visibleEntries.length === 0 ? (
+            <p className="text-center text-slate-500 p-8 bg-white rounded-lg border border-slate-200">
+              {entries.length === 0 ? t.library.empty : t.library.noMatches}
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {visibleEntries.map(entry => (
+                <EntryCard
+                  key={entry.id}
+                  entry={entry}
+                  collections={collections}
+                  isSelected={selectedIds.includes(entry.id)}
+                  onToggleSelect={() => toggleSelect(entry.id)}
+                  onUpdate={library.updateEntry}
+                  onRemove={library.removeEntry}
+                  onTagClick={setTagFilter}
+                  fullTexts={fullTexts}
+                />
+              ))}
+            </ul>
+          )}
+
+          <QABox
+            chat={chat}
+            selectedCount={selectedEntries.length}
+            hint={t.library.qaHint}
+          />
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryView;
@@ -1,11 +1,14 @@
 
 import React from 'react';
+import { useLocale } from '../i18n';
 
 interface LoadingSpinnerProps {
     message: string;
+    onCancel?: () => void;
 }
 
-const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message, onCancel }) => {
+  const { t } = useLocale();
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center bg-white/50 rounded-lg">
       <svg className="animate-spin h-8 w-8 text-slate-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -13,6 +16,11 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
       </svg>
       <p className="mt-4 text-slate-600 font-medium">{message}</p>
+      {onCancel && (
+        <button type="button" onClick={onCancel} className="mt-3 px-4 py-1.5 text-sm bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700">
+          {t.common.cancel}
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ChatMessage } from '../types';
+import type { ChatApi } from '../hooks/useChat';
+import ErrorMessage from './ErrorMessage';
+import { useLocale } from '../i18n';
+
+interface QABoxProps {
+  chat: ChatApi;
+  selectedCount: number;
+  hint?: string;
+}
+
+const formatTime = (timestamp: number, locale: string): string => new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+const UserMessage: React.FC<{ message: ChatMessage; canEdit: boolean; onEdit: (text: string) => void }> = ({ message, canEdit, onEdit }) => {
+  const { t } = useLocale();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim()) {
+      setIsEditing(false);
+      onEdit(draft.trim());
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSubmit} className="ml-auto w-full sm:w-3/4 space-y-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+          autoFocus
+        />
+        <div className="flex justify-end gap-2 text-sm">
+          <button type="button" onClick={() => { setDraft(message.text); setIsEditing(false); }} className="px-3 py-1 bg-white border border-slate-300 rounded-md">{t.common.cancel}</button>
+          <button type="submit" className="px-3 py-1 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500">{t.qa.resubmit}</button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="group ml-auto max-w-[85%] text-right">
+      <p className="inline-block px-4 py-2 text-left text-white bg-blue-600 rounded-lg whitespace-pre-wrap">{message.text}</p>
+      {canEdit && (
+        <button type="button" onClick={() => setIsEditing(true)} className="block ml-auto mt-1 text-xs text-slate-400 hover:text-slate-700 invisible group-hover:visible">
+          {t.qa.edit}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const QABox: React.FC<QABoxProps> = ({ chat, selectedCount, hint }) => {
+  const { t } = useLocale();
+  const [question, setQuestion] = useState('');
+  const { messages, streamingText, isStreaming, error } = chat;
+  const isDisabled = selectedCount === 0 || isStreaming;
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, streamingText]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (question.trim() && !isDisabled) {
+      chat.ask(question.trim());
+      setQuestion('');
+    }
+  };
+
+  const lastMessage = messages[messages.length - 1];
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-300">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="text-xl font-bold text-slate-700">{t.qa.title}</h3>
+        {messages.length > 0 && !isStreaming && (
+          <button type="button" onClick={chat.clear} className="text-sm text-slate-500 hover:text-red-600">{t.qa.clear}</button>
+        )}
+      </div>
+      <p className="text-sm text-slate-500 mb-4">{hint ?? t.qa.hint}</p>
+
+      {(messages.length > 0 || isStreaming) && (
+        <div className="mb-4 space-y-3 max-h-[32rem] overflow-y-auto p-2">
+          {messages.map(message => message.role === 'user' ? (
+            <UserMessage key={message.id} message={message} canEdit={!isStreaming} onEdit={(text) => chat.editQuestion(message.id, text)} />
+          ) : (
+            <div key={message.id} className="max-w-[85%] p-4 bg-blue-50 border-l-4 border-blue-400 rounded-r-lg">
+              <p className="text-slate-800 whitespace-pre-wrap">{message.text}</p>
+              {message.stopped && <p className="mt-2 text-xs text-slate-500">{t.qa.stopped}</p>}
+              {message.cachedAt && (
+                <p className="mt-2 text-xs text-slate-500">{t.qa.cached(formatTime(message.cachedAt, t.dateLocale))}</p>
+              )}
+              {message === lastMessage && !isStreaming && (
+                <button type="button" onClick={chat.regenerate} className="mt-2 text-xs text-slate-500 hover:text-slate-800">{t.qa.regenerate}</button>
+              )}
+            </div>
+          ))}
+          {isStreaming && (
+            <div className="max-w-[85%] p-4 bg-blue-50 border-l-4 border-blue-400 rounded-r-lg">
+              <p className="text-slate-800 whitespace-pre-wrap">{streamingText || t.qa.thinking}<span className="animate-pulse">▍</span></p>
+              <button type="button" onClick={chat.stop} className="mt-2 text-xs text-red-600 hover:underline">{t.qa.stop}</button>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4">
+          <ErrorMessage message={error.message} kind={error.kind} />
+          {lastMessage?.role === 'user' && (
+            <button type="button" onClick={chat.regenerate} className="mt-2 text-sm text-blue-700 hover:underline">{t.qa.retry}</button>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={selectedCount > 0 ? (messages.length > 0 ? t.qa.followUp : t.qa.askAbout(selectedCount)) : t.qa.selectFirst}
+          className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition duration-200 disabled:bg-slate-100"
+          disabled={isDisabled}
+          aria-label={t.qa.inputLabel}
+        />
+        <button
+          type="submit"
+          className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 disabled:bg-blue-300 disabled:cursor-not-allowed transition duration-200"
+          disabled={isDisabled}
+        >
+          {isStreaming ? t.qa.thinking : t.qa.ask}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default QABox;
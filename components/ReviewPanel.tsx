@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import type { EvidenceRow, LiteratureReview, Reference, ReviewSection } from '../types';
+import type { ReviewApi } from '../hooks/useReview';
+import { EVIDENCE_COLUMNS, reviewToHtml, reviewToMarkdown, uncitedParagraphs } from '../services/literatureReview';
+import { downloadTextFile } from '../services/download';
+import CitedSummary from './CitedSummary';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+import { useLocale } from '../i18n';
+
+interface ReviewPanelProps {
+  review: ReviewApi;
+  selectedReferences: Reference[];
+  onCitationClick: (ref: Reference) => void;
+}
+
+const MIN_REFERENCES = 2;
+
+const buttonClass = 'px-3 py-1 text-sm bg-white border border-slate-300 rounded-md hover:bg-slate-100 text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed';
+const inputClass = 'w-full px-2 py-1 text-sm bg-white border border-slate-300 rounded-md outline-none focus:ring-1 focus:ring-blue-500';
+
+const SectionEditor: React.FC<{ section: ReviewSection; onChange: (section: ReviewSection) => void }> = ({ section, onChange }) => {
+  const { t } = useLocale();
+  return (
+    <div className="space-y-1">
+      <input value={section.heading} onChange={(e) => onChange({ ...section, heading: e.target.value })} className={`${inputClass} font-semibold`} aria-label={t.review.sectionHeading} />
+      <textarea value={section.body} onChange={(e) => onChange({ ...section, body: e.target.value })} rows={6} className={`${inputClass} leading-relaxed`} aria-label={t.review.sectionBody(section.heading)} />
+    </div>
+  );
+};
+
+const EvidenceEditor: React.FC<{ review: LiteratureReview; onChange: (evidence: EvidenceRow[]) => void }> = ({ review, onChange }) => {
+  const { t } = useLocale();
+  const updateRow = (index: number, changes: Partial<EvidenceRow>) =>
+    onChange(review.evidence.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  return (
+    <div className="space-y-2">
+      {review.evidence.map((row, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-[8rem_1fr_1fr_1fr_auto] gap-2 items-start">
+          <select value={row.paper} onChange={(e) => updateRow(index, { paper: Number(e.target.value) })} className={inputClass} aria-label={t.review.paper}>
+            {review.references.map((ref, i) => <option key={ref.uri} value={i + 1}>[{i + 1}] {ref.title}</option>)}
+          </select>
+          {EVIDENCE_COLUMNS.map(column => (
+            <textarea key={column} value={row[column]} onChange={(e) => updateRow(index, { [column]: e.target.value })} rows={2} placeholder={t.review.columns[column]} className={inputClass} aria-label={t.review.columns[column]} />
+          ))}
+          <button type="button" onClick={() => onChange(review.evidence.filter((_, i) => i !== index))} className="px-2 py-1 text-sm text-slate-400 hover:text-red-600" aria-label={t.review.removeRow}>✕</button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...review.evidence, { paper: 1, method: '', dataset: '', keyResult: '' }])} className={buttonClass}>{t.review.addRow}</button>
+    </div>
+  );
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ review: reviewApi, selectedReferences, onCitationClick }) => {
+  const { t } = useLocale();
+  const { review, isGenerating, error } = reviewApi;
+  const [isEditing, setIsEditing] = useState(false);
+  const canGenerate = selectedReferences.length >= MIN_REFERENCES && !isGenerating;
+
+  const handleGenerate = () => {
+    if (!canGenerate) return;
+    if (review && !window.confirm(t.review.confirmRegenerate)) return;
+    setIsEditing(false);
+    reviewApi.generate(selectedReferences, t.review.sections);
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm(t.review.confirmDiscard)) reviewApi.update(null);
+  };
+
+  const handleExport = (format: 'markdown' | 'html') => {
+    if (!review) return;
+    const slug = review.topic.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'review';
+    const labels = {
+      lang: t.htmlLang,
+      title: t.review.documentTitle,
+      paper: t.review.paper,
+      columns: t.review.columns,
+      evidence: t.review.evidence,
+      references: t.review.references,
+    };
+    if (format === 'markdown') {
+      downloadTextFile(reviewToMarkdown(review, labels), `${slug}_${t.review.fileSuffix}.md`, 'text/markdown');
+    } else {
+      downloadTextFile(reviewToHtml(review, labels), `${slug}_${t.review.fileSuffix}.html`, 'text/html');
+    }
+  };
+
+  const updateSection = (index: number, section: ReviewSection) => {
+    if (review) reviewApi.update({ ...review, sections: review.sections.map((s, i) => (i === index ? section : s)) });
+  };
+
+  const citeFromReview = (index: number) => {
+    const ref = review?.references[index];
+    if (ref) onCitationClick(ref);
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-300">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-3">
+        <h3 className="text-xl font-bold text-slate-700">{t.review.title}</h3>
+        <div className="flex flex-wrap gap-2">
+          {review && !isGenerating && (
+            <>
+              <button type="button" onClick={() => setIsEditing(prev => !prev)} className={buttonClass}>{isEditing ? t.review.doneEditing : t.review.edit}</button>
+              <button type="button" onClick={() => handleExport('markdown')} className={buttonClass}>{t.review.exportMarkdown}</button>
+              <button type="button" onClick={() => handleExport('html')} className={buttonClass}>{t.review.exportHtml}</button>
+              <button type="button" onClick={handleDiscard} className={`${buttonClass} hover:text-red-600`}>{t.common.delete}</button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            className="px-3 py-1 text-sm font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            {review ? t.review.regenerate : t.review.generate}{t.review.selectedCount(selectedReferences.length)}
+          </button>
+        </div>
+      </div>
+
+      {!review && !isGenerating && (
+        <p className="text-sm text-slate-500">{t.review.intro(MIN_REFERENCES)}</p>
+      )}
+      {isGenerating && <LoadingSpinner message={t.review.generating(selectedReferences.length)} onCancel={reviewApi.cancel} />}
+      {error && <ErrorMessage message={error.message} kind={error.kind} />}
+
+      {review && !isGenerating && (
+        <div className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm space-y-5">
+          {review.sections.map((section, index) => {
+            if (isEditing) {
+              return <SectionEditor key={section.kind} section={section} onChange={(next) => updateSection(index, next)} />;
+            }
+            if (!section.body.trim()) return null;
+            const uncited = uncitedParagraphs(section.body).length;
+            return (
+              <section key={section.kind}>
+                <h4 className="text-lg font-semibold text-slate-700 mb-1">{section.heading}</h4>
+                <CitedSummary summary={section.body} references={review.references} onCitationClick={citeFromReview} />
+                {uncited > 0 && <p className="mt-1 text-xs text-amber-700">{t.review.uncited(uncited)}</p>}
+              </section>
+            );
+          })}
+
+          <section>
+            <h4 className="text-lg font-semibold text-slate-700 mb-2">{t.review.evidence}</h4>
+            {isEditing ? (
+              <EvidenceEditor review={review} onChange={(evidence) => reviewApi.update({ ...review, evidence })} />
+            ) : review.evidence.length === 0 ? (
+              <p className="text-sm text-slate-500">{t.review.evidenceEmpty}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left border-collapse">
+                  <thead>
+                    <tr className="bg-slate-100 text-slate-600">
+                      <th className="p-2 border border-slate-200">{t.review.paper}</th>
+                      {EVIDENCE_COLUMNS.map(column => <th key={column} className="p-2 border border-slate-200">{t.review.columns[column]}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {review.evidence.map((row, index) => (
+                      <tr key={index} className="align-top">
+                        <td className="p-2 border border-slate-200">
+                          <button type="button" onClick={() => citeFromReview(row.paper - 1)} title={review.references[row.paper - 1]?.title} className="text-blue-700 font-semibold hover:underline">[{row.paper}]</button>
+                        </td>
+                        {EVIDENCE_COLUMNS.map(column => <td key={column} className="p-2 border border-slate-200 text-slate-700">{row[column] || '—'}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-slate-600 mb-1">{t.review.numbering}</h4>
+            <ol className="text-sm text-slate-600 space-y-0.5">
+              {review.references.map((ref, index) => (
+                <li key={ref.uri}>
+                  <button type="button" onClick={() => onCitationClick(ref)} className="text-left hover:underline">[{index + 1}] {ref.title}</button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
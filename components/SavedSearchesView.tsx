@@ -0,0 +1,145 @@
+import React from 'react';
+import type { RecheckSchedule, SavedSearch } from '../types';
+import type { SavedSearchesApi } from '../hooks/useSavedSearches';
+import { formatDateRange } from '../services/dateWindows';
+import ErrorMessage from './ErrorMessage';
+import SearchWarnings from './SearchWarnings';
+import { useLocale } from '../i18n';
+
+interface SavedSearchesViewProps {
+  savedSearches: SavedSearchesApi;
+  onOpen: (search: SavedSearch) => void;
+}
+
+const SCHEDULES: RecheckSchedule[] = ['manual', 'onOpen', 'daily', 'weekly'];
+
+const formatTime = (timestamp: number, locale: string): string => new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+const DiffDetails: React.FC<{ search: SavedSearch }> = ({ search }) => {
+  const { t } = useLocale();
+  const diff = search.lastDiff;
+  if (!diff) return <p className="mt-2 text-sm text-slate-500">{t.savedSearches.neverRerun}</p>;
+  const comparedAt = formatTime(diff.comparedAt, t.dateLocale);
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return <p className="mt-2 text-sm text-slate-500">{t.savedSearches.unchanged(comparedAt)}</p>;
+  }
+
+  return (
+    <details className="mt-2 text-sm" open={diff.added.length > 0}>
+      <summary className="cursor-pointer select-none text-slate-600">
+        {t.savedSearches.diff(comparedAt, diff.added.length, diff.removed.length, diff.changed.length)}
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {diff.added.map(ref => (
+          <li key={`added-${ref.uri}`} className="px-2 py-1 bg-green-50 border-l-4 border-green-500 rounded-r">
+            <span className="mr-2 text-xs font-semibold text-green-700">{t.savedSearches.added}</span>
+            <a href={ref.uri} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">{ref.title}</a>
+            {ref.publicationDate && <span className="ml-2 text-slate-500">{ref.publicationDate}</span>}
+          </li>
+        ))}
+        {diff.removed.map(ref => (
+          <li key={`removed-${ref.uri}`} className="px-2 py-1 bg-slate-50 border-l-4 border-slate-300 rounded-r text-slate-500">
+            <span className="mr-2 text-xs font-semibold">{t.savedSearches.removed}</span>
+            <span className="line-through">{ref.title}</span>
+          </li>
+        ))}
+        {diff.changed.map(({ reference, changes }) => (
+          <li key={`changed-${reference.uri}`} className="px-2 py-1 bg-amber-50 border-l-4 border-amber-400 rounded-r">
+            <span className="mr-2 text-xs font-semibold text-amber-700">{t.savedSearches.changed}</span>
+            <a href={reference.uri} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">{reference.title}</a>
+            <ul className="ml-6 mt-1 text-xs text-slate-600 list-disc">
+              {changes.map(change => (
+                <li key={change.field}>
+                  {t.savedSearches.fieldChange(t.savedSearches.fields[change.field])}<span className="line-through text-slate-400">{change.before}</span> → {change.after}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+const SavedSearchesView: React.FC<SavedSearchesViewProps> = ({ savedSearches, onOpen }) => {
+  const { t } = useLocale();
+  const { searches, runningIds, errors, storageError } = savedSearches;
+
+  const handleRename = (search: SavedSearch) => {
+    const name = window.prompt(t.savedSearches.renamePrompt, search.name);
+    if (name?.trim()) savedSearches.rename(search.id, name.trim());
+  };
+
+  const handleRemove = (search: SavedSearch) => {
+    if (window.confirm(t.savedSearches.confirmRemove(search.name))) savedSearches.remove(search.id);
+  };
+
+  if (searches.length === 0) {
+    return (
+      <div className="text-center p-10 bg-white rounded-xl shadow-lg border border-slate-200">
+        {storageError && <ErrorMessage message={t.savedSearches[storageError]} />}
+        <h2 className="text-xl font-semibold text-slate-700">{t.savedSearches.emptyTitle}</h2>
+        <p className="text-slate-500 mt-2">{t.savedSearches.emptyHint}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {storageError && <ErrorMessage message={t.savedSearches[storageError]} />}
+      <ul className="space-y-4">
+        {searches.map(search => {
+          const isRunning = runningIds.includes(search.id);
+          const error = errors[search.id];
+          return (
+            <li key={search.id} className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm">
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-slate-800">
+                    {search.name}
+                    {search.unseen.length > 0 && <span className="ml-2 px-2 py-0.5 text-xs font-semibold text-white bg-green-600 rounded-full">{t.savedSearches.newPapers(search.unseen.length)}</span>}
+                  </h3>
+                  <p className="text-sm text-slate-600">{t.savedSearches.query(search.query)}</p>
+                  <p className="text-sm text-slate-500">
+                    {search.sources.length > 0 ? search.sources.join(t.listSeparator) : t.savedSearches.allSources} · {formatDateRange(search.timeRange, t.dateRange.ongoing)} · {t.savedSearches.total(search.snapshot.length)} · {t.savedSearches.lastRun(formatTime(search.lastRunAt, t.dateLocale))}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <select
+                    value={search.schedule}
+                    onChange={(e) => savedSearches.setSchedule(search.id, e.target.value as RecheckSchedule)}
+                    className="px-2 py-1 bg-white border border-slate-300 rounded-md"
+                    aria-label={t.savedSearches.schedule}
+                  >
+                    {SCHEDULES.map(schedule => (
+                      <option key={schedule} value={schedule}>{t.savedSearches.schedules[schedule]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => savedSearches.run(search.id)}
+                    disabled={isRunning}
+                    className="px-3 py-1 font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                  >
+                    {isRunning ? t.savedSearches.running : t.savedSearches.rerun}
+                  </button>
+                  <button type="button" onClick={() => onOpen(search)} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100">{t.savedSearches.open}</button>
+                  <button type="button" onClick={() => handleRename(search)} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100">{t.savedSearches.rename}</button>
+                  <button type="button" onClick={() => handleRemove(search)} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 hover:text-red-600">{t.common.delete}</button>
+                </div>
+              </div>
+              {error && <ErrorMessage message={error.message} kind={error.kind} />}
+              {search.lastWarnings?.some(warning => warning.kind === 'provider') && (
+                <p className="mt-2 text-sm text-amber-800">{t.savedSearches.incompleteRun}</p>
+              )}
+              <SearchWarnings warnings={search.lastWarnings ?? []} />
+              <DiffDetails search={search} />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedSearchesView;
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { SearchWarning } from '../types';
+import { formatDateRange } from '../services/dateWindows';
+import { useLocale } from '../i18n';
+
+interface SearchWarningsProps {
+  warnings: SearchWarning[];
+}
+
+// The parts of the last search that failed, so incomplete results are not mistaken for complete ones.
+const SearchWarnings: React.FC<SearchWarningsProps> = ({ warnings }) => {
+  const { t } = useLocale();
+  if (warnings.length === 0) return null;
+
+  return (
+    <ul role="status" className="mb-4 px-4 py-2 space-y-1 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+      {warnings.map((warning, index) => (
+        <li key={index}>
+          {warning.kind === 'provider'
+            ? t.results.providerFailed(
+                warning.sources.join(t.listSeparator),
+                warning.window ? formatDateRange(warning.window, t.dateRange.ongoing) : null,
+                warning.error
+              )
+            : t.results.summaryFailed(warning.error)}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SearchWarnings;
@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import type { SharedSession } from '../services/shareService';
+import { MAX_LINK_LENGTH, createSessionLink, parseSessionJson, sessionToJson } from '../services/shareService';
+import { downloadTextFile } from '../services/download';
+import { classifyError } from '../services/errors';
+import { useLocale } from '../i18n';
+
+interface SessionShareProps {
+  // Builds the snapshot on demand, so it always reflects the current results and transcript.
+  getSession: () => SharedSession;
+  onOpen: (session: SharedSession) => void;
+  canShare: boolean;
+  disabled: boolean;
+}
+
+const SessionShare: React.FC<SessionShareProps> = ({ getSession, onOpen, canShare, disabled }) => {
+  const { t } = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCopyLink = async () => {
+    setStatus(null);
+    setError(null);
+    try {
+      const link = await createSessionLink(getSession(), window.location.href);
+      if (link.length > MAX_LINK_LENGTH) {
+        setError(t.share.linkTooLong);
+        return;
+      }
+      await navigator.clipboard.writeText(link);
+      setStatus(t.share.linkCopied);
+    } catch (err) {
+      setError(classifyError(err).message);
+    }
+  };
+
+  const handleDownload = () => {
+    const session = getSession();
+    const slug = session.query.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'session';
+    downloadTextFile(sessionToJson(session), `${slug}.paperfinder.json`, 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setStatus(null);
+    setError(null);
+    try {
+      onOpen(parseSessionJson(await file.text()));
+    } catch (err) {
+      setError(classifyError(err).message);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="px-2 pb-2 text-sm">
+      <input ref={inputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={handleCopyLink} disabled={!canShare || disabled} className={buttonClass}>{t.share.copyLink}</button>
+        <button type="button" onClick={handleDownload} disabled={!canShare || disabled} className={buttonClass}>{t.share.download}</button>
+        <button type="button" onClick={() => inputRef.current?.click()} disabled={disabled} className={buttonClass}>{t.share.open}</button>
+      </div>
+      {status && <p className="mt-2 text-green-700">{status}</p>}
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default SessionShare;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import type { BackendSettings, ModelBackendKind, ModelSettings, ModelTask } from '../types';
+import { DEFAULT_SETTINGS, RESULT_COUNT_RANGE, TEMPERATURE_RANGE } from '../services/settingsService';
+import { clearResponseCache } from '../services/responseCache';
+import { useLocale } from '../i18n';
+
+interface SettingsViewProps {
+  settings: ModelSettings;
+  onSave: (settings: ModelSettings) => void;
+}
+
+const BACKENDS: ModelBackendKind[] = ['gemini', 'openai', 'mock'];
+const TASKS: ModelTask[] = ['search', 'qa', 'embedding'];
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave }) => {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  // Saving normalizes the values (e.g. clamps the result count), so the form shows what was actually stored.
+  useEffect(() => setDraft(settings), [settings]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const backend = draft.backend === 'mock' ? null : draft[draft.backend];
+
+  const updateBackend = (changes: Partial<BackendSettings>) => {
+    if (draft.backend === 'mock') return;
+    setDraft({ ...draft, [draft.backend]: { ...draft[draft.backend], ...changes } });
+  };
+
+  const updateModel = (task: ModelTask, model: string) => {
+    if (backend) updateBackend({ models: { ...backend.models, [task]: model } });
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t.settings.confirmReset)) setDraft(DEFAULT_SETTINGS);
+  };
+
+  const handleClearCache = () => {
+    clearResponseCache()
+      .then(() => setCacheStatus(t.settings.cacheCleared))
+      .catch(e => {
+        console.error('Clearing the response cache failed:', e);
+        setCacheStatus(t.settings.cacheClearFailed);
+      });
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm bg-white border border-slate-300 rounded-md outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); onSave(draft); }}
+      className="p-6 space-y-6 bg-white rounded-xl shadow-lg border border-slate-200 text-sm text-slate-700"
+    >
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-slate-800">{t.settings.service}</h2>
+        <div className="flex flex-wrap gap-4">
+          {BACKENDS.map(kind => (
+            <label key={kind} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="backend" checked={draft.backend === kind} onChange={() => setDraft({ ...draft, backend: kind })} />
+              {t.settings.backends[kind]}
+            </label>
+          ))}
+        </div>
+        {draft.backend === 'mock' && (
+          <p className="text-slate-500">{t.settings.mockHint}</p>
+        )}
+        {draft.backend === 'openai' && (
+          <p className="text-slate-500">{t.settings.openaiHint}</p>
+        )}
+      </section>
+
+      {backend && (
+        <section className="space-y-3">
+          <label className="block space-y-1">
+            <span className="font-semibold text-slate-600">{t.settings.apiKey}</span>
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={backend.apiKey}
+                onChange={(e) => updateBackend({ apiKey: e.target.value.trim() })}
+                placeholder={draft.backend === 'gemini' && process.env.API_KEY ? t.settings.apiKeyFromBuild : ''}
+                autoComplete="off"
+                className={inputClass}
+              />
+              <button type="button" onClick={() => setShowKey(!showKey)} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100 whitespace-nowrap">
+                {showKey ? t.settings.hideKey : t.settings.showKey}
+              </button>
+            </div>
+            <span className="block text-xs text-slate-500">{t.settings.apiKeyHint}</span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="font-semibold text-slate-600">{t.settings.baseUrl}</span>
+            <input
+              type="url"
+              value={backend.baseUrl}
+              onChange={(e) => updateBackend({ baseUrl: e.target.value.trim() })}
+              placeholder={draft.backend === 'openai' ? DEFAULT_SETTINGS.openai.baseUrl : GEMINI_BASE_URL}
+              className={inputClass}
+            />
+            {draft.backend === 'gemini' && <span className="block text-xs text-slate-500">{t.settings.geminiBaseUrlHint}</span>}
+          </label>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            {TASKS.map(task => (
+              <label key={task} className="block space-y-1">
+                <span className="font-semibold text-slate-600">{t.settings.model(t.settings.tasks[task])}</span>
+                <input
+                  type="text"
+                  value={backend.models[task]}
+                  onChange={(e) => updateModel(task, e.target.value.trim())}
+                  placeholder={DEFAULT_SETTINGS[draft.backend].models[task]}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="grid gap-4 sm:grid-cols-2">
+        <label className="block space-y-1">
+          <span className="font-semibold text-slate-600">{t.settings.temperature(draft.temperature.toFixed(1))}</span>
+          <input
+            type="range"
+            min={TEMPERATURE_RANGE.min}
+            max={TEMPERATURE_RANGE.max}
+            step={0.1}
+            value={draft.temperature}
+            onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+            className="w-full"
+          />
+          <span className="block text-xs text-slate-500">{t.settings.temperatureHint}</span>
+        </label>
+        <label className="block space-y-1">
+          <span className="font-semibold text-slate-600">{t.settings.resultCount}</span>
+          <input
+            type="number"
+            min={RESULT_COUNT_RANGE.min}
+            max={RESULT_COUNT_RANGE.max}
+            value={draft.resultCount}
+            onChange={(e) => setDraft({ ...draft, resultCount: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <span className="block text-xs text-slate-500">{t.settings.resultCountHint(RESULT_COUNT_RANGE.min, RESULT_COUNT_RANGE.max)}</span>
+        </label>
+      </section>
+
+      <section className="space-y-1">
+        <h2 className="text-lg font-semibold text-slate-800">{t.settings.cache}</h2>
+        <p className="text-slate-500">{t.settings.cacheHint}</p>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={handleClearCache} className="px-3 py-1 bg-white border border-slate-300 rounded-md hover:bg-slate-100">{t.settings.clearCache}</button>
+          {cacheStatus && <span className="text-slate-500">{cacheStatus}</span>}
+        </div>
+      </section>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button type="button" onClick={handleReset} className="px-4 py-2 bg-white border border-slate-300 rounded-md hover:bg-slate-100">{t.settings.reset}</button>
+        <button type="button" onClick={() => setDraft(settings)} disabled={!isDirty} className="px-4 py-2 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed">{t.settings.discard}</button>
+        <button type="submit" disabled={!isDirty} className="px-4 py-2 font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed">{t.settings.save}</button>
+      </div>
+    </form>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { GroundingChunk } from '../types';
+import { useLocale } from '../i18n';
+
+interface SourcesPanelProps {
+  chunks: GroundingChunk[];
+}
+
+const SourcesPanel: React.FC<SourcesPanelProps> = ({ chunks }) => {
+  const { t } = useLocale();
+  if (chunks.length === 0) return null;
+
+  return (
+    <details className="mt-3 p-3 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <summary className="cursor-pointer text-sm font-semibold text-slate-600">
+        {t.sources.title(chunks.length)}
+      </summary>
+      <ol className="mt-2 space-y-1 text-sm list-decimal list-inside">
+        {chunks.map((chunk, index) => (
+          <li key={`${chunk.web.uri}-${index}`} className="text-slate-600">
+            <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline break-all">
+              {chunk.web.title}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default SourcesPanel;
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import type { Reference } from '../types';
+import type { TopicCluster } from '../services/topicClustering';
+import { MIN_CLUSTER_REFERENCES } from '../services/topicClustering';
+import LoadingSpinner from './LoadingSpinner';
+import { useLocale } from '../i18n';
+
+interface TopicClustersProps {
+  clusters: TopicCluster[] | null;
+  references: Reference[];
+  referenceNumbers: Map<string, number>;
+  isClustering: boolean;
+  onCluster: (clusterCount?: number) => void;
+  onCancel: () => void;
+  onSelectCluster: (references: Reference[]) => void;
+  onSearchCluster: (query: string) => void;
+  onShowReference: (uri: string) => void;
+  searchDisabled: boolean;
+}
+
+const CLUSTER_COUNT_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+
+const TopicClusters: React.FC<TopicClustersProps> = ({
+  clusters, references, referenceNumbers, isClustering, onCluster, onCancel, onSelectCluster, onSearchCluster, onShowReference, searchDisabled,
+}) => {
+  const { t } = useLocale();
+  const [clusterCount, setClusterCount] = useState<number | undefined>(undefined);
+
+  // References that were removed since clustering drop out; ones added since are listed separately.
+  const groups = useMemo(() => {
+    if (!clusters) return [];
+    const byUri = new Map(references.map(ref => [ref.uri, ref]));
+    return clusters.map(cluster => ({
+      cluster,
+      members: cluster.referenceURIs.map(uri => byUri.get(uri)).filter((ref): ref is Reference => Boolean(ref)),
+    })).filter(group => group.members.length > 0);
+  }, [clusters, references]);
+  const unclustered = useMemo(() => {
+    const clustered = new Set(clusters?.flatMap(cluster => cluster.referenceURIs));
+    return clusters ? references.filter(ref => !clustered.has(ref.uri)) : [];
+  }, [clusters, references]);
+
+  const canCluster = references.length >= MIN_CLUSTER_REFERENCES && !isClustering;
+
+  return (
+    <div className="mb-4 p-3 bg-white rounded-lg border border-slate-200 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-slate-600">{t.clusters.label}</span>
+        <select
+          value={clusterCount ?? ''}
+          onChange={(e) => setClusterCount(e.target.value ? Number(e.target.value) : undefined)}
+          className="px-2 py-1 bg-white border border-slate-300 rounded-md"
+          aria-label={t.clusters.count}
+        >
+          <option value="">{t.clusters.auto}</option>
+          {CLUSTER_COUNT_OPTIONS.map(count => <option key={count} value={count}>{t.clusters.groups(count)}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => onCluster(clusterCount)}
+          disabled={!canCluster}
+          className="px-3 py-1 font-semibold text-white bg-slate-800 rounded-md hover:bg-slate-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          {clusters ? t.clusters.recluster : t.clusters.cluster}
+        </button>
+        {references.length < MIN_CLUSTER_REFERENCES && <span className="text-slate-500">{t.clusters.tooFew(MIN_CLUSTER_REFERENCES)}</span>}
+      </div>
+
+      {isClustering && <LoadingSpinner message={t.clusters.analyzing(references.length)} onCancel={onCancel} />}
+
+      {!isClustering && groups.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {groups.map(({ cluster, members }) => (
+            <details key={cluster.id} className="border border-slate-200 rounded-md">
+              <summary className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 cursor-pointer select-none">
+                <span className="font-semibold text-slate-700">{cluster.label} <span className="font-normal text-slate-500">{t.clusters.members(members.length)}</span></span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={(e) => { e.preventDefault(); onSelectCluster(members); }}
+                    className="px-2 py-0.5 text-xs bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+                  >
+                    {t.clusters.select}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => { e.preventDefault(); onSearchCluster(cluster.query); }}
+                    disabled={searchDisabled}
+                    title={cluster.query}
+                    className="px-2 py-0.5 text-xs bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t.clusters.search}
+                  </button>
+                </span>
+              </summary>
+              <ul className="px-3 pb-2 space-y-1">
+                {members.map(ref => (
+                  <li key={ref.uri}>
+                    <button type="button" onClick={() => onShowReference(ref.uri)} className="text-left text-slate-700 hover:text-blue-700 hover:underline">
+                      <span className="text-slate-400">[{referenceNumbers.get(ref.uri)}]</span> {ref.title}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+          {unclustered.length > 0 && (
+            <p className="text-xs text-slate-500">{t.clusters.unclustered(unclustered.length)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopicClusters;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { TranslationsApi } from '../hooks/useTranslations';
+import { detectLanguage, otherLanguage } from '../services/language';
+import { useLocale } from '../i18n';
+
+interface TranslatedTextProps {
+  text: string;
+  translations: TranslationsApi;
+  // Shows the translation the same way as the original, e.g. with clickable citations.
+  render?: (text: string) => React.ReactNode;
+}
+
+// A translate button for an abstract or summary; the translation appears below the original, which stays visible.
+const TranslatedText: React.FC<TranslatedTextProps> = ({ text, translations, render = (value) => value }) => {
+  const { t } = useLocale();
+  const target = t.languages[otherLanguage(detectLanguage(text))];
+  const state = translations.get(text);
+
+  if (!state) {
+    return (
+      <button type="button" onClick={() => translations.translate(text)} className="mt-1 text-xs text-blue-700 hover:underline">
+        {t.translation.translateTo(target)}
+      </button>
+    );
+  }
+
+  if (state.isTranslating) {
+    return (
+      <p className="mt-1 text-xs text-slate-500">
+        <span className="animate-pulse">{t.translation.translating}</span>
+        <button type="button" onClick={() => translations.hide(text)} className="ml-2 text-slate-500 hover:underline">{t.common.cancel}</button>
+      </p>
+    );
+  }
+
+  if (state.error) {
+    return (
+      <p className="mt-1 text-xs text-red-600">
+        {t.errors[state.error.kind].title}
+        <button type="button" onClick={() => translations.translate(text)} className="ml-2 text-blue-700 hover:underline">{t.translation.retry}</button>
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 pl-3 border-l-2 border-blue-200">
+      <div className="flex justify-between items-baseline gap-2 text-xs text-slate-400">
+        <span>{t.translation.label(target)}</span>
+        <button type="button" onClick={() => translations.hide(text)} className="hover:underline">{t.translation.hide}</button>
+      </div>
+      <div className="text-slate-600">{render(state.text ?? '')}</div>
+    </div>
+  );
+};
+
+export default TranslatedText;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { VerificationResult } from '../types';
+import { useLocale } from '../i18n';
+
+interface VerificationBadgeProps {
+  verification?: VerificationResult;
+}
+
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ verification }) => {
+  const { t } = useLocale();
+  if (!verification) return null;
+
+  const { status, checkedAgainst, mismatches, error } = verification;
+  let label: string;
+  let className: string;
+  let detail: string | undefined;
+
+  if (status === 'verified') {
+    label = t.verification.verified;
+    className = 'bg-green-100 text-green-800 border-green-300';
+    detail = checkedAgainst ? t.verification.verifiedDetail(checkedAgainst) : undefined;
+  } else if (status === 'mismatched') {
+    label = t.verification.mismatched;
+    className = 'bg-amber-100 text-amber-800 border-amber-300';
+    const fields = (mismatches ?? []).map(field => t.verification.fields[field] ?? field).join(t.listSeparator);
+    detail = t.verification.mismatchedDetail(checkedAgainst, fields);
+  } else {
+    label = t.verification.unresolvable;
+    className = 'bg-red-100 text-red-800 border-red-300';
+    detail = error ? t.verification.lookupFailed(error) : t.verification.notFound;
+  }
+
+  return (
+    <span className={`inline-block mr-2 align-middle px-2 py-0.5 text-xs font-semibold border rounded-full ${className}`} title={detail}>
+      {label}
+    </span>
+  );
+};
+
+export default VerificationBadge;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { SavedSearch } from '../types';
+import { useLocale } from '../i18n';
+
+interface WhatsNewDigestProps {
+  searches: SavedSearch[];
+  onOpen: (search: SavedSearch) => void;
+  onDismiss: (ids: string[]) => void;
+}
+
+const PREVIEW_COUNT = 3;
+
+// Lists what the saved-search re-checks found since the user last dismissed the digest.
+const WhatsNewDigest: React.FC<WhatsNewDigestProps> = ({ searches, onOpen, onDismiss }) => {
+  const { t } = useLocale();
+  if (searches.length === 0) return null;
+  const total = searches.reduce((sum, search) => sum + search.unseen.length, 0);
+
+  return (
+    <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl">
+      <div className="flex justify-between items-baseline gap-2">
+        <h2 className="font-semibold text-green-800">{t.digest.title(total)}</h2>
+        <button type="button" onClick={() => onDismiss(searches.map(search => search.id))} className="text-sm text-green-700 hover:underline flex-shrink-0">{t.digest.markAllSeen}</button>
+      </div>
+      <ul className="mt-2 space-y-2 text-sm">
+        {searches.map(search => (
+          <li key={search.id}>
+            <div className="flex flex-wrap items-baseline gap-2">
+              <span className="font-semibold text-slate-700">{search.name}</span>
+              <span className="text-slate-500">{t.common.papers(search.unseen.length)}</span>
+              <button type="button" onClick={() => onOpen(search)} className="text-blue-700 hover:underline">{t.digest.open}</button>
+              <button type="button" onClick={() => onDismiss([search.id])} className="text-slate-500 hover:underline">{t.digest.markSeen}</button>
+            </div>
+            <ul className="ml-4 list-disc text-slate-600">
+              {search.unseen.slice(0, PREVIEW_COUNT).map(ref => (
+                <li key={ref.uri}>
+                  <a href={ref.uri} target="_blank" rel="noopener noreferrer" className="hover:underline">{ref.title}</a>
+                </li>
+              ))}
+              {search.unseen.length > PREVIEW_COUNT && <li className="list-none text-slate-400">{t.digest.more(search.unseen.length - PREVIEW_COUNT)}</li>}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WhatsNewDigest;
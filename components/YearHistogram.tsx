@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import type { Reference } from '../types';
+import { extractYear } from '../services/referenceMatching';
+import { useLocale } from '../i18n';
+
+interface YearHistogramProps {
+  references: Reference[];
+  selectedYear: number | null;
+  onSelectYear: (year: number | null) => void;
+}
+
+const YearHistogram: React.FC<YearHistogramProps> = ({ references, selectedYear, onSelectYear }) => {
+  const { t } = useLocale();
+  const { years, counts, undated } = useMemo(() => {
+    const counts = new Map<number, number>();
+    let undated = 0;
+    references.forEach(ref => {
+      const year = extractYear(ref.publicationDate);
+      if (year === undefined) {
+        undated++;
+      } else {
+        counts.set(year, (counts.get(year) ?? 0) + 1);
+      }
+    });
+    const found = Array.from(counts.keys());
+    // Empty years stay visible so gaps in the literature show up as gaps in the chart.
+    const years = found.length > 0
+      ? Array.from({ length: Math.max(...found) - Math.min(...found) + 1 }, (_, i) => Math.min(...found) + i)
+      : [];
+    return { years, counts, undated };
+  }, [references]);
+
+  if (years.length < 2) return null;
+  const maxCount = Math.max(...counts.values());
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-baseline mb-1 text-xs text-slate-500">
+        <span>{t.histogram.title}{undated > 0 && t.histogram.undated(undated)}</span>
+        {selectedYear !== null && (
+          <button type="button" onClick={() => onSelectYear(null)} className="text-blue-700 hover:underline">{t.histogram.showAll}</button>
+        )}
+      </div>
+      <div className="flex items-end gap-0.5 h-20 overflow-x-auto">
+        {years.map(year => {
+          const count = counts.get(year) ?? 0;
+          const isSelected = selectedYear === year;
+          return (
+            <button
+              key={year}
+              type="button"
+              onClick={() => onSelectYear(isSelected ? null : year)}
+              disabled={count === 0}
+              title={t.histogram.bar(year, count)}
+              className="flex-1 min-w-[0.75rem] h-full flex flex-col justify-end group disabled:cursor-default"
+            >
+              <span
+                className={`block w-full rounded-t ${isSelected ? 'bg-blue-600' : selectedYear !== null ? 'bg-slate-300' : 'bg-slate-500 group-hover:bg-blue-500'}`}
+                style={{ height: `${(count / maxCount) * 100}%` }}
+              />
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-slate-400 mt-1">
+        <span>{years[0]}</span>
+        {selectedYear !== null && <span className="font-semibold text-blue-700">{selectedYear}</span>}
+        <span>{years[years.length - 1]}</span>
+      </div>
+    </div>
+  );
+};
+
+export default YearHistogram;
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { ChatMessage, ChatThread, Reference } from '../types';
+import { streamAnswerFromLiterature } from '../services/geminiService';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+import { createMessage, loadThread, saveThread, threadIdFor } from '../services/chatService';
+import { retrievePassages } from '../services/fullTextService';
+
+/**
+ * A conversation about the currently selected references. Each selection set has its own
+ * thread, loaded from and saved to IndexedDB, so it survives reloads and switching selections.
+ */
+export const useChat = (references: Reference[], researchTopic: string) => {
+  const referenceURIs = useMemo(() => references.map(ref => ref.uri), [references]);
+  const threadId = threadIdFor(referenceURIs);
+  const [thread, setThread] = useState<ChatThread | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState<LiteratureServiceError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const stoppedByUserRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    abortRef.current?.abort();
+    setThread(null);
+    setStreamingText(null);
+    setError(null);
+    if (referenceURIs.length === 0) return;
+    loadThread(referenceURIs)
+      .then(loaded => { if (!cancelled) setThread(loaded); })
+      .catch(e => {
+        console.error('Loading the conversation failed:', e);
+        if (!cancelled) setThread({ id: threadId, referenceURIs, messages: [], updatedAt: Date.now() });
+      });
+    return () => { cancelled = true; };
+    // threadId changes exactly when the selected URIs do.
+  }, [threadId]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const persist = useCallback((next: ChatThread) => {
+    setThread(next);
+    saveThread(next).catch(e => console.error('Saving the conversation failed:', e));
+  }, []);
+
+  // Sends `question` after the given history and appends the streamed answer to the thread.
+  // With `refresh`, a cached answer to the same question is ignored and replaced.
+  const run = useCallback(async (base: ChatThread, history: ChatMessage[], question: string, refresh = false) => {
+    const userMessage = createMessage('user', question);
+    const withQuestion = { ...base, messages: [...history, userMessage] };
+    persist(withQuestion);
+    setError(null);
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    stoppedByUserRef.current = false;
+    let partial = '';
+    const onText = (text: string) => {
+      partial = text;
+      setStreamingText(text);
+    };
+    try {
+      // Attached full texts are searched per question; papers without one still contribute their abstract.
+      const passages = await retrievePassages(references, question).catch(e => {
+        console.warn('Full-text retrieval failed; answering from abstracts only.', e);
+        return [];
+      });
+      if (controller.signal.aborted) return;
+      const answer = await streamAnswerFromLiterature(researchTopic, references, question, history, { onText, signal: controller.signal, passages, refresh });
+      const message = createMessage('model', answer.text);
+      persist({ ...withQuestion, messages: [...withQuestion.messages, answer.cachedAt ? { ...message, cachedAt: answer.cachedAt } : message] });
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(classifyError(e));
+      } else if (stoppedByUserRef.current && partial.trim()) {
+        // Keep what was generated before the user pressed stop; aborts from a selection change are discarded.
+        persist({ ...withQuestion, messages: [...withQuestion.messages, { ...createMessage('model', partial), stopped: true }] });
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreamingText(null);
+      }
+    }
+  }, [persist, references, researchTopic]);
+
+  const ask = useCallback((question: string) => {
+    if (!thread || streamingText !== null) return;
+    return run(thread, thread.messages, question);
+  }, [thread, streamingText, run]);
+
+  // Re-asks the last question, replacing its answer (or retrying after an error); never replays the cache.
+  const regenerate = useCallback(() => {
+    if (!thread || streamingText !== null) return;
+    const lastQuestionIndex = thread.messages.map(m => m.role).lastIndexOf('user');
+    if (lastQuestionIndex === -1) return;
+    return run(thread, thread.messages.slice(0, lastQuestionIndex), thread.messages[lastQuestionIndex].text, true);
+  }, [thread, streamingText, run]);
+
+  // Replaces an earlier question and discards everything said after it.
+  const editQuestion = useCallback((messageId: string, question: string) => {
+    if (!thread || streamingText !== null) return;
+    const index = thread.messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+    return run(thread, thread.messages.slice(0, index), question);
+  }, [thread, streamingText, run]);
+
+  const stop = useCallback(() => {
+    stoppedByUserRef.current = true;
+    abortRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(() => {
+    if (thread) persist({ ...thread, messages: [] });
+  }, [thread, persist]);
+
+  return {
+    messages: thread?.messages ?? [],
+    streamingText,
+    isStreaming: streamingText !== null,
+    error,
+    ask,
+    regenerate,
+    editQuestion,
+    stop,
+    clear,
+  };
+};
+
+export type ChatApi = ReturnType<typeof useChat>;
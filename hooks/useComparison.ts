@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ComparisonCell, ComparisonDimension, Reference } from '../types';
+import { comparePaper } from '../services/geminiService';
+import { retrievePassages } from '../services/fullTextService';
+import { COMPARISON_PASSAGES, DEFAULT_DIMENSIONS, describeDimension, dimensionId } from '../services/paperComparison';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+const cellKey = (uri: string, dimension: ComparisonDimension) => `${uri}\n${dimensionId(dimension)}`;
+
+/**
+ * The comparison matrix for the checked papers. Cells are generated per paper and kept by paper
+ * and dimension, so adding a dimension or checking another paper only asks for the cells that are new.
+ */
+export const useComparison = () => {
+  const [dimensions, setDimensions] = useState<ComparisonDimension[]>(DEFAULT_DIMENSIONS);
+  // Paper uri -> dimension id -> cell.
+  const [cells, setCells] = useState<Record<string, Record<string, ComparisonCell>>>({});
+  const [pendingCells, setPendingCells] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, LiteratureServiceError>>({});
+  const cellsRef = useRef(cells);
+  cellsRef.current = cells;
+  const pendingRef = useRef(pendingCells);
+  pendingRef.current = pendingCells;
+  const controllersRef = useRef(new Set<AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const fillPaper = useCallback(async (ref: Reference, wanted: ComparisonDimension[], signal: AbortSignal, refresh: boolean) => {
+    const keys = wanted.map(dimension => cellKey(ref.uri, dimension));
+    setPendingCells(prev => [...prev, ...keys]);
+    setErrors(({ [ref.uri]: _, ...rest }) => rest);
+    try {
+      const query = wanted.map(describeDimension).join('; ');
+      const passages = await retrievePassages([ref], query, COMPARISON_PASSAGES).catch(e => {
+        console.warn('Full-text retrieval failed; comparing the abstract only.', e);
+        return [];
+      });
+      signal.throwIfAborted();
+      const result = await comparePaper(ref, wanted, passages, { signal, refresh });
+      setCells(prev => ({ ...prev, [ref.uri]: { ...prev[ref.uri], ...result } }));
+    } catch (e) {
+      if (!signal.aborted) setErrors(prev => ({ ...prev, [ref.uri]: classifyError(e) }));
+    } finally {
+      setPendingCells(prev => prev.filter(key => !keys.includes(key)));
+    }
+  }, []);
+
+  // Generates the cells these papers still lack for `wanted`; `refresh` regenerates all of them.
+  const generate = useCallback(async (references: Reference[], wanted: ComparisonDimension[], refresh = false) => {
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    try {
+      await Promise.all(references.map(ref => {
+        const missing = refresh ? wanted : wanted.filter(dimension =>
+          !cellsRef.current[ref.uri]?.[dimensionId(dimension)] && !pendingRef.current.includes(cellKey(ref.uri, dimension))
+        );
+        return missing.length > 0 ? fillPaper(ref, missing, controller.signal, refresh) : undefined;
+      }));
+    } finally {
+      controllersRef.current.delete(controller);
+    }
+  }, [fillPaper]);
+
+  const cancel = useCallback(() => controllersRef.current.forEach(controller => controller.abort()), []);
+
+  const isPending = useCallback((uri: string, dimension: ComparisonDimension) =>
+    pendingCells.includes(cellKey(uri, dimension)), [pendingCells]);
+
+  return {
+    dimensions,
+    setDimensions,
+    cells,
+    errors,
+    isGenerating: pendingCells.length > 0,
+    isPending,
+    generate,
+    cancel,
+  };
+};
+
+export type ComparisonApi = ReturnType<typeof useComparison>;
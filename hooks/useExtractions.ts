@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PaperExtraction, Reference } from '../types';
+import { extractPaperDetails } from '../services/geminiService';
+import { retrievePassages } from '../services/fullTextService';
+import { EXTRACTION_PASSAGES, EXTRACTION_QUERY } from '../services/paperExtraction';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+/**
+ * On-demand structured extraction for individual papers. The result is handed to `onExtracted`
+ * so the caller can store it on the reference itself; errors stay next to the paper they belong to.
+ */
+export const useExtractions = (onExtracted: (uri: string, extraction: PaperExtraction) => void) => {
+  const [busyURIs, setBusyURIs] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, LiteratureServiceError>>({});
+  const [isAnalyzingAll, setIsAnalyzingAll] = useState(false);
+  const controllersRef = useRef(new Set<AbortController>());
+  const onExtractedRef = useRef(onExtracted);
+  onExtractedRef.current = onExtracted;
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const extract = useCallback(async (ref: Reference, signal: AbortSignal, refresh: boolean) => {
+    setBusyURIs(prev => [...prev, ref.uri]);
+    setErrors(({ [ref.uri]: _, ...rest }) => rest);
+    try {
+      // Excerpts of an attached full text are used when there is one; otherwise the abstract has to do.
+      const passages = await retrievePassages([ref], EXTRACTION_QUERY, EXTRACTION_PASSAGES).catch(e => {
+        console.warn('Full-text retrieval failed; analyzing the abstract only.', e);
+        return [];
+      });
+      signal.throwIfAborted();
+      onExtractedRef.current(ref.uri, await extractPaperDetails(ref, passages, { signal, refresh }));
+    } catch (e) {
+      if (!signal.aborted) setErrors(prev => ({ ...prev, [ref.uri]: classifyError(e) }));
+    } finally {
+      setBusyURIs(prev => prev.filter(x => x !== ref.uri));
+    }
+  }, []);
+
+  const run = useCallback(async (action: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    try {
+      await action(controller.signal);
+    } finally {
+      controllersRef.current.delete(controller);
+    }
+  }, []);
+
+  // Re-analyzing skips the cached result, e.g. after a full text was attached.
+  const analyze = useCallback((ref: Reference) =>
+    run(signal => extract(ref, signal, Boolean(ref.extraction))), [run, extract]);
+
+  // One paper at a time, so a long result list does not hit the model's rate limit all at once.
+  const analyzeAll = useCallback(async (refs: Reference[]) => {
+    setIsAnalyzingAll(true);
+    try {
+      await run(async signal => {
+        for (const ref of refs) {
+          if (signal.aborted) break;
+          await extract(ref, signal, false);
+        }
+      });
+    } finally {
+      setIsAnalyzingAll(false);
+    }
+  }, [run, extract]);
+
+  const cancel = useCallback(() => controllersRef.current.forEach(controller => controller.abort()), []);
+
+  return { busyURIs, errors, isAnalyzingAll, analyze, analyzeAll, cancel };
+};
+
+export type ExtractionsApi = ReturnType<typeof useExtractions>;
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { FullTextDocument, Reference } from '../types';
+import * as fullTexts from '../services/fullTextService';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+export type FullTextSummary = Pick<FullTextDocument, 'uri' | 'fileName' | 'pageCount' | 'origin'>;
+
+export const useFullTexts = () => {
+  const [documents, setDocuments] = useState<FullTextSummary[]>([]);
+  const [busyURIs, setBusyURIs] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, LiteratureServiceError>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      setDocuments(await fullTexts.listFullTexts());
+    } catch (e) {
+      console.error('Loading full texts failed:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs one ingestion per reference at a time and keeps its error next to the paper it belongs to.
+  const track = useCallback(async (uri: string, action: () => Promise<unknown>) => {
+    setBusyURIs(prev => [...prev, uri]);
+    setErrors(({ [uri]: _, ...rest }) => rest);
+    try {
+      await action();
+    } catch (e) {
+      console.error('Full-text ingestion failed:', e);
+      setErrors(prev => ({ ...prev, [uri]: classifyError(e) }));
+    } finally {
+      setBusyURIs(prev => prev.filter(x => x !== uri));
+      await refresh();
+    }
+  }, [refresh]);
+
+  const attach = useCallback((ref: Reference, file: File) =>
+    track(ref.uri, async () => fullTexts.ingestPdf(ref, await file.arrayBuffer(), file.name, 'upload')), [track]);
+
+  const fetchOpenAccess = useCallback((ref: Reference) =>
+    track(ref.uri, () => fullTexts.fetchOpenAccessPdf(ref)), [track]);
+
+  const remove = useCallback((uri: string) => track(uri, () => fullTexts.removeFullText(uri)), [track]);
+
+  const byURI = useMemo(() => new Map(documents.map(doc => [doc.uri, doc])), [documents]);
+
+  return { byURI, busyURIs, errors, attach, fetchOpenAccess, remove };
+};
+
+export type FullTextsApi = ReturnType<typeof useFullTexts>;
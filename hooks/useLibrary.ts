@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { LibraryCollection, LibraryEntry, Reference } from '../types';
+import * as library from '../services/libraryService';
+
+export const useLibrary = () => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [collections, setCollections] = useState<LibraryCollection[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // The key of the message to show; the component localizes it.
+  const [error, setError] = useState<'loadFailed' | 'updateFailed' | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [loadedEntries, loadedCollections] = await Promise.all([library.listEntries(), library.listCollections()]);
+      setEntries(loadedEntries);
+      setCollections(loadedCollections);
+      setError(null);
+    } catch (e) {
+      console.error('Loading the library failed:', e);
+      setError('loadFailed');
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Every mutation re-reads the stores, keeping React state identical to what a reload would show.
+  const mutate = useCallback(<A extends unknown[]>(action: (...args: A) => Promise<unknown>) =>
+    async (...args: A) => {
+      try {
+        await action(...args);
+      } catch (e) {
+        console.error('Library update failed:', e);
+        setError('updateFailed');
+      }
+      await refresh();
+    }, [refresh]);
+
+  // Includes the merged-in URLs so a paper's other versions also show as saved.
+  const savedURIs = useMemo(() => new Set(entries.flatMap(entry => [entry.id, ...(entry.reference.alternateURIs ?? [])])), [entries]);
+
+  return {
+    entries,
+    collections,
+    isLoaded,
+    error,
+    savedURIs,
+    saveReference: useMemo(() => mutate((ref: Reference, sourceQuery: string, collectionId?: string) => library.saveReference(ref, sourceQuery, collectionId)), [mutate]),
+    updateEntry: useMemo(() => mutate(library.updateEntry), [mutate]),
+    removeEntry: useMemo(() => mutate(library.removeEntry), [mutate]),
+    createCollection: useMemo(() => mutate(library.createCollection), [mutate]),
+    renameCollection: useMemo(() => mutate(library.renameCollection), [mutate]),
+    deleteCollection: useMemo(() => mutate(library.deleteCollection), [mutate]),
+  };
+};
+
+export type LibraryApi = ReturnType<typeof useLibrary>;
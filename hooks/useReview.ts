@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { LiteratureReview, Reference, ReviewSectionKind } from '../types';
+import { generateLiteratureReview } from '../services/geminiService';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+/**
+ * The structured review for a set of selected references. Edits replace the whole review, so
+ * what is shown, saved with the session and exported is always the same object.
+ */
+export const useReview = (researchTopic: string) => {
+  const [review, setReview] = useState<LiteratureReview | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<LiteratureServiceError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const generate = useCallback(async (references: Reference[], headings: Record<ReviewSectionKind, string>) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setReview(await generateLiteratureReview(researchTopic, references, { headings, signal: controller.signal }));
+    } catch (e) {
+      if (!controller.signal.aborted) setError(classifyError(e));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  }, [researchTopic]);
+
+  const cancel = useCallback(() => abortRef.current?.abort(), []);
+
+  // Replaces the review after an edit, or clears it with null.
+  const update = useCallback((next: LiteratureReview | null) => {
+    setReview(next);
+    setError(null);
+  }, []);
+
+  return {
+    review,
+    isGenerating,
+    error,
+    generate,
+    cancel,
+    update,
+  };
+};
+
+export type ReviewApi = ReturnType<typeof useReview>;
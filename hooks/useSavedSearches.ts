@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RecheckSchedule, Reference, SavedSearch, TimeRange } from '../types';
+import * as savedSearches from '../services/savedSearchService';
+import type { SavedSearchOptions } from '../services/savedSearchService';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+/**
+ * Saved searches and their re-runs. Searches that are due are re-checked one after another when
+ * the app opens, so a long list does not fire all its provider requests at once.
+ */
+export const useSavedSearches = () => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, LiteratureServiceError>>({});
+  // The key of the message to show; the component localizes it.
+  const [storageError, setStorageError] = useState<'loadFailed' | 'updateFailed' | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSearches(await savedSearches.listSavedSearches());
+      setStorageError(null);
+    } catch (e) {
+      console.error('Loading saved searches failed:', e);
+      setStorageError('loadFailed');
+    }
+  }, []);
+
+  const run = useCallback(async (id: string) => {
+    const signal = abortRef.current?.signal;
+    setRunningIds(prev => [...prev, id]);
+    setErrors(({ [id]: _, ...rest }) => rest);
+    try {
+      const updated = await savedSearches.rerunSavedSearch(id, signal);
+      setSearches(prev => prev.map(search => (search.id === id ? updated : search)));
+    } catch (e) {
+      if (signal?.aborted) return;
+      console.error('Re-running the saved search failed:', e);
+      setErrors(prev => ({ ...prev, [id]: classifyError(e) }));
+    } finally {
+      setRunningIds(prev => prev.filter(x => x !== id));
+    }
+  }, []);
+
+  useEffect(() => {
+    // Aborted on unmount, which stops the re-checks still queued or running.
+    const controller = new AbortController();
+    abortRef.current = controller;
+    (async () => {
+      try {
+        const loaded = await savedSearches.listSavedSearches();
+        setSearches(loaded);
+        for (const search of loaded.filter(search => savedSearches.isDue(search))) {
+          if (controller.signal.aborted) return;
+          await run(search.id);
+        }
+      } catch (e) {
+        console.error('Loading saved searches failed:', e);
+        setStorageError('loadFailed');
+      }
+    })();
+    return () => controller.abort();
+  }, [run]);
+
+  // Every mutation re-reads the store, keeping React state identical to what a reload would show.
+  const mutate = useCallback(<A extends unknown[]>(action: (...args: A) => Promise<unknown>) =>
+    async (...args: A) => {
+      try {
+        await action(...args);
+      } catch (e) {
+        console.error('Saved search update failed:', e);
+        setStorageError('updateFailed');
+      }
+      await refresh();
+    }, [refresh]);
+
+  const digest = useMemo(() => searches.filter(search => search.unseen.length > 0), [searches]);
+
+  return {
+    searches,
+    runningIds,
+    errors,
+    storageError,
+    digest,
+    run,
+    save: useMemo(() => mutate((name: string, query: string, sources: string[], timeRange: TimeRange, summary: string, references: Reference[], options: SavedSearchOptions) =>
+      savedSearches.createSavedSearch(name, query, sources, timeRange, summary, references, options)), [mutate]),
+    rename: useMemo(() => mutate((id: string, name: string) => savedSearches.updateSavedSearch(id, { name })), [mutate]),
+    setSchedule: useMemo(() => mutate((id: string, schedule: RecheckSchedule) => savedSearches.updateSavedSearch(id, { schedule })), [mutate]),
+    remove: useMemo(() => mutate(savedSearches.removeSavedSearch), [mutate]),
+    markSeen: useMemo(() => mutate((ids: string[]) => Promise.all(ids.map(savedSearches.markSeen))), [mutate]),
+  };
+};
+
+export type SavedSearchesApi = ReturnType<typeof useSavedSearches>;
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { translateText } from '../services/geminiService';
+import { detectLanguage, otherLanguage } from '../services/language';
+import { classifyError } from '../services/errors';
+import type { LiteratureServiceError } from '../services/errors';
+
+export interface TranslationState {
+  text?: string;
+  isTranslating: boolean;
+  error?: LiteratureServiceError;
+}
+
+/**
+ * On-demand translations of abstracts and summaries between Chinese and English, always into the
+ * language the text is not written in. Entries are keyed by the original text, so a new search
+ * never shows a translation of an older one.
+ */
+export const useTranslations = () => {
+  const [translations, setTranslations] = useState<Map<string, TranslationState>>(new Map());
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const setEntry = useCallback((text: string, entry: TranslationState | null) => {
+    setTranslations(prev => {
+      const next = new Map(prev);
+      if (entry) next.set(text, entry);
+      else next.delete(text);
+      return next;
+    });
+  }, []);
+
+  const get = useCallback((text: string) => translations.get(text), [translations]);
+
+  const translate = useCallback(async (text: string) => {
+    controllersRef.current.get(text)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(text, controller);
+    setEntry(text, { isTranslating: true });
+    try {
+      const { text: translated } = await translateText(text, otherLanguage(detectLanguage(text)), { signal: controller.signal });
+      setEntry(text, { text: translated, isTranslating: false });
+    } catch (e) {
+      if (!controller.signal.aborted) setEntry(text, { isTranslating: false, error: classifyError(e) });
+    } finally {
+      if (controllersRef.current.get(text) === controller) controllersRef.current.delete(text);
+    }
+  }, [setEntry]);
+
+  // Cancels a running translation or hides a finished one; it is served from the cache if requested again.
+  const hide = useCallback((text: string) => {
+    controllersRef.current.get(text)?.abort();
+    controllersRef.current.delete(text);
+    setEntry(text, null);
+  }, [setEntry]);
+
+  return { get, translate, hide };
+};
+
+export type TranslationsApi = ReturnType<typeof useTranslations>;
@@ -0,0 +1,484 @@
+import type { Messages } from './zh';
+
+export const en: Messages = {
+  htmlLang: 'en',
+  dateLocale: 'en-US',
+  listSeparator: ', ',
+  header: {
+    title: 'AI Literature Assistant',
+    subtitle: 'Enter a topic and the AI finds, summarizes and answers questions about the literature',
+    languageLabel: 'Interface language',
+  },
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    delete: 'Delete',
+    papers: count => `${count} ${count === 1 ? 'paper' : 'papers'}`,
+  },
+  errors: {
+    network: { title: 'Network error', hint: 'Check your connection and try again later.' },
+    quota: { title: 'Request limit exceeded', hint: 'The service quota or rate limit is used up; please wait a moment and try again.' },
+    parse: { title: 'Could not read the AI response', hint: 'The response was malformed or cut off; try narrowing the search and retry.' },
+    empty: { title: 'The AI returned nothing', hint: 'Try phrasing your question differently.' },
+    safety: { title: 'Blocked by the safety policy', hint: 'Change the search terms or question and try again.' },
+    config: { title: 'The AI service is not configured', hint: 'Enter an API key and model under Settings, or switch to the offline demo mode.' },
+    unknown: { title: 'Something went wrong' },
+  },
+  verification: {
+    verified: 'Verified',
+    verifiedDetail: source => `Checked against ${source}`,
+    mismatched: 'Metadata mismatch',
+    mismatchedDetail: (source, fields) => `${fields} ${source ? `differ from the ${source} record` : 'differ'}`,
+    unresolvable: 'Unverified',
+    lookupFailed: error => `Lookup failed: ${error}`,
+    notFound: 'Not found in the bibliographic databases',
+    fields: {
+      title: 'title',
+      authors: 'authors',
+      date: 'date',
+      link: 'link',
+    },
+  },
+  sources: {
+    title: count => `Web sources consulted during the search (${count})`,
+  },
+  histogram: {
+    title: 'Publications per year (click a bar to filter)',
+    undated: count => `, ${count} undated`,
+    showAll: 'Show all years',
+    bar: (year, count) => `${year}: ${count} ${count === 1 ? 'paper' : 'papers'}`,
+  },
+  digest: {
+    title: total => `Your saved searches found ${total} new ${total === 1 ? 'paper' : 'papers'} since your last visit`,
+    markAllSeen: 'Mark all as seen',
+    open: 'View results',
+    markSeen: 'Mark as seen',
+    more: count => `and ${count} more`,
+  },
+  export: {
+    label: 'Export:',
+    format: 'Export format',
+    scope: 'Export scope',
+    all: count => `All papers (${count})`,
+    selected: count => `Selected papers (${count})`,
+    includeReport: 'Include the AI summary and Q&A',
+    download: 'Download',
+    reportTitle: (query: string) => `Literature search report: ${query}`,
+    summaryHeading: 'AI literature summary',
+    qaHeading: 'Questions and answers',
+    question: 'Q:',
+    answer: 'A:',
+    referencesHeading: 'References',
+  },
+  import: {
+    button: 'Import a reference list (BibTeX / RIS / CSL-JSON)',
+    failed: error => `Import failed: ${error}`,
+    loaded: (label, count, withAbstract) => `Read "${label}": ${count} ${count === 1 ? 'paper' : 'papers'}, ${withAbstract} with an abstract`,
+    skipped: count => `; skipped ${count} unrecognized ${count === 1 ? 'entry' : 'entries'}`,
+    end: '.',
+    useAsResults: 'Use as the current results',
+    seedSearch: 'Search for related papers',
+  },
+  fullText: {
+    processing: 'Processing the full text...',
+    loaded: pages => `Full text loaded (${pages} ${pages === 1 ? 'page' : 'pages'})`,
+    remove: 'Remove',
+    upload: 'Upload PDF',
+    fetchOpenAccess: 'Fetch open-access full text',
+  },
+  share: {
+    copyLink: 'Copy share link',
+    download: 'Download session file',
+    open: 'Open session file',
+    linkTooLong: 'Too many results for a link; use "Download session file" instead.',
+    linkCopied: 'Share link copied. It opens the same results and Q&A without searching again.',
+    replaceThread: 'You already have a conversation about these papers. Replace it with the shared Q&A?',
+  },
+  dateRange: {
+    ongoing: '–present',
+    label: 'Time range:',
+    from: 'From',
+    to: 'to',
+    startYear: 'Start year',
+    endYear: 'End year',
+    windowSize: 'Time windows',
+    wholeRange: 'Whole range at once',
+    everyYears: years => `Every ${years} years`,
+    parallel: 'Search all time windows at once',
+    single: range => `Searches literature from ${range}.`,
+    allAtOnce: (count, ranges) => `Searches ${count} time windows at once: ${ranges}.`,
+    oneByOne: (first, rest) => `Searches ${first} first; the other ${rest} ${rest === 1 ? 'window' : 'windows'} can be searched one at a time.`,
+    tooManyWindows: max => ` Windows are searched ${max} at a time, so this takes longer; use larger windows or a shorter range.`,
+  },
+  filters: {
+    title: 'Filters',
+    matching: (count, total) => ` (${count} of ${total} match)`,
+    keyword: 'Keyword in title or abstract',
+    author: 'Author',
+    year: 'Year:',
+    yearFrom: 'From',
+    yearTo: 'To',
+    startYear: 'Start year',
+    endYear: 'End year',
+    hasAbstract: 'Only papers with an abstract',
+    venue: 'Venue:',
+    studyDesign: 'Study design:',
+    minSampleSize: 'Sample size at least',
+    analyzed: (count, total) => `${count} of ${total} papers analyzed`,
+    analyzeRest: 'Analyze the rest',
+    analyzingAll: 'Analyzing one by one...',
+    stop: 'Stop',
+    analyzedOnly: 'The study design and sample size filters only keep analyzed papers.',
+    clear: 'Clear all filters',
+  },
+  sort: {
+    label: 'Sort:',
+    primary: 'Sort by',
+    secondary: 'Then sort by',
+    then: label => `then by ${label.toLowerCase()}`,
+    keys: {
+      relevance: 'Relevance',
+      dateDesc: 'Date (newest first)',
+      dateAsc: 'Date (oldest first)',
+      title: 'Title',
+      firstAuthor: 'First author',
+      citations: 'Citations',
+      sampleSize: 'Sample size (largest first)',
+    },
+  },
+  savedSearches: {
+    loadFailed: 'Saved searches could not be read; the browser may have IndexedDB disabled.',
+    updateFailed: 'Updating the saved search failed.',
+    schedules: {
+      manual: 'Check manually only',
+      onOpen: 'Check on every visit',
+      daily: 'Check daily',
+      weekly: 'Check weekly',
+    },
+    fields: {
+      title: 'Title',
+      authors: 'Authors',
+      publicationDate: 'Publication date',
+      venue: 'Venue',
+      doi: 'DOI',
+      citationCount: 'Citations',
+      verification: 'Verification',
+    },
+    neverRerun: 'Not re-run yet.',
+    incompleteRun: 'The latest re-run was incomplete, so the results of the last complete run are kept.',
+    unchanged: time => `The results on ${time} were the same as before.`,
+    diff: (time, added, removed, changed) => `${time} compared with the previous run: ${added} added, ${removed} removed, ${changed} changed`,
+    added: 'New',
+    removed: 'Gone',
+    changed: 'Changed',
+    fieldChange: field => `${field}: `,
+    renamePrompt: 'Search name',
+    confirmRemove: name => `Delete the saved search "${name}"?`,
+    emptyTitle: 'No saved searches yet',
+    emptyHint: 'After a search, click "Save this search" above the results to check it for new papers regularly.',
+    newPapers: count => `${count} new ${count === 1 ? 'paper' : 'papers'}`,
+    query: query => `Query: ${query}`,
+    allSources: 'All sources',
+    total: count => `${count} ${count === 1 ? 'paper' : 'papers'}`,
+    lastRun: time => `last run ${time}`,
+    schedule: 'Automatic check frequency',
+    running: 'Searching...',
+    rerun: 'Search again',
+    open: 'Open in search',
+    rename: 'Rename',
+  },
+  clusters: {
+    label: 'Topic clusters:',
+    count: 'Number of clusters',
+    auto: 'Automatic',
+    groups: count => `${count} groups`,
+    recluster: 'Cluster again',
+    cluster: 'Group by topic',
+    tooFew: count => `Needs at least ${count} papers`,
+    analyzing: count => `Analyzing the topics of ${count} papers...`,
+    members: count => `(${count} ${count === 1 ? 'paper' : 'papers'})`,
+    select: 'Select for Q&A',
+    search: 'Search this topic',
+    unclustered: count => `${count} ${count === 1 ? 'paper was' : 'papers were'} added after clustering; cluster again to group ${count === 1 ? 'it' : 'them'}.`,
+  },
+  graph: {
+    empty: 'No citation links yet. Click "Find papers citing this" or "Find this paper\'s references" on a paper to expand the citation network.',
+    label: 'Citation graph',
+    seed: 'Seed paper',
+    citing: 'Cites a seed paper',
+    cited: 'Cited by a seed paper',
+    help: 'Arrows point from the citing paper to the cited one; click a node to find it in the list.',
+    date: date => ` (${date})`,
+  },
+  qa: {
+    title: 'Ask about the papers',
+    clear: 'Clear conversation',
+    hint: 'Select one or more papers in the list above, then ask questions about them.',
+    resubmit: 'Ask again',
+    edit: 'Edit question',
+    cached: time => `From cache · generated ${time}`,
+    regenerate: 'Regenerate',
+    thinking: 'Thinking...',
+    stop: 'Stop',
+    retry: 'Retry',
+    followUp: 'Ask a follow-up...',
+    askAbout: count => `Ask about ${count} ${count === 1 ? 'paper' : 'papers'}...`,
+    selectFirst: 'Select papers first...',
+    inputLabel: 'Ask a follow-up question',
+    ask: 'Ask',
+    stopped: '(Answer stopped)',
+  },
+  review: {
+    title: 'Structured literature review',
+    sectionHeading: 'Section heading',
+    sectionBody: heading => `${heading} text`,
+    paper: 'Paper',
+    columns: {
+      method: 'Method',
+      dataset: 'Dataset / sample',
+      keyResult: 'Key result',
+    },
+    removeRow: 'Remove this row',
+    addRow: 'Add a row',
+    confirmRegenerate: 'Regenerating replaces the current review and your edits. Continue?',
+    confirmDiscard: 'Delete this review?',
+    fileSuffix: 'review',
+    doneEditing: 'Done editing',
+    edit: 'Edit',
+    exportMarkdown: 'Export Markdown',
+    exportHtml: 'Export HTML',
+    regenerate: 'Regenerate from the selected papers',
+    generate: 'Write a review',
+    selectedCount: count => ` (${count} ${count === 1 ? 'paper' : 'papers'})`,
+    intro: min => `Select at least ${min} papers to write a structured review covering background, themes, methods, conflicting findings, open questions and an evidence table, with a source for every claim.`,
+    generating: count => `Writing a review of ${count} papers...`,
+    uncited: count => `${count} ${count === 1 ? 'paragraph has' : 'paragraphs have'} no citation; check them and add sources.`,
+    evidence: 'Evidence table',
+    evidenceEmpty: 'The evidence table is empty.',
+    numbering: 'The numbers in the review refer to these papers',
+    sections: {
+      background: 'Background',
+      themes: 'Main research themes',
+      methods: 'Comparison of methods',
+      conflicts: 'Conflicting findings',
+      openQuestions: 'Open questions',
+    },
+    documentTitle: (topic: string) => `Literature review: ${topic}`,
+    references: 'References',
+  },
+  reference: {
+    authors: 'Authors: ',
+    published: 'Published: ',
+    preprint: date => ` (preprint ${date})`,
+    otherVersions: 'Other versions: ',
+    source: 'Source: ',
+  },
+  library: {
+    loadFailed: 'The local library could not be read; the browser may have IndexedDB disabled.',
+    updateFailed: 'Updating the library failed.',
+    statuses: {
+      unread: 'Unread',
+      reading: 'Reading',
+      read: 'Read',
+    },
+    select: title => `Select ${title}`,
+    readingStatus: 'Reading status',
+    fromSearch: 'From search: ',
+    removeTag: tag => `Remove tag ${tag}`,
+    addTag: 'Add tag',
+    notes: 'Reading notes...',
+    remove: 'Remove from library',
+    renamePrompt: 'New collection name',
+    confirmDelete: name => `Delete the collection "${name}"? Its papers stay in your library.`,
+    all: count => `All papers (${count})`,
+    rename: 'Rename',
+    newCollection: '+ New collection',
+    statusFilter: 'Reading status:',
+    allStatuses: 'All',
+    empty: 'Your library is empty. Click "Save" on a search result to keep it here.',
+    noMatches: 'No papers match.',
+    qaHint: 'Select one or more papers in your library to ask about them without searching again. Papers with a loaded full text are answered from their body text.',
+  },
+  settings: {
+    backends: {
+      gemini: 'Google Gemini',
+      openai: 'OpenAI-compatible API',
+      mock: 'Offline demo (fixed sample data)',
+    },
+    tasks: {
+      search: 'Search and summaries',
+      qa: 'Q&A and reviews',
+      embedding: 'Embeddings',
+    },
+    confirmReset: 'Restore the default settings? Any API keys you entered are cleared as well.',
+    cacheCleared: 'Cache cleared.',
+    cacheClearFailed: 'Clearing the cache failed; please try again later.',
+    service: 'AI service',
+    mockHint: 'The offline demo needs no API key; every AI response is fixed sample content. Index searches and verification still need a network connection.',
+    openaiHint: 'Works with any service implementing the OpenAI chat completions and embeddings APIs, such as OpenAI, vLLM or Ollama. These have no web search, so AI search results come only from the model\'s own knowledge; keep verification on.',
+    apiKey: 'API key',
+    apiKeyFromBuild: 'Leave empty to use the key configured at build time',
+    hideKey: 'Hide',
+    showKey: 'Show',
+    apiKeyHint: 'The key is stored only in this browser and sent only to the selected AI service.',
+    baseUrl: 'Base URL',
+    geminiBaseUrlHint: "Leave empty to use Google's endpoint, or enter the address of a proxy.",
+    model: task => `${task} model`,
+    temperature: value => `Temperature: ${value}`,
+    temperatureHint: 'Lower is more consistent, higher is more varied.',
+    resultCount: 'Results per source',
+    resultCountHint: (min, max) => `${min}–${max} papers; applies to the AI search and every index.`,
+    cache: 'Cache',
+    cacheHint: 'Identical searches are answered from the cache for 24 hours, identical questions for 7 days and translations of the same text for 30 days, saving quota and keeping results reproducible.',
+    clearCache: 'Clear cached results, answers and translations',
+    reset: 'Restore defaults',
+    discard: 'Discard changes',
+    save: 'Save settings',
+  },
+  languages: {
+    zh: 'Chinese',
+    en: 'English',
+  },
+  translation: {
+    translateTo: language => `Translate to ${language}`,
+    translating: 'Translating...',
+    label: language => `Machine translation (${language})`,
+    hide: 'Hide translation',
+    retry: 'Retry',
+  },
+  app: {
+    tabs: {
+      search: 'Search',
+      library: count => `My library (${count})`,
+      saved: count => `Saved searches (${count})`,
+      settings: 'Settings',
+    },
+    mockBanner: 'Offline demo mode: AI summaries, answers and reviews are fixed sample content.',
+    goToSettings: 'Open settings',
+    preparingSeedSearch: 'Writing a search query from the imported papers...',
+    searchingWindows: ranges => `Searching literature from ${ranges}...`,
+    stages: {
+      searching: 'Searching',
+      verifying: 'Verifying references',
+      summarizing: 'Writing the summary',
+    },
+    progress: (stage, count) => `${stage}${count > 0 ? `, ${count} ${count === 1 ? 'paper' : 'papers'} found so far` : ''}...`,
+    cachedResults: time => `These results come from an identical search cached on ${time}`,
+    searchAgain: 'Search again',
+    summaryTitle: 'AI literature summary',
+    summarizing: 'Writing the literature summary...',
+    summarize: 'Write an AI summary',
+    referencesTitle: count => `References (${count})`,
+    saveTo: 'Save to',
+    saveToUncategorized: 'Save to: uncategorized',
+    saveToCollection: name => `Save to: ${name}`,
+    saveSearch: 'Save this search',
+    saveSearchPrompt: 'Name this search to re-run it later and see new papers',
+    searching: 'Searching...',
+    searchOlder: range => `Continue with ${range}`,
+    hideGraph: 'Hide the citation graph',
+    showGraph: 'Show the citation graph',
+    noMatches: 'No papers match the filters.',
+    pageSize: 'Per page',
+    emptyTitle: 'Start exploring the literature',
+    emptyHint: 'Enter a research topic in the search box above, choose your sources and start exploring!',
+  },
+  search: {
+    placeholder: 'e.g. recent advances in CRISPR gene editing',
+    inputLabel: 'Search literature',
+    submit: 'Search',
+    searching: 'Searching...',
+    sources: 'Sources:',
+    verify: 'Verify that references exist',
+    dropUnresolvable: 'Drop unverifiable papers before summarizing',
+    bilingual: 'Bilingual expansion: translate the query into technical terms in the other language before searching',
+    expanding: 'Expanding the query...',
+    expansionTitle: language => `${language} query (editable)`,
+    expansionLabel: 'Expanded query',
+    termsHint: 'Click a term to add it to or remove it from the query:',
+    searchExpanded: 'Search with the expanded query',
+    searchOriginal: 'Search with the original query',
+    expansionFailed: 'Expanding the query failed; you can still search with the original query.',
+  },
+  results: {
+    saved: 'Saved',
+    save: 'Save',
+    newTitle: 'Not in the previous results of this saved search',
+    new: 'New',
+    windowTitle: 'The time window this paper was found in',
+    citing: paper => `Cites [${paper}]`,
+    citedBy: paper => `Cited by [${paper}]`,
+    resolvedRecord: 'View the matching database record',
+    finding: 'Searching...',
+    findCiting: 'Find papers citing this',
+    findCited: 'Find this paper\'s references',
+    providerFailed: (sources, window, error) =>
+      `${sources}${window ? ` (${window})` : ''} could not be searched, so its papers are missing: ${error}`,
+    summaryFailed: error => `The summary of all results could not be written: ${error}`,
+  },
+  pagination: {
+    previous: 'Previous',
+    next: 'Next',
+    page: (current, total) => `Page ${current} of ${total}`,
+  },
+  extraction: {
+    title: 'Structured details',
+    analyze: 'Analyze',
+    analyzing: 'Analyzing...',
+    reanalyze: 'Analyze again',
+    nothingToAnalyze: 'This paper has no abstract or full text to analyze',
+    notReported: 'Not reported',
+    fromAbstract: 'Extracted from the abstract',
+    fromFullText: 'Extracted from the full text',
+    fullTextAvailable: 'A full text is now attached; analyze again for more complete details',
+    sampleSizeValue: size => `n = ${size}`,
+    fields: {
+      researchQuestion: 'Research question',
+      designDetail: 'Study design',
+      dataset: 'Sample / dataset',
+      methods: 'Methods',
+      findings: 'Main findings',
+      limitations: 'Limitations',
+      futureWork: 'Future work',
+    },
+    designs: {
+      rct: 'Randomized controlled trial',
+      observational: 'Observational study',
+      caseReport: 'Case report',
+      systematicReview: 'Systematic review',
+      metaAnalysis: 'Meta-analysis',
+      experimental: 'Experimental study',
+      computational: 'Computational / simulation study',
+      qualitative: 'Qualitative study',
+      theoretical: 'Theoretical study',
+      other: 'Other',
+    },
+  },
+  comparison: {
+    title: 'Compare papers',
+    heading: topic => `Paper comparison: ${topic}`,
+    compare: count => `Compare selected (${count})`,
+    intro: (min, max) => `Select ${min}–${max} papers to build a side-by-side matrix over the chosen dimensions. Each cell is generated from that paper's own abstract or full text, and missing information is flagged.`,
+    tooMany: max => `At most ${max} papers can be compared at once; please select fewer.`,
+    dimensionsLabel: 'Dimensions:',
+    dimensions: {
+      methods: 'Methods',
+      datasets: 'Datasets',
+      metrics: 'Metrics',
+      results: 'Results',
+      conclusions: 'Conclusions',
+    },
+    addDimension: 'Add a custom dimension',
+    removeDimension: name => `Remove dimension "${name}"`,
+    corner: 'Dimension',
+    generating: 'Generating...',
+    missing: 'Not reported',
+    missingTitle: "The paper's abstract and full text say nothing about this",
+    retry: 'Retry',
+    stop: 'Stop',
+    regenerate: 'Regenerate',
+    exportCsv: 'Export CSV',
+    exportMarkdown: 'Export Markdown',
+    fileSuffix: 'comparison',
+  },
+};
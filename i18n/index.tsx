@@ -0,0 +1,54 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Language } from '../types';
+import { zh } from './zh';
+import type { Messages } from './zh';
+import { en } from './en';
+
+export type { Messages };
+
+const STORAGE_KEY = 'paperfinder.locale';
+
+const MESSAGES: Record<Language, Messages> = { zh, en };
+
+interface LocaleContextValue {
+  locale: Language;
+  setLocale: (locale: Language) => void;
+  t: Messages;
+}
+
+const readLocale = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === 'en' || stored === 'zh' ? stored : 'zh';
+  } catch {
+    return 'zh';
+  }
+};
+
+const LocaleContext = createContext<LocaleContextValue>({ locale: 'zh', setLocale: () => {}, t: zh });
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Language>(readLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = MESSAGES[locale].htmlLang;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Language) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (e) {
+      console.warn('Saving the interface language failed:', e);
+    }
+  }, []);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t: MESSAGES[locale] }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+// The interface language and its messages; message functions fill in counts and names.
+export const useLocale = () => useContext(LocaleContext);
@@ -0,0 +1,493 @@
+import type { ComparisonDimensionKey, Language, ModelBackendKind, ModelTask, ReadingStatus, RecheckSchedule, ReviewSectionKind, StudyDesign, TrackedField } from '../types';
+import type { SortKey } from '../services/referenceFilters';
+import type { ExtractionTextField } from '../services/paperExtraction';
+import type { EvidenceColumn } from '../services/literatureReview';
+import type { SearchStage } from '../services/literatureService';
+import type { ServiceErrorKind } from '../services/errors';
+
+// Interface text. Every language file has the same shape; functions fill in counts and names.
+export const zh = {
+  htmlLang: 'zh-CN',
+  // Passed to toLocaleString for dates and times.
+  dateLocale: 'zh-CN',
+  listSeparator: '、',
+  header: {
+    title: '学术文献AI助手',
+    subtitle: '输入关键词，AI为您搜索、总结并解答文献疑问',
+    languageLabel: '界面语言',
+  },
+  common: {
+    cancel: '取消',
+    close: '关闭',
+    delete: '删除',
+    papers: (count: number) => `${count} 篇`,
+  },
+  errors: {
+    network: { title: '网络连接错误', hint: '请检查网络连接，稍后重试。' },
+    quota: { title: '请求次数超出限制', hint: '服务配额或速率限制已用尽，请稍等片刻再试。' },
+    parse: { title: '无法解析 AI 返回的结果', hint: '返回内容格式有误或被截断，可尝试缩小检索范围后重试。' },
+    empty: { title: 'AI 未返回任何内容', hint: '请尝试换一种方式描述您的问题。' },
+    safety: { title: '请求被安全策略拦截', hint: '请修改检索词或问题后重试。' },
+    config: { title: 'AI 服务尚未配置', hint: '请在「设置」中填写 API 密钥和模型，或切换到离线演示模式。' },
+    unknown: { title: '发生错误' },
+  } as Record<ServiceErrorKind, { title: string; hint?: string }>,
+  verification: {
+    verified: '已验证',
+    verifiedDetail: (source: string) => `已通过 ${source} 核对`,
+    mismatched: '元数据不符',
+    mismatchedDetail: (source: string | undefined, fields: string) => `${source ? `与 ${source} 记录相比，` : ''}${fields}不一致`,
+    unresolvable: '无法验证',
+    lookupFailed: (error: string) => `查询失败：${error}`,
+    notFound: '未在文献数据库中找到该文献',
+    fields: {
+      title: '标题',
+      authors: '作者',
+      date: '日期',
+      link: '链接',
+    } as Record<string, string>,
+  },
+  sources: {
+    title: (count: number) => `检索时参考的网页来源 (${count})`,
+  },
+  histogram: {
+    title: '按年份分布（点击柱形筛选）',
+    undated: (count: number) => `，${count} 篇无日期`,
+    showAll: '显示全部年份',
+    bar: (year: number, count: number) => `${year}: ${count} 篇`,
+  },
+  digest: {
+    title: (total: number) => `自上次访问以来，已保存的检索发现了 ${total} 篇新文献`,
+    markAllSeen: '全部标为已读',
+    open: '查看结果',
+    markSeen: '标为已读',
+    more: (count: number) => `以及另外 ${count} 篇`,
+  },
+  export: {
+    label: '导出:',
+    format: '导出格式',
+    scope: '导出范围',
+    all: (count: number) => `全部文献 (${count})`,
+    selected: (count: number) => `已勾选文献 (${count})`,
+    includeReport: '包含 AI 摘要与问答',
+    download: '下载',
+    reportTitle: (query: string) => `文献检索报告：${query}`,
+    summaryHeading: 'AI 文献摘要',
+    qaHeading: '问答',
+    question: '问：',
+    answer: '答：',
+    referencesHeading: '参考文献',
+  },
+  import: {
+    button: '导入文献列表 (BibTeX / RIS / CSL-JSON)',
+    failed: (error: string) => `导入失败：${error}`,
+    loaded: (label: string, count: number, withAbstract: number) => `已读取「${label}」：${count} 篇文献，其中 ${withAbstract} 篇含摘要`,
+    skipped: (count: number) => `，跳过 ${count} 条无法识别的条目`,
+    end: '。',
+    useAsResults: '作为当前文献集',
+    seedSearch: '以此为种子检索相关文献',
+  },
+  fullText: {
+    processing: '正在处理全文...',
+    loaded: (pages: number) => `已载入全文（${pages} 页）`,
+    remove: '移除',
+    upload: '上传 PDF',
+    fetchOpenAccess: '获取开放获取全文',
+  },
+  share: {
+    copyLink: '复制分享链接',
+    download: '下载会话文件',
+    open: '打开会话文件',
+    linkTooLong: '结果太多，链接过长，请改用「下载会话文件」。',
+    linkCopied: '分享链接已复制。对方打开后无需重新检索即可看到相同的结果和问答。',
+    replaceThread: '你已有针对这些文献的对话，是否用分享的问答记录替换？',
+  },
+  dateRange: {
+    ongoing: '至今',
+    label: '时间范围:',
+    from: '从',
+    to: '到',
+    startYear: '起始年份',
+    endYear: '结束年份',
+    windowSize: '时间窗口',
+    wholeRange: '整个范围一次检索',
+    everyYears: (years: number) => `每 ${years} 年`,
+    parallel: '同时检索所有时间窗口',
+    single: (range: string) => `将检索 ${range} 年的文献。`,
+    allAtOnce: (count: number, ranges: string) => `将同时检索 ${count} 个时间窗口：${ranges}。`,
+    oneByOne: (first: string, rest: number) => `先检索 ${first} 年，其余 ${rest} 个时间窗口可逐个继续检索。`,
+    tooManyWindows: (max: number) => ` 窗口较多，将每次并行检索 ${max} 个，耗时更长；建议增大窗口或缩小范围。`,
+  },
+  filters: {
+    title: '筛选',
+    matching: (count: number, total: number) => `（${count} / ${total} 篇符合）`,
+    keyword: '标题或摘要中的关键词',
+    author: '作者',
+    year: '年份:',
+    yearFrom: '起',
+    yearTo: '止',
+    startYear: '起始年份',
+    endYear: '结束年份',
+    hasAbstract: '仅显示有摘要的文献',
+    venue: '来源:',
+    studyDesign: '研究设计:',
+    minSampleSize: '样本量不少于',
+    analyzed: (count: number, total: number) => `已分析 ${count} / ${total} 篇`,
+    analyzeRest: '分析其余文献',
+    analyzingAll: '正在逐篇分析...',
+    stop: '停止',
+    analyzedOnly: '研究设计和样本量筛选只保留已分析的文献。',
+    clear: '清除全部筛选',
+  },
+  sort: {
+    label: '排序:',
+    primary: '排序方式',
+    secondary: '次要排序方式',
+    then: (label: string) => `然后按${label}`,
+    keys: {
+      relevance: '相关度',
+      dateDesc: '时间（新→旧）',
+      dateAsc: '时间（旧→新）',
+      title: '标题',
+      firstAuthor: '第一作者',
+      citations: '被引次数',
+      sampleSize: '样本量（大→小）',
+    } as Record<SortKey, string>,
+  },
+  savedSearches: {
+    loadFailed: '无法读取已保存的检索，浏览器可能禁用了 IndexedDB。',
+    updateFailed: '已保存的检索更新失败。',
+    schedules: {
+      manual: '仅手动检查',
+      onOpen: '每次打开时检查',
+      daily: '每天检查一次',
+      weekly: '每周检查一次',
+    } as Record<RecheckSchedule, string>,
+    fields: {
+      title: '标题',
+      authors: '作者',
+      publicationDate: '发布日期',
+      venue: '来源',
+      doi: 'DOI',
+      citationCount: '被引次数',
+      verification: '核验状态',
+    } as Record<TrackedField, string>,
+    neverRerun: '尚未重新检索过。',
+    incompleteRun: '最近一次重新检索不完整，已保留上一次完整检索的结果。',
+    unchanged: (time: string) => `${time} 的检索结果与上次相同。`,
+    diff: (time: string, added: number, removed: number, changed: number) => `${time} 与上次相比：新增 ${added} 篇，移除 ${removed} 篇，信息变更 ${changed} 篇`,
+    added: '新',
+    removed: '不再出现',
+    changed: '变更',
+    fieldChange: (field: string) => `${field}：`,
+    renamePrompt: '检索名称',
+    confirmRemove: (name: string) => `确定删除已保存的检索「${name}」吗？`,
+    emptyTitle: '还没有保存的检索',
+    emptyHint: '完成一次检索后，点击结果上方的「保存此检索」即可定期检查是否有新文献。',
+    newPapers: (count: number) => `${count} 篇新文献`,
+    query: (query: string) => `检索词：${query}`,
+    allSources: '全部来源',
+    total: (count: number) => `共 ${count} 篇`,
+    lastRun: (time: string) => `上次检索 ${time}`,
+    schedule: '自动检查频率',
+    running: '检索中...',
+    rerun: '重新检索',
+    open: '在检索页打开',
+    rename: '重命名',
+  },
+  clusters: {
+    label: '主题聚类:',
+    count: '聚类数量',
+    auto: '自动分组',
+    groups: (count: number) => `${count} 组`,
+    recluster: '重新聚类',
+    cluster: '按主题分组',
+    tooFew: (count: number) => `至少需要 ${count} 篇文献`,
+    analyzing: (count: number) => `正在分析 ${count} 篇文献的主题...`,
+    members: (count: number) => `(${count} 篇)`,
+    select: '选中本组用于提问',
+    search: '检索此主题',
+    unclustered: (count: number) => `有 ${count} 篇文献是在聚类之后加入的，重新聚类即可将其归组。`,
+  },
+  graph: {
+    empty: '尚无引用关系。在文献上点击「查找引用此文的文献」或「查找此文的参考文献」即可展开引用网络。',
+    label: '引用关系图',
+    seed: '种子文献',
+    citing: '引用种子文献',
+    cited: '被种子文献引用',
+    help: '箭头由施引文献指向被引文献，点击节点可定位到列表。',
+    date: (date: string) => `（${date}）`,
+  },
+  qa: {
+    title: '深入提问',
+    clear: '清空对话',
+    hint: '请在上方参考文献列表中勾选一项或多项，然后针对所选文献提出问题。',
+    resubmit: '重新提问',
+    edit: '编辑问题',
+    cached: (time: string) => `来自缓存 · 生成于 ${time}`,
+    regenerate: '重新生成',
+    thinking: '思考中...',
+    stop: '停止生成',
+    retry: '重试',
+    followUp: '继续追问...',
+    askAbout: (count: number) => `针对 ${count} 篇文献提问...`,
+    selectFirst: '请先选择文献...',
+    inputLabel: '提出追问',
+    ask: '提问',
+    stopped: '（回答已中止）',
+  },
+  review: {
+    title: '结构化文献综述',
+    sectionHeading: '章节标题',
+    sectionBody: (heading: string) => `${heading}正文`,
+    paper: '文献',
+    columns: {
+      method: '方法',
+      dataset: '数据集 / 样本',
+      keyResult: '主要结果',
+    } as Record<EvidenceColumn, string>,
+    removeRow: '删除此行',
+    addRow: '添加一行',
+    confirmRegenerate: '重新生成将覆盖当前综述及其中的修改，确定继续吗？',
+    confirmDiscard: '确定删除这篇综述吗？',
+    fileSuffix: '综述',
+    doneEditing: '完成编辑',
+    edit: '编辑',
+    exportMarkdown: '导出 Markdown',
+    exportHtml: '导出 HTML',
+    regenerate: '用所选文献重新生成',
+    generate: '生成综述',
+    selectedCount: (count: number) => `（${count} 篇）`,
+    intro: (min: number) => `勾选至少 ${min} 篇文献，即可生成包含研究背景、主题、方法比较、矛盾发现、待解决问题和证据表的结构化综述，其中每条论断都标注出处。`,
+    generating: (count: number) => `正在根据 ${count} 篇文献撰写综述...`,
+    uncited: (count: number) => `有 ${count} 段没有标注引用，请核对后补充出处。`,
+    evidence: '证据表',
+    evidenceEmpty: '证据表为空。',
+    numbering: '综述中的编号对应以下文献',
+    sections: {
+      background: '研究背景',
+      themes: '主要研究主题',
+      methods: '研究方法比较',
+      conflicts: '相互矛盾的发现',
+      openQuestions: '待解决的问题',
+    } as Record<ReviewSectionKind, string>,
+    documentTitle: (topic: string) => `文献综述：${topic}`,
+    references: '参考文献',
+  },
+  reference: {
+    authors: '作者：',
+    published: '发布日期：',
+    preprint: (date: string) => `（预印本 ${date}）`,
+    otherVersions: '其他版本：',
+    source: '来源：',
+  },
+  library: {
+    loadFailed: '无法读取本地文献库，浏览器可能禁用了 IndexedDB。',
+    updateFailed: '文献库更新失败。',
+    statuses: {
+      unread: '未读',
+      reading: '在读',
+      read: '已读',
+    } as Record<ReadingStatus, string>,
+    select: (title: string) => `选择 ${title}`,
+    readingStatus: '阅读状态',
+    fromSearch: '来自检索：',
+    removeTag: (tag: string) => `删除标签 ${tag}`,
+    addTag: '添加标签',
+    notes: '阅读笔记...',
+    remove: '从文献库移除',
+    renamePrompt: '新的收藏夹名称',
+    confirmDelete: (name: string) => `删除收藏夹「${name}」？其中的文献仍会保留在文献库中。`,
+    all: (count: number) => `全部文献 (${count})`,
+    rename: '重命名',
+    newCollection: '+ 新建收藏夹',
+    statusFilter: '阅读状态:',
+    allStatuses: '全部',
+    empty: '文献库为空。在检索结果中点击「收藏」即可保存文献。',
+    noMatches: '没有符合条件的文献。',
+    qaHint: '勾选文献库中的一篇或多篇文献，无需重新检索即可针对其内容提问。已载入全文的文献会检索正文段落作答。',
+  },
+  settings: {
+    backends: {
+      gemini: 'Google Gemini',
+      openai: 'OpenAI 兼容接口',
+      mock: '离线演示（固定示例数据）',
+    } as Record<ModelBackendKind, string>,
+    tasks: {
+      search: '检索与摘要',
+      qa: '问答与综述',
+      embedding: '向量嵌入',
+    } as Record<ModelTask, string>,
+    confirmReset: '确定恢复默认设置吗？已填写的 API 密钥也会被清除。',
+    cacheCleared: '缓存已清除。',
+    cacheClearFailed: '清除缓存失败，请稍后重试。',
+    service: 'AI 服务',
+    mockHint: '离线演示模式无需 API 密钥，所有 AI 回答都是固定的示例内容。文献索引检索和真实性核验仍需联网。',
+    openaiHint: '支持任何实现了 OpenAI chat completions 和 embeddings 接口的服务，例如 OpenAI、vLLM 或 Ollama。此类接口没有联网搜索，AI 检索结果只来自模型本身的知识，建议开启真实性核验。',
+    apiKey: 'API 密钥',
+    apiKeyFromBuild: '留空则使用构建时配置的密钥',
+    hideKey: '隐藏',
+    showKey: '显示',
+    apiKeyHint: '密钥只保存在本浏览器中，仅发送给所选的 AI 服务。',
+    baseUrl: '接口地址',
+    geminiBaseUrlHint: '留空则使用 Google 官方接口，也可填写代理地址。',
+    model: (task: string) => `${task}模型`,
+    temperature: (value: string) => `温度：${value}`,
+    temperatureHint: '越低回答越稳定，越高越多样。',
+    resultCount: '每个来源的检索结果数',
+    resultCountHint: (min: number, max: number) => `${min}–${max} 篇，对 AI 检索和各文献索引都生效。`,
+    cache: '缓存',
+    cacheHint: '相同的检索会在 24 小时内、相同的提问会在 7 天内、相同文本的翻译会在 30 天内直接使用缓存的结果，以节省配额并保证结果可复现。',
+    clearCache: '清除缓存的检索结果、回答和翻译',
+    reset: '恢复默认',
+    discard: '放弃修改',
+    save: '保存设置',
+  },
+  languages: {
+    zh: '中文',
+    en: '英文',
+  } as Record<Language, string>,
+  translation: {
+    translateTo: (language: string) => `翻译为${language}`,
+    translating: '正在翻译...',
+    label: (language: string) => `机器翻译（${language}）`,
+    hide: '隐藏译文',
+    retry: '重试',
+  },
+  app: {
+    tabs: {
+      search: '文献检索',
+      library: (count: number) => `我的文献库 (${count})`,
+      saved: (count: number) => `已保存的检索 (${count})`,
+      settings: '设置',
+    },
+    mockBanner: '当前为离线演示模式，AI 生成的摘要、回答和综述都是固定的示例内容。',
+    goToSettings: '前往设置',
+    preparingSeedSearch: '正在根据导入的文献生成检索词...',
+    searchingWindows: (ranges: string) => `正在搜索 ${ranges} 年的文献...`,
+    stages: {
+      searching: '正在检索',
+      verifying: '正在核验文献',
+      summarizing: '正在生成摘要',
+    } as Record<SearchStage, string>,
+    progress: (stage: string, count: number) => `${stage}${count > 0 ? `，已找到 ${count} 篇文献` : ''}...`,
+    cachedResults: (time: string) => `以下结果来自 ${time} 缓存的相同检索`,
+    searchAgain: '重新检索',
+    summaryTitle: 'AI 文献摘要',
+    summarizing: '正在生成文献摘要...',
+    summarize: '生成 AI 摘要',
+    referencesTitle: (count: string) => `参考文献 (${count})`,
+    saveTo: '收藏到',
+    saveToUncategorized: '收藏到：未分类',
+    saveToCollection: (name: string) => `收藏到：${name}`,
+    saveSearch: '保存此检索',
+    saveSearchPrompt: '为此检索命名，以便之后重新检索并查看新文献',
+    searching: '搜索中...',
+    searchOlder: (range: string) => `继续搜索 ${range} 年文献`,
+    hideGraph: '收起引用关系图',
+    showGraph: '查看引用关系图',
+    noMatches: '没有符合筛选条件的文献。',
+    pageSize: '每页显示',
+    emptyTitle: '准备开始您的学术探索之旅',
+    emptyHint: '在上方搜索框中输入您感兴趣的研究领域，选择来源后即可开始探索！',
+  },
+  search: {
+    placeholder: '例如：CRISPR 基因编辑最新进展',
+    inputLabel: '检索文献',
+    submit: '搜索',
+    searching: '搜索中...',
+    sources: '选择文献来源：',
+    verify: '核验参考文献真实性',
+    dropUnresolvable: '生成摘要前剔除无法验证的文献',
+    bilingual: '中英双语扩展：搜索前先将检索词翻译为另一种语言的专业术语',
+    expanding: '正在扩展检索词...',
+    expansionTitle: (language: string) => `${language}检索词（可编辑）`,
+    expansionLabel: '扩展后的检索词',
+    termsHint: '点击术语可加入或移出检索词：',
+    searchExpanded: '用扩展后的检索词搜索',
+    searchOriginal: '仍用原检索词搜索',
+    expansionFailed: '扩展检索词失败，可直接用原检索词搜索。',
+  },
+  results: {
+    saved: '已收藏',
+    save: '收藏',
+    newTitle: '上次保存的检索结果中没有这篇文献',
+    new: '新',
+    windowTitle: '检索到该文献的时间窗口',
+    citing: (paper: number | undefined) => `引用了 [${paper}]`,
+    citedBy: (paper: number | undefined) => `被 [${paper}] 引用`,
+    resolvedRecord: '查看数据库中的对应记录',
+    finding: '查找中...',
+    findCiting: '查找引用此文的文献',
+    findCited: '查找此文的参考文献',
+    providerFailed: (sources: string, window: string | null, error: string) =>
+      `${sources}${window ? `（${window}）` : ''}检索失败，结果中缺少其文献：${error}`,
+    summaryFailed: (error: string) => `无法为全部结果生成摘要：${error}`,
+  },
+  pagination: {
+    previous: '上一页',
+    next: '下一页',
+    page: (current: number, total: number) => `第 ${current} 页 / 共 ${total} 页`,
+  },
+  extraction: {
+    title: '结构化信息',
+    analyze: '结构化分析',
+    analyzing: '正在分析...',
+    reanalyze: '重新分析',
+    nothingToAnalyze: '这篇文献没有摘要或全文，无法分析',
+    notReported: '未报告',
+    fromAbstract: '基于摘要提取',
+    fromFullText: '基于全文提取',
+    fullTextAvailable: '已载入全文，重新分析可获得更完整的信息',
+    sampleSizeValue: (size: string) => `样本量 ${size}`,
+    fields: {
+      researchQuestion: '研究问题',
+      designDetail: '研究设计',
+      dataset: '样本 / 数据集',
+      methods: '方法',
+      findings: '主要发现',
+      limitations: '局限性',
+      futureWork: '未来工作',
+    } as Record<ExtractionTextField, string>,
+    designs: {
+      rct: '随机对照试验',
+      observational: '观察性研究',
+      caseReport: '病例报告',
+      systematicReview: '系统综述',
+      metaAnalysis: '荟萃分析',
+      experimental: '实验研究',
+      computational: '计算 / 模拟研究',
+      qualitative: '定性研究',
+      theoretical: '理论研究',
+      other: '其他',
+    } as Record<StudyDesign, string>,
+  },
+  comparison: {
+    title: '文献对比',
+    heading: (topic: string) => `文献对比：${topic}`,
+    compare: (count: number) => `对比所选文献（${count} 篇）`,
+    intro: (min: number, max: number) => `勾选 ${min}–${max} 篇文献，即可按所选维度生成并排对比矩阵。每个单元格只依据该文献自己的摘要或全文生成，缺少的信息会被标出。`,
+    tooMany: (max: number) => `最多可同时对比 ${max} 篇文献，请减少勾选。`,
+    dimensionsLabel: '对比维度:',
+    dimensions: {
+      methods: '方法',
+      datasets: '数据集',
+      metrics: '评价指标',
+      results: '结果',
+      conclusions: '结论',
+    } as Record<ComparisonDimensionKey, string>,
+    addDimension: '添加自定义维度',
+    removeDimension: (name: string) => `移除维度「${name}」`,
+    corner: '维度',
+    generating: '生成中...',
+    missing: '未报告',
+    missingTitle: '这篇文献的摘要或全文中没有相关信息',
+    retry: '重试',
+    stop: '停止',
+    regenerate: '重新生成',
+    exportCsv: '导出 CSV',
+    exportMarkdown: '导出 Markdown',
+    fileSuffix: '文献对比',
+  },
+};
+
+export type Messages = typeof zh;
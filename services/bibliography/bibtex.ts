@@ -0,0 +1,54 @@
+import type { Reference } from '../../types';
+import { formatInverted, parseName } from './names';
+import { parseDateParts } from './dates';
+import { arxivIdOf, classifyReference } from './kinds';
+
+const MONTH_MACROS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const LATEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+// One pass, so the braces of an inserted `\textbackslash{}` are not escaped again.
+export const escapeBibtex = (value: string): string =>
+    value.replace(/[\\~^{}&%$#_]/g, char => LATEX_ESCAPES[char] ?? `\\${char}`);
+
+const field = (name: string, value: string | undefined, raw = false): string | null =>
+    value ? `  ${name} = ${raw ? value : `{${escapeBibtex(value)}}`}` : null;
+
+// URLs and DOIs are read verbatim by the url and doi packages, so LaTeX escapes would end up in the link.
+// Only braces are percent-encoded, since an unbalanced one would end the field early.
+const verbatimField = (name: string, value: string | undefined): string | null =>
+    value ? `  ${name} = {${value.replace(/\{/g, '%7B').replace(/\}/g, '%7D')}}` : null;
+
+export const toBibtexEntry = (ref: Reference, key: string): string => {
+    const kind = classifyReference(ref);
+    const { year, month } = parseDateParts(ref.publicationDate);
+    const arxivId = arxivIdOf(ref);
+    const authors = ref.authors.map(author => {
+        const name = parseName(author);
+        // Corporate authors need an extra brace group or BibTeX splits them into given/family names.
+        return name.literal ? `{${escapeBibtex(name.literal)}}` : escapeBibtex(formatInverted(name));
+    });
+
+    const fields = [
+        // Double braces keep BibTeX styles from lowercasing acronyms in the title.
+        `  title = {{${escapeBibtex(ref.title)}}}`,
+        authors.length > 0 ? `  author = {${authors.join(' and ')}}` : null,
+        field('year', year ? String(year) : undefined, true),
+        field('month', month ? MONTH_MACROS[month - 1] : undefined, true),
+        kind === 'article' ? field('journal', ref.venue) : field('howpublished', ref.venue),
+        verbatimField('doi', ref.doi),
+        arxivId ? field('eprint', arxivId) : null,
+        arxivId ? '  archivePrefix = {arXiv}' : null,
+        verbatimField('url', ref.uri),
+        field('abstract', ref.abstract),
+    ].filter(Boolean);
+
+    return `@${kind === 'article' ? 'article' : 'misc'}{${key},\n${fields.join(',\n')}\n}`;
+};
+
+export const toBibtex = (references: Reference[], keys: Map<string, string>): string =>
+    references.map(ref => toBibtexEntry(ref, keys.get(ref.uri)!)).join('\n\n') + '\n';
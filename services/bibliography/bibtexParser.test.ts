@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseBibtex } from './bibtexParser';
+import { readFixture } from './fixtures';
+
+describe('parseBibtex', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { references, skipped } = parseBibtex(readFixture('zotero-export.bib'));
+    const [stickgold, foster, vaswani] = references;
+
+    it('skips entries without a title and entries that cannot be read', () => {
+        expect(references.map(ref => ref.title)).toEqual([
+            'Sleep-dependent memory consolidation',
+            'Replay of hippocampal sequences during rest',
+            'Attention Is All You Need',
+        ]);
+        expect(skipped).toBe(2);
+    });
+
+    it('resolves @string macros and month names', () => {
+        expect(stickgold).toMatchObject({
+            authors: ['Robert Stickgold', 'Matthew P. Walker'],
+            publicationDate: '2005-10-27',
+            uri: 'https://doi.org/10.1038/nature04286',
+            doi: '10.1038/nature04286',
+            venue: 'Nature',
+        });
+    });
+
+    it('keeps a braced corporate author whole', () => {
+        expect(foster.authors).toEqual(['David J. Foster', 'Memory Research Consortium']);
+    });
+
+    it('drops a day that has no month', () => {
+        expect(foster.publicationDate).toBe('2020');
+    });
+
+    it('prefers the date field and links arXiv e-prints', () => {
+        expect(vaswani.publicationDate).toBe('2017-06');
+        expect(vaswani.uri).toBe('https://arxiv.org/abs/1706.03762');
+    });
+});
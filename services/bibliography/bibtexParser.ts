@@ -0,0 +1,164 @@
+import type { Reference } from '../../types';
+import { normalizeDate } from '../resultSchema';
+import { parseName } from './names';
+import { latexToUnicode } from './latex';
+import { fallbackUri, ImportedEntryError, toDisplayName } from './importUtils';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+interface RawEntry {
+    type: string;
+    key: string;
+    fields: Record<string, string>;
+}
+
+// Reads a braced or quoted value starting at `start`, returning its raw contents and the index after it.
+const readDelimited = (text: string, start: number): [string, number] => {
+    const quoted = text[start] === '"';
+    let depth = 0;
+    for (let i = start + 1; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            if (!quoted && depth === 0) return [text.slice(start + 1, i), i + 1];
+            depth--;
+        } else if (char === '"' && quoted && depth === 0) {
+            return [text.slice(start + 1, i), i + 1];
+        }
+    }
+    throw new ImportedEntryError('unterminated field value');
+};
+
+const readValue = (text: string, start: number, strings: Record<string, string>): [string, number] => {
+    const parts: string[] = [];
+    let i = start;
+    while (i < text.length) {
+        while (/\s/.test(text[i])) i++;
+        if (text[i] === '{' || text[i] === '"') {
+            const [value, next] = readDelimited(text, i);
+            parts.push(value);
+            i = next;
+        } else {
+            const match = /^[\w.:-]+/.exec(text.slice(i));
+            if (!match) break;
+            const token = match[0];
+            parts.push(strings[token.toLowerCase()] ?? token);
+            i += token.length;
+        }
+        while (/\s/.test(text[i])) i++;
+        // '#' concatenates string parts and @string macros.
+        if (text[i] !== '#') break;
+        i++;
+    }
+    return [parts.join(''), i];
+};
+
+const parseEntries = (text: string): { entries: RawEntry[]; skipped: number } => {
+    const entries: RawEntry[] = [];
+    const strings: Record<string, string> = Object.fromEntries(MONTHS.map((month, index) => [month, String(index + 1)]));
+    let skipped = 0;
+    const entryStart = /@(\w+)\s*[{(]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = entryStart.exec(text))) {
+        const type = match[1].toLowerCase();
+        let i = entryStart.lastIndex;
+        if (type === 'comment' || type === 'preamble') continue;
+        try {
+            if (type === 'string') {
+                const name = /^\s*([\w-]+)\s*=/.exec(text.slice(i));
+                if (!name) continue;
+                const [value, next] = readValue(text, i + name[0].length, strings);
+                strings[name[1].toLowerCase()] = value;
+                entryStart.lastIndex = next;
+                continue;
+            }
+
+            const keyMatch = /^\s*([^,\s]*)\s*,/.exec(text.slice(i));
+            if (!keyMatch) throw new ImportedEntryError('missing citation key');
+            i += keyMatch[0].length;
+            const fields: Record<string, string> = {};
+            while (i < text.length) {
+                const fieldMatch = /^\s*([\w-]+)\s*=\s*/.exec(text.slice(i));
+                if (!fieldMatch) break;
+                const [value, next] = readValue(text, i + fieldMatch[0].length, strings);
+                fields[fieldMatch[1].toLowerCase()] = value;
+                i = next;
+                while (/[\s,]/.test(text[i] ?? '')) i++;
+            }
+            entries.push({ type, key: keyMatch[1], fields });
+            entryStart.lastIndex = i;
+        } catch (error) {
+            console.warn(`Skipping unreadable BibTeX entry @${type}:`, error);
+            skipped++;
+        }
+    }
+    return { entries, skipped };
+};
+
+// Splits "A and B and {Barnes and Noble}" on top-level "and" only.
+const splitAuthors = (value: string): string[] => {
+    const authors: string[] = [];
+    let depth = 0;
+    let current = '';
+    const tokens = value.split(/(\s+and\s+|[{}])/i);
+    tokens.forEach(token => {
+        if (token === '{') depth++;
+        if (token === '}') depth--;
+        if (depth === 0 && /^\s+and\s+$/i.test(token)) {
+            authors.push(current);
+            current = '';
+        } else {
+            current += token;
+        }
+    });
+    authors.push(current);
+    return authors.map(author => author.trim()).filter(Boolean);
+};
+
+const displayName = (raw: string): string => {
+    // A fully braced name is a corporate author and must not be reordered.
+    if (/^\{.*\}$/.test(raw.trim())) return latexToUnicode(raw);
+    return toDisplayName(parseName(latexToUnicode(raw)));
+};
+
+const toReference = ({ key, fields }: RawEntry): Reference => {
+    const title = latexToUnicode(fields.title ?? '');
+    if (!title) throw new ImportedEntryError(`entry "${key}" has no title`);
+    const month = fields.month ? String(MONTHS.indexOf(fields.month.slice(0, 3).toLowerCase()) + 1 || fields.month) : undefined;
+    const date = fields.date
+        ? normalizeDate(fields.date)
+        // A day without a month would be read as the month.
+        : normalizeDate([fields.year, month, month && fields.day].filter(Boolean).join('-'));
+    const doi = fields.doi?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').trim() || undefined;
+    const arxivId = (fields.archiveprefix ?? fields.eprinttype)?.toLowerCase() === 'arxiv' ? fields.eprint : undefined;
+
+    return {
+        title,
+        authors: splitAuthors(fields.author ?? fields.editor ?? '').map(displayName),
+        publicationDate: date,
+        uri: fields.url || (doi && `https://doi.org/${doi}`) || (arxivId && `https://arxiv.org/abs/${arxivId}`) || fallbackUri(title),
+        abstract: fields.abstract ? latexToUnicode(fields.abstract) : undefined,
+        doi,
+        venue: latexToUnicode(fields.journal ?? fields.journaltitle ?? fields.booktitle ?? fields.howpublished ?? fields.publisher ?? '') || undefined,
+        source: 'Imported',
+    };
+};
+
+export const parseBibtex = (text: string): { references: Reference[]; skipped: number } => {
+    const { entries, skipped } = parseEntries(text);
+    const references: Reference[] = [];
+    let invalid = 0;
+    entries.forEach(entry => {
+        try {
+            references.push(toReference(entry));
+        } catch (error) {
+            console.warn('Skipping BibTeX entry:', error);
+            invalid++;
+        }
+    });
+    return { references, skipped: skipped + invalid };
+};
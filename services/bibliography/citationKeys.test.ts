@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { Reference } from '../../types';
+import { buildCitationKeys } from './citationKeys';
+import { exportReferences } from '.';
+import { en } from '../../i18n/en';
+
+const paper = (title: string, uri: string): Reference => ({ title, authors: ['Jane Smith'], publicationDate: '2021', uri });
+
+const deep = paper('Deep learning for sleep staging', 'https://example.org/b');
+const deeper = paper('Deep networks for sleep apnea', 'https://example.org/a');
+const other = paper('A review of memory consolidation', 'https://example.org/c');
+
+describe('buildCitationKeys', () => {
+    it('suffixes colliding keys in uri order', () => {
+        const keys = buildCitationKeys([deep, deeper, other]);
+        expect(keys.get(deeper.uri)).toBe('smith2021deepa');
+        expect(keys.get(deep.uri)).toBe('smith2021deepb');
+        expect(keys.get(other.uri)).toBe('smith2021review');
+    });
+
+    it('gives an exported selection the keys of the full list', () => {
+        const keys = buildCitationKeys([deep, deeper, other]);
+        const bibtex = exportReferences('bibtex', [deep], { labels: en.export, keys });
+        expect(bibtex).toContain('@misc{smith2021deepb,');
+    });
+});
@@ -0,0 +1,43 @@
+import type { Reference } from '../../types';
+import { parseName } from './names';
+import { parseDateParts } from './dates';
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'from', 'towards', 'toward', 'via', 'using', 'is', 'are']);
+
+const asciiSlug = (text: string): string =>
+    text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const baseKey = (ref: Reference): string => {
+    const firstAuthor = ref.authors[0] ? parseName(ref.authors[0]) : {};
+    const author = asciiSlug(firstAuthor.family ?? firstAuthor.literal?.split(' ')[0] ?? '') || 'anon';
+    const year = parseDateParts(ref.publicationDate).year ?? 'nd';
+    const titleWord = ref.title
+        .split(/\s+/)
+        .map(asciiSlug)
+        .find(word => word && !STOP_WORDS.has(word)) ?? '';
+    return `${author}${year}${titleWord}`;
+};
+
+/**
+ * Builds Google-Scholar-style keys (smith2021deep). Colliding keys get a, b, c... suffixes
+ * assigned in uri order, so a paper keeps its key no matter how the export is ordered.
+ */
+export const buildCitationKeys = (references: Reference[]): Map<string, string> => {
+    const groups = new Map<string, Reference[]>();
+    references.forEach(ref => {
+        const key = baseKey(ref);
+        groups.set(key, [...(groups.get(key) ?? []), ref]);
+    });
+
+    const keys = new Map<string, string>();
+    groups.forEach((group, key) => {
+        if (group.length === 1) {
+            keys.set(group[0].uri, key);
+            return;
+        }
+        [...group]
+            .sort((a, b) => a.uri.localeCompare(b.uri))
+            .forEach((ref, index) => keys.set(ref.uri, `${key}${String.fromCharCode(97 + (index % 26))}${index >= 26 ? Math.floor(index / 26) : ''}`));
+    });
+    return keys;
+};
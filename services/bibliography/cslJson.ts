@@ -0,0 +1,37 @@
+import type { Reference } from '../../types';
+import { parseName } from './names';
+import { parseDateParts } from './dates';
+import { classifyReference } from './kinds';
+
+export interface CslItem {
+    id: string;
+    type: string;
+    title: string;
+    author?: { family?: string; given?: string; literal?: string }[];
+    issued?: { 'date-parts': number[][] };
+    'container-title'?: string;
+    DOI?: string;
+    URL?: string;
+    abstract?: string;
+}
+
+const CSL_TYPES = { article: 'article-journal', preprint: 'article', webpage: 'webpage' } as const;
+
+export const toCslItem = (ref: Reference, key: string): CslItem => {
+    const { year, month, day } = parseDateParts(ref.publicationDate);
+    const dateParts = [year, month, day].filter((part): part is number => part !== undefined);
+    return {
+        id: key,
+        type: CSL_TYPES[classifyReference(ref)],
+        title: ref.title,
+        author: ref.authors.length > 0 ? ref.authors.map(parseName) : undefined,
+        issued: year ? { 'date-parts': [dateParts] } : undefined,
+        'container-title': ref.venue,
+        DOI: ref.doi,
+        URL: ref.uri,
+        abstract: ref.abstract,
+    };
+};
+
+export const toCslJson = (references: Reference[], keys: Map<string, string>): string =>
+    JSON.stringify(references.map(ref => toCslItem(ref, keys.get(ref.uri)!)), null, 2) + '\n';
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseCslJson } from './cslJsonParser';
+import { readFixture } from './fixtures';
+import { ParseError } from '../errors';
+
+describe('parseCslJson', () => {
+    const { references, skipped } = parseCslJson(readFixture('zotero-export.json'));
+    const [stickgold, foster, report] = references;
+
+    it('skips items without a title and values that are not items', () => {
+        expect(references.map(ref => ref.title)).toEqual([
+            'Sleep-dependent memory consolidation',
+            'Replay of hippocampal sequences during rest',
+            'Annual report on sleep research',
+        ]);
+        expect(skipped).toBe(2);
+    });
+
+    it('maps the fields onto a reference', () => {
+        expect(stickgold).toEqual({
+            title: 'Sleep-dependent memory consolidation',
+            authors: ['Robert Stickgold', 'Matthew P. Walker'],
+            publicationDate: '2005-10-27',
+            uri: 'https://doi.org/10.1038/nature04286',
+            abstract: undefined,
+            doi: '10.1038/nature04286',
+            venue: 'Nature',
+            source: 'Imported',
+        });
+    });
+
+    it('ignores malformed author lists and entries', () => {
+        expect(foster.authors).toEqual([]);
+        expect(report.authors).toEqual(['Memory Research Consortium']);
+    });
+
+    it('reads partial and raw dates', () => {
+        expect(foster.publicationDate).toBe('2020');
+        expect(report.publicationDate).toBe('2021-03');
+    });
+
+    it('accepts a single item or an items wrapper', () => {
+        expect(parseCslJson('{"title": "One"}').references).toHaveLength(1);
+        expect(parseCslJson('{"items": [{"title": "One"}, {"title": "Two"}]}').references).toHaveLength(2);
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseCslJson('[{"title": ')).toThrow(ParseError);
+    });
+});
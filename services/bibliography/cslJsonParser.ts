@@ -0,0 +1,58 @@
+import type { Reference } from '../../types';
+import { normalizeDate } from '../resultSchema';
+import { ParseError } from '../errors';
+import { fallbackUri, toDisplayName } from './importUtils';
+
+type CslName = { family?: string; given?: string; literal?: string };
+type CslDate = { 'date-parts'?: (number | string)[][]; raw?: string; literal?: string };
+
+const asString = (value: unknown): string | undefined => {
+    if (Array.isArray(value)) return asString(value[0]);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const parseIssued = (issued?: CslDate): string => {
+    const parts = issued?.['date-parts']?.[0];
+    if (parts && parts.length > 0) return normalizeDate(parts.join('-'));
+    return normalizeDate(issued?.raw ?? issued?.literal ?? '');
+};
+
+const isName = (value: unknown): value is CslName => typeof value === 'object' && value !== null;
+
+const toReference = (item: Record<string, unknown>): Reference | null => {
+    const title = asString(item.title);
+    if (!title) return null;
+    const doi = asString(item.DOI);
+    return {
+        title,
+        authors: (Array.isArray(item.author) ? item.author.filter(isName) : []).map(toDisplayName).filter(Boolean),
+        publicationDate: parseIssued((item.issued ?? item['published-print'] ?? item['published-online']) as CslDate | undefined),
+        uri: asString(item.URL) || (doi && `https://doi.org/${doi}`) || fallbackUri(title),
+        abstract: asString(item.abstract),
+        doi,
+        venue: asString(item['container-title']),
+        source: 'Imported',
+    };
+};
+
+export const parseCslJson = (text: string): { references: Reference[]; skipped: number } => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new ParseError('The file is not valid CSL-JSON.', false, { cause: error });
+    }
+    // Zotero exports an array; single items and {items: [...]} wrappers also occur in the wild.
+    const items = Array.isArray(data)
+        ? data
+        : Array.isArray((data as { items?: unknown })?.items) ? (data as { items: unknown[] }).items : [data];
+
+    const references: Reference[] = [];
+    let skipped = 0;
+    items.forEach(item => {
+        const ref = item && typeof item === 'object' ? toReference(item as Record<string, unknown>) : null;
+        if (ref) references.push(ref);
+        else skipped++;
+    });
+    return { references, skipped };
+};
@@ -0,0 +1,18 @@
+import { normalizeDate } from '../resultSchema';
+
+export interface DateParts {
+    year?: number;
+    month?: number;
+    day?: number;
+}
+
+export const parseDateParts = (publicationDate: string): DateParts => {
+    const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(normalizeDate(publicationDate));
+    if (!match) return {};
+    const [, year, month, day] = match;
+    return {
+        year: Number(year),
+        month: month ? Number(month) : undefined,
+        day: day ? Number(day) : undefined,
+    };
+};
@@ -0,0 +1,5 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// Libraries in the shape reference managers export them, read by the importer tests.
+export const readFixture = (name: string): string => readFileSync(join(import.meta.dirname, name), 'utf8');
@@ -0,0 +1,13 @@
+export class ImportedEntryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportedEntryError';
+    }
+}
+
+// Entries without any URL or identifier still need a unique, clickable uri.
+export const fallbackUri = (title: string): string =>
+    `https://scholar.google.com/scholar?q=${encodeURIComponent(`"${title}"`)}`;
+
+export const toDisplayName = (name: { family?: string; given?: string; literal?: string }): string =>
+    name.literal ?? [name.given, name.family].filter(Boolean).join(' ');
@@ -0,0 +1,84 @@
+import type { Reference } from '../../types';
+import { buildCitationKeys } from './citationKeys';
+import { toBibtex } from './bibtex';
+import { toRis } from './ris';
+import { toCslJson } from './cslJson';
+import { toMarkdown } from './markdown';
+import type { ExportReport, MarkdownLabels } from './markdown';
+import { parseBibtex } from './bibtexParser';
+import { parseRis } from './risParser';
+import { parseCslJson } from './cslJsonParser';
+import { EmptyResponseError, ParseError } from '../errors';
+import { dedupeReferences } from '../deduplication';
+
+export type { ExportReport, MarkdownLabels } from './markdown';
+export { buildCitationKeys } from './citationKeys';
+
+export type ExportFormat = 'bibtex' | 'ris' | 'csl-json' | 'markdown';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+    ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+    'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+    markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+};
+
+export interface ExportOptions {
+    // Only the Markdown format has headings, and room for the summary and Q&A.
+    labels: MarkdownLabels;
+    report?: ExportReport;
+    numbers?: Map<string, number>;
+    // Citation keys built over the whole result list, so exporting a selection keeps the keys a full export uses.
+    keys?: Map<string, string>;
+}
+
+export const exportReferences = (format: ExportFormat, references: Reference[], options: ExportOptions): string => {
+    const keys = options.keys ?? buildCitationKeys(references);
+    switch (format) {
+        case 'bibtex':
+            return toBibtex(references, keys);
+        case 'ris':
+            return toRis(references, keys);
+        case 'csl-json':
+            return toCslJson(references, keys);
+        case 'markdown':
+            return toMarkdown(references, options.labels, options.numbers, options.report);
+    }
+};
+
+export type ImportFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export interface ImportResult {
+    format: ImportFormat;
+    references: Reference[];
+    // Entries that could not be turned into a reference, e.g. because they had no title.
+    skipped: number;
+}
+
+// Picks the parser from the file extension, falling back to sniffing the content.
+export const detectImportFormat = (filename: string, text: string): ImportFormat | null => {
+    const extension = filename.split('.').pop()?.toLowerCase();
+    if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+    if (extension === 'ris') return 'ris';
+    if (extension === 'json') return 'csl-json';
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'csl-json';
+    if (/^TY  - /m.test(text)) return 'ris';
+    if (/@\w+\s*[{(]/.test(text)) return 'bibtex';
+    return null;
+};
+
+export const importBibliography = (filename: string, text: string): ImportResult => {
+    const format = detectImportFormat(filename, text);
+    if (!format) {
+        throw new ParseError('Unrecognized bibliography format. Please use a BibTeX (.bib), RIS (.ris) or CSL-JSON (.json) file.');
+    }
+    const parse = { bibtex: parseBibtex, ris: parseRis, 'csl-json': parseCslJson }[format];
+    const { references, skipped } = parse(text);
+    if (references.length === 0) {
+        throw new EmptyResponseError('No usable entries were found in the file.');
+    }
+    // Duplicate entries in one file would collide on uri, which the app uses as the identity key.
+    const unique = dedupeReferences(references);
+    return { format, references: unique, skipped: skipped + references.length - unique.length };
+};
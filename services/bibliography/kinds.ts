@@ -0,0 +1,14 @@
+import type { Reference } from '../../types';
+import { extractArxivId } from '../referenceMatching';
+
+export type ReferenceKind = 'article' | 'preprint' | 'webpage';
+
+const PREPRINT_SERVERS = /arxiv|biorxiv|medrxiv|ssrn|preprints\.org|research square/i;
+
+export const classifyReference = (ref: Reference): ReferenceKind => {
+    if (PREPRINT_SERVERS.test(ref.venue ?? '') || PREPRINT_SERVERS.test(ref.uri)) return 'preprint';
+    if (ref.venue || ref.doi) return 'article';
+    return 'webpage';
+};
+
+export const arxivIdOf = (ref: Reference): string | undefined => extractArxivId(ref.uri);
@@ -0,0 +1,26 @@
+const ACCENTS: Record<string, string> = {
+    '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+    '=': '\u0304', '.': '\u0307', 'u': '\u0306', 'v': '\u030c', 'H': '\u030b', 'c': '\u0327', 'k': '\u0328',
+};
+
+const SYMBOLS: Record<string, string> = {
+    ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', oe: 'œ', OE: 'Œ', l: 'ł', L: 'Ł', i: 'ı',
+};
+
+// Converts the LaTeX that bibliography managers write into plain Unicode text.
+export const latexToUnicode = (value: string): string =>
+    value
+        .replace(/\\([a-zA-Z]+)\{([^{}]*)\}/g, (match, command: string, arg: string) =>
+            ['textit', 'textbf', 'emph', 'textsc', 'textrm', 'mathrm', 'url'].includes(command) ? arg : match)
+        .replace(/\\([\"'`^~=.uvHck])\s*\{?\\?([a-zA-Z])\}?/g, (match, accent: string, letter: string) =>
+            ACCENTS[accent] ? `${letter}${ACCENTS[accent]}` : match)
+        .replace(/\{?\\(ss|ae|AE|aa|AA|oe|OE|o|O|l|L|i)\b\s*\}?/g, (_, symbol: string) => SYMBOLS[symbol])
+        .replace(/\\([&%$#_{}])/g, '$1')
+        .replace(/\\textbackslash\{\}/g, '\\')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/~/g, ' ')
+        .replace(/[{}]/g, '')
+        .replace(/\s+/g, ' ')
+        .normalize('NFC')
+        .trim();
@@ -0,0 +1,68 @@
+import type { Reference } from '../../types';
+import { initials, parseName } from './names';
+import { parseDateParts } from './dates';
+
+export interface ExportReport {
+    query: string;
+    summary?: string;
+    qa?: { question: string; answer: string }[];
+}
+
+// Headings of the exported document, in the language of the UI it was exported from.
+export interface MarkdownLabels {
+    reportTitle: (query: string) => string;
+    summaryHeading: string;
+    qaHeading: string;
+    question: string;
+    answer: string;
+    referencesHeading: string;
+}
+
+const formatAuthorsApa = (authors: string[]): string => {
+    const names = authors.map(author => {
+        const name = parseName(author);
+        if (name.literal) return name.literal;
+        return name.given ? `${name.family}, ${initials(name.given)}` : name.family ?? '';
+    });
+    if (names.length === 0) return '';
+    if (names.length === 1) return names[0];
+    if (names.length > 20) return `${names.slice(0, 19).join(', ')}, ... ${names[names.length - 1]}`;
+    return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([*_`[\]])/g, '\\$1');
+
+// An APA-like entry; the link prefers the DOI form since it outlives publisher URLs.
+export const formatMarkdownEntry = (ref: Reference): string => {
+    const authors = formatAuthorsApa(ref.authors);
+    const year = parseDateParts(ref.publicationDate).year ?? 'n.d.';
+    const link = ref.doi ? `https://doi.org/${ref.doi}` : ref.uri;
+    const parts = [
+        authors ? `${escapeMarkdown(authors)} (${year}).` : `(${year}).`,
+        `${escapeMarkdown(ref.title.replace(/\.$/, ''))}.`,
+        ref.venue ? `*${escapeMarkdown(ref.venue)}*.` : null,
+        `<${link}>`,
+    ];
+    return parts.filter(Boolean).join(' ');
+};
+
+/**
+ * Renders a numbered bibliography, optionally preceded by the AI summary and Q&A.
+ * `numbers` keeps the numbering of the full result list so the summary's [n] markers still line up
+ * when only some references are exported.
+ */
+export const toMarkdown = (references: Reference[], labels: MarkdownLabels, numbers?: Map<string, number>, report?: ExportReport): string => {
+    const sections: string[] = [];
+    if (report) {
+        sections.push(`# ${labels.reportTitle(report.query)}`);
+        if (report.summary) {
+            sections.push(`## ${labels.summaryHeading}\n\n${report.summary}`);
+        }
+        if (report.qa && report.qa.length > 0) {
+            sections.push(`## ${labels.qaHeading}\n\n${report.qa.map(({ question, answer }) => `**${labels.question}** ${question}\n\n**${labels.answer}** ${answer}`).join('\n\n---\n\n')}`);
+        }
+    }
+    const entries = references.map((ref, index) => `[${numbers?.get(ref.uri) ?? index + 1}] ${formatMarkdownEntry(ref)}`);
+    sections.push(`## ${labels.referencesHeading}\n\n${entries.join('\n\n')}`);
+    return sections.join('\n\n') + '\n';
+};
@@ -0,0 +1,53 @@
+export interface PersonName {
+    family?: string;
+    given?: string;
+    // Organizations and anything that cannot be split are kept whole, as CSL-JSON does.
+    literal?: string;
+}
+
+const PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'dos', 'das', 'ter', 'ten', 'bin', 'al']);
+const SUFFIXES = /^(jr|sr|ii|iii|iv)\.?$/i;
+const ORGANIZATION = /\b(consortium|group|collaboration|committee|organi[sz]ation|association|society|institute|team|network)\b/i;
+const CJK = /^[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]+$/u;
+
+/**
+ * Splits a free-form author string into family and given names. Handles "Family, Given",
+ * "Given Family", particles ("Ludwig van Beethoven"), suffixes and unspaced CJK names.
+ */
+export const parseName = (raw: string): PersonName => {
+    const name = raw.replace(/\s+/g, ' ').trim();
+    if (!name) return { literal: '' };
+    if (ORGANIZATION.test(name)) return { literal: name };
+    if (CJK.test(name)) {
+        return name.length > 1 ? { family: name[0], given: name.slice(1) } : { literal: name };
+    }
+
+    if (name.includes(',')) {
+        const [family, ...rest] = name.split(',').map(part => part.trim());
+        const given = rest.filter(part => !SUFFIXES.test(part)).join(' ');
+        return given ? { family, given } : { family };
+    }
+
+    const words = name.split(' ').filter(word => !SUFFIXES.test(word));
+    if (words.length === 1) return { family: words[0] };
+    // The family name starts at the first lowercase particle, or is the last word.
+    let familyStart = words.length - 1;
+    for (let i = 1; i < words.length - 1; i++) {
+        if (PARTICLES.has(words[i].toLowerCase())) {
+            familyStart = i;
+            break;
+        }
+    }
+    return { family: words.slice(familyStart).join(' '), given: words.slice(0, familyStart).join(' ') };
+};
+
+export const initials = (given: string): string =>
+    given
+        .split(/[\s-]+/)
+        .filter(Boolean)
+        .map(part => `${part[0].toUpperCase()}.`)
+        .join(' ');
+
+// "Family, Given", the order BibTeX and RIS expect.
+export const formatInverted = (name: PersonName): string =>
+    name.literal ?? [name.family, name.given].filter(Boolean).join(', ');
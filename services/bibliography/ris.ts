@@ -0,0 +1,31 @@
+import type { Reference } from '../../types';
+import { formatInverted, parseName } from './names';
+import { parseDateParts } from './dates';
+import { classifyReference } from './kinds';
+
+const RIS_TYPES = { article: 'JOUR', preprint: 'UNPB', webpage: 'ELEC' } as const;
+const pad = (value?: number) => (value ? String(value).padStart(2, '0') : '');
+
+const line = (tag: string, value?: string): string | null =>
+    value ? `${tag}  - ${value.replace(/\s*\n\s*/g, ' ')}` : null;
+
+export const toRisEntry = (ref: Reference, key: string): string => {
+    const { year, month, day } = parseDateParts(ref.publicationDate);
+    const lines = [
+        line('TY', RIS_TYPES[classifyReference(ref)]),
+        line('ID', key),
+        line('TI', ref.title),
+        ...ref.authors.map(author => line('AU', formatInverted(parseName(author)))),
+        line('PY', year ? String(year) : undefined),
+        line('DA', year ? `${year}/${pad(month)}/${pad(day)}/` : undefined),
+        line('JO', ref.venue),
+        line('DO', ref.doi),
+        line('UR', ref.uri),
+        line('AB', ref.abstract),
+        'ER  - ',
+    ];
+    return lines.filter(Boolean).join('\r\n');
+};
+
+export const toRis = (references: Reference[], keys: Map<string, string>): string =>
+    references.map(ref => toRisEntry(ref, keys.get(ref.uri)!)).join('\r\n\r\n') + '\r\n';
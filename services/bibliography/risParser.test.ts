@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseRis } from './risParser';
+import { readFixture } from './fixtures';
+
+describe('parseRis', () => {
+    const { references, skipped } = parseRis(readFixture('zotero-export.ris'));
+    const [stickgold, foster, walker] = references;
+
+    it('reads every record, including ones closed by a trimmed "ER  -" line', () => {
+        expect(references.map(ref => ref.title)).toEqual([
+            'Sleep-dependent memory consolidation',
+            'Replay of hippocampal sequences during rest',
+            'Why we sleep',
+        ]);
+        // The record without a title.
+        expect(skipped).toBe(1);
+    });
+
+    it('maps the tags onto a reference', () => {
+        expect(stickgold).toEqual({
+            title: 'Sleep-dependent memory consolidation',
+            authors: ['Robert Stickgold', 'Matthew P. Walker'],
+            publicationDate: '2005-10-27',
+            uri: 'https://doi.org/10.1038/nature04286',
+            abstract: 'The role of sleep in memory has been debated for decades; new evidence from several species now supports it.',
+            doi: '10.1038/nature04286',
+            venue: 'Nature',
+            source: 'Imported',
+        });
+        expect(foster.uri).toBe('https://example.org/replay');
+        expect(foster.venue).toBe('Proceedings of the Workshop on Memory');
+    });
+
+    it('keeps the date parts in their positions', () => {
+        expect(foster.publicationDate).toBe('2020');
+        expect(walker.publicationDate).toBe('2017-03');
+    });
+
+    it.each([
+        ['TY  - JOUR\nTI  - Spring issue\nPY  - 2021///Spring\nER  -', '2021'],
+        ['TY  - JOUR\nTI  - Free text\nPY  - Spring 2021\nER  -', '2021'],
+        ['TY  - JOUR\nTI  - No date\nER  -', ''],
+    ])('reads the date of %j', (text, date) => {
+        expect(parseRis(text).references[0].publicationDate).toBe(date);
+    });
+});
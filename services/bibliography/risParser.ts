@@ -0,0 +1,76 @@
+import type { Reference } from '../../types';
+import { normalizeDate } from '../resultSchema';
+import { parseName } from './names';
+import { fallbackUri, toDisplayName } from './importUtils';
+
+// The value is optional, since editors often trim the trailing space of an "ER  - " line.
+const TAG_LINE = /^([A-Z][A-Z0-9])  ?-(?: ?(.*))?$/;
+
+const first = (fields: Map<string, string[]>, ...tags: string[]): string | undefined => {
+    for (const tag of tags) {
+        const value = fields.get(tag)?.[0]?.trim();
+        if (value) return value;
+    }
+    return undefined;
+};
+
+const isDatePart = (part?: string): part is string => part !== undefined && /^\d{1,2}$/.test(part);
+
+// RIS dates look like "2021/03/05/" or "2021///", possibly with free text after the last slash. Each
+// part keeps its position, so in "2020//15" the day is dropped with the month rather than read as it.
+const parseRisDate = (value?: string): string => {
+    if (!value) return '';
+    const [year, month, day] = value.split('/').map(part => part.trim());
+    if (!/^\d{4}$/.test(year)) return normalizeDate(value);
+    if (!isDatePart(month)) return year;
+    return normalizeDate(isDatePart(day) ? `${year}-${month}-${day}` : `${year}-${month}`);
+};
+
+const toReference = (fields: Map<string, string[]>): Reference | null => {
+    const title = first(fields, 'TI', 'T1', 'CT', 'BT');
+    if (!title) return null;
+    const doi = first(fields, 'DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+    const authors = ['AU', 'A1', 'A2', 'A3', 'A4'].flatMap(tag => fields.get(tag) ?? []);
+    return {
+        title,
+        authors: authors.map(author => toDisplayName(parseName(author))),
+        publicationDate: parseRisDate(first(fields, 'DA', 'PY', 'Y1')),
+        uri: first(fields, 'UR', 'L2', 'LK') || (doi && `https://doi.org/${doi}`) || fallbackUri(title),
+        abstract: first(fields, 'AB', 'N2'),
+        doi,
+        venue: first(fields, 'JO', 'JF', 'T2', 'JA', 'J2', 'PB'),
+        source: 'Imported',
+    };
+};
+
+export const parseRis = (text: string): { references: Reference[]; skipped: number } => {
+    const references: Reference[] = [];
+    let skipped = 0;
+    let fields: Map<string, string[]> | null = null;
+    let lastTag: string | null = null;
+
+    text.split(/\r?\n/).forEach(line => {
+        const match = TAG_LINE.exec(line);
+        if (!match) {
+            // Wrapped values continue on lines without a tag.
+            if (fields && lastTag && line.trim()) {
+                const values = fields.get(lastTag)!;
+                values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`;
+            }
+            return;
+        }
+        const [, tag, value] = match;
+        if (tag === 'TY') {
+            fields = new Map();
+        } else if (tag === 'ER') {
+            const ref = fields ? toReference(fields) : null;
+            if (ref) references.push(ref);
+            else skipped++;
+            fields = null;
+        } else if (fields) {
+            fields.set(tag, [...(fields.get(tag) ?? []), (value ?? '').trim()]);
+        }
+        lastTag = tag;
+    });
+    return { references, skipped };
+};
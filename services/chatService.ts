@@ -0,0 +1,33 @@
+import type { ChatMessage, ChatThread } from '../types';
+import { STORES, getOne, putOne, deleteOne } from './db';
+
+// The same papers selected in any order continue the same conversation.
+export const threadIdFor = (referenceURIs: string[]): string => [...referenceURIs].sort().join('\n');
+
+export const createMessage = (role: ChatMessage['role'], text: string): ChatMessage => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    role,
+    text,
+    createdAt: Date.now(),
+});
+
+export const loadThread = async (referenceURIs: string[]): Promise<ChatThread> => {
+    const id = threadIdFor(referenceURIs);
+    const stored = await getOne<ChatThread>(STORES.chatThreads, id);
+    return stored ?? { id, referenceURIs: [...referenceURIs].sort(), messages: [], updatedAt: Date.now() };
+};
+
+export const saveThread = async (thread: ChatThread): Promise<void> => {
+    if (thread.messages.length === 0) {
+        await deleteOne(STORES.chatThreads, thread.id);
+        return;
+    }
+    await putOne(STORES.chatThreads, { ...thread, updatedAt: Date.now() });
+};
+
+// Pairs each question with the answer that followed it, for reports and exports.
+export const toQuestionAnswerPairs = (messages: ChatMessage[]): { question: string; answer: string }[] =>
+    messages.flatMap((message, index) => {
+        const next = messages[index + 1];
+        return message.role === 'user' && next?.role === 'model' ? [{ question: message.text, answer: next.text }] : [];
+    });
@@ -0,0 +1,128 @@
+import type { CitationDirection, Reference } from '../types';
+import { CITATION_GRAPH } from './providers';
+import type { CitationGraphOptions } from './providers';
+import { EmptyResponseError } from './errors';
+
+/**
+ * Fetches the papers citing `seed` ('citing') or cited by it ('cited'). Every result carries a
+ * `citationRelations` entry pointing back at the seed, which is what the graph view is built from.
+ */
+export const expandCitations = async (seed: Reference, direction: CitationDirection, options?: CitationGraphOptions): Promise<Reference[]> => {
+    const found = await CITATION_GRAPH.expand(seed, direction, options);
+    if (found.length === 0) {
+        throw new EmptyResponseError(direction === 'citing'
+            ? 'The citation index lists no papers citing this one.'
+            : 'The citation index lists no references for this paper.');
+    }
+    return found;
+};
+
+export interface GraphNode {
+    uri: string;
+    reference: Reference;
+    isSeed: boolean;
+    x: number;
+    y: number;
+}
+
+// Points from the citing paper to the cited one.
+export interface GraphEdge {
+    from: string;
+    to: string;
+}
+
+export interface CitationGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+// Spring-embedder constants, tuned for a few dozen to a few hundred nodes in a unit square.
+const ITERATIONS = 300;
+const REPULSION = 0.002;
+const SPRING_LENGTH = 0.12;
+const SPRING_STRENGTH = 0.05;
+const GRAVITY = 0.02;
+
+// A deterministic force-directed layout, so the same references always draw the same picture.
+const layout = (uris: string[], edges: GraphEdge[]): Map<string, { x: number; y: number }> => {
+    const index = new Map(uris.map((uri, i) => [uri, i]));
+    const positions = uris.map((_, i) => {
+        const angle = (2 * Math.PI * i) / uris.length;
+        const radius = 0.3 + 0.1 * (i % 3);
+        return { x: 0.5 + radius * Math.cos(angle), y: 0.5 + radius * Math.sin(angle) };
+    });
+    const links = edges.map(edge => [index.get(edge.from)!, index.get(edge.to)!]);
+
+    for (let step = 0; step < ITERATIONS; step++) {
+        const cooling = 1 - step / ITERATIONS;
+        const forces = positions.map(() => ({ x: 0, y: 0 }));
+        for (let i = 0; i < positions.length; i++) {
+            for (let j = i + 1; j < positions.length; j++) {
+                const dx = positions[i].x - positions[j].x;
+                const dy = positions[i].y - positions[j].y;
+                const distanceSq = Math.max(dx * dx + dy * dy, 1e-4);
+                const force = REPULSION / distanceSq;
+                forces[i].x += dx * force;
+                forces[i].y += dy * force;
+                forces[j].x -= dx * force;
+                forces[j].y -= dy * force;
+            }
+        }
+        links.forEach(([a, b]) => {
+            const dx = positions[b].x - positions[a].x;
+            const dy = positions[b].y - positions[a].y;
+            const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1e-4);
+            const force = SPRING_STRENGTH * (distance - SPRING_LENGTH) / distance;
+            forces[a].x += dx * force;
+            forces[a].y += dy * force;
+            forces[b].x -= dx * force;
+            forces[b].y -= dy * force;
+        });
+        positions.forEach((position, i) => {
+            const fx = forces[i].x + GRAVITY * (0.5 - position.x);
+            const fy = forces[i].y + GRAVITY * (0.5 - position.y);
+            // Cap each move so dense clusters settle instead of exploding.
+            const length = Math.sqrt(fx * fx + fy * fy);
+            const scale = length > 0.05 ? 0.05 / length : 1;
+            position.x = Math.min(0.97, Math.max(0.03, position.x + fx * scale * cooling));
+            position.y = Math.min(0.97, Math.max(0.03, position.y + fy * scale * cooling));
+        });
+    }
+    return new Map(uris.map((uri, i) => [uri, positions[i]]));
+};
+
+/**
+ * Builds the citation graph among the loaded references from their `citationRelations`.
+ * Coordinates are in [0, 1]; relations whose seed is no longer in the list are skipped.
+ */
+export const buildCitationGraph = (references: Reference[]): CitationGraph => {
+    const byUri = new Map<string, Reference>();
+    references.forEach(ref => [ref.uri, ...(ref.alternateURIs ?? [])].forEach(uri => byUri.set(uri, ref)));
+
+    const edges: GraphEdge[] = [];
+    const seen = new Set<string>();
+    const seeds = new Set<string>();
+    references.forEach(ref => {
+        (ref.citationRelations ?? []).forEach(relation => {
+            const seed = byUri.get(relation.seedURI);
+            if (!seed || seed.uri === ref.uri) return;
+            seeds.add(seed.uri);
+            const edge = relation.direction === 'citing' ? { from: ref.uri, to: seed.uri } : { from: seed.uri, to: ref.uri };
+            const key = `${edge.from} ${edge.to}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                edges.push(edge);
+            }
+        });
+    });
+
+    const uris = Array.from(new Set(edges.flatMap(edge => [edge.from, edge.to])));
+    const positions = layout(uris, edges);
+    const nodes = uris.map(uri => ({
+        uri,
+        reference: references.find(ref => ref.uri === uri)!,
+        isSeed: seeds.has(uri),
+        ...positions.get(uri)!,
+    }));
+    return { nodes, edges };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { Reference } from '../types';
+import { remapCitations, splitCitations } from './citations';
+import { dedupeReferences } from './deduplication';
+
+const paper = (title: string, uri: string, extra: Partial<Reference> = {}): Reference =>
+    ({ title, authors: ['Jane Smith', 'Wei Zhang'], publicationDate: '2020', uri, ...extra });
+
+const preprint = paper('Replay during sleep consolidates memory', 'https://arxiv.org/abs/2001.00001');
+const published = paper('Replay during sleep consolidates memory', 'https://doi.org/10.1000/replay', { doi: '10.1000/replay' });
+const spindles = paper('Sleep spindles predict recall', 'https://example.org/spindles');
+const dropped = paper('An unrelated paper', 'https://example.org/unrelated');
+
+describe('splitCitations', () => {
+    it('splits text and single or grouped markers into 0-based indices', () => {
+        expect(splitCitations('Replay [1] and spindles [2, 3].')).toEqual([
+            { type: 'text', text: 'Replay ' },
+            { type: 'citation', indices: [0] },
+            { type: 'text', text: ' and spindles ' },
+            { type: 'citation', indices: [1, 2] },
+            { type: 'text', text: '.' },
+        ]);
+    });
+});
+
+describe('remapCitations', () => {
+    it('points a marker for a merged reference at the entry it was merged into', () => {
+        // The model cited the preprint; the index results put the published version first, so the merge keeps its uri.
+        const modelReferences = [spindles, preprint];
+        const merged = dedupeReferences([published, spindles, preprint]);
+        expect(merged.map(ref => ref.uri)).toEqual([published.uri, spindles.uri]);
+        expect(remapCitations('Spindles [1] and replay [2].', modelReferences, merged)).toBe('Spindles [2] and replay [1].');
+    });
+
+    it('collapses two cited versions of one paper and drops markers for removed references', () => {
+        const merged = dedupeReferences([published, preprint]);
+        expect(remapCitations('Replay [1, 2] but not [3].', [preprint, published, dropped], merged)).toBe('Replay [1] but not .');
+    });
+});
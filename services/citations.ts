@@ -0,0 +1,45 @@
+import type { Reference } from '../types';
+
+// Matches "[3]" as well as the "[1, 4]" form the model sometimes produces despite instructions.
+const CITATION_PATTERN = /\[(\d+(?:\s*[,，]\s*\d+)*)\]/g;
+
+export type SummarySegment =
+    | { type: 'text'; text: string }
+    | { type: 'citation'; indices: number[] };
+
+const parseIndices = (group: string): number[] =>
+    group.split(/[,，]/).map(part => Number(part.trim()) - 1);
+
+// Splits a summary into plain text and citation markers; indices are 0-based positions in `references`.
+export const splitCitations = (summary: string): SummarySegment[] => {
+    const segments: SummarySegment[] = [];
+    let lastIndex = 0;
+    for (const match of summary.matchAll(CITATION_PATTERN)) {
+        const start = match.index ?? 0;
+        if (start > lastIndex) {
+            segments.push({ type: 'text', text: summary.slice(lastIndex, start) });
+        }
+        segments.push({ type: 'citation', indices: parseIndices(match[1]) });
+        lastIndex = start + match[0].length;
+    }
+    if (lastIndex < summary.length) {
+        segments.push({ type: 'text', text: summary.slice(lastIndex) });
+    }
+    return segments;
+};
+
+const urisOf = (ref: Reference): string[] => [ref.uri, ...(ref.alternateURIs ?? [])];
+
+// Renumbers markers written against `from` so they point into `to`; markers for dropped references disappear.
+export const remapCitations = (summary: string, from: Reference[], to: Reference[]): string => {
+    // Every URI of a merged entry maps to its position, and every URI of a cited reference is tried,
+    // so a marker survives whichever of the merged versions kept the primary link.
+    const positions = new Map(to.flatMap((ref, index) => urisOf(ref).map(uri => [uri, index + 1] as const)));
+    return summary.replace(CITATION_PATTERN, (_, group: string) => {
+        const mapped = parseIndices(group)
+            .map(index => from[index] && urisOf(from[index]).map(uri => positions.get(uri)).find(Boolean))
+            .filter((position): position is number => Boolean(position));
+        // Two cited versions of the same paper collapse into a single marker.
+        return Array.from(new Set(mapped)).map(position => `[${position}]`).join('');
+    });
+};
@@ -0,0 +1,34 @@
+import type { DateRange, TimeRange } from '../types';
+
+// In years; 0 searches the whole range at once.
+export const WINDOW_SIZES = [0, 2, 3, 5, 6, 10];
+
+export const MIN_YEAR = 1900;
+// Parallel mode sends one request per window and provider, so keep the fan-out bounded.
+export const MAX_PARALLEL_WINDOWS = 8;
+
+export const clampYear = (year: number): number => Math.min(new Date().getFullYear(), Math.max(MIN_YEAR, year));
+
+// Brings a time range from a link or a shared session within what the date control offers, so it cannot expand into an unbounded number of windows.
+export const normalizeTimeRange = ({ startYear, endYear, windowSize, parallel }: TimeRange): TimeRange => ({
+    startYear: clampYear(Math.min(startYear, endYear)),
+    endYear: clampYear(Math.max(startYear, endYear)),
+    windowSize: WINDOW_SIZES.includes(windowSize) ? windowSize : 0,
+    parallel,
+});
+
+// Splits the time range into windows of `windowSize` years, newest first; the oldest window may be shorter.
+export const splitIntoWindows = ({ startYear, endYear, windowSize }: TimeRange): DateRange[] => {
+    const first = Math.min(startYear, endYear);
+    const last = Math.max(startYear, endYear);
+    if (windowSize <= 0) return [{ startYear: first, endYear: last }];
+    const windows: DateRange[] = [];
+    for (let end = last; end >= first; end -= windowSize) {
+        windows.push({ startYear: Math.max(first, end - windowSize + 1), endYear: end });
+    }
+    return windows;
+};
+
+// `ongoing` is appended to the start year of a range without an end, e.g. "至今" or "–present".
+export const formatDateRange = ({ startYear, endYear }: DateRange, ongoing: string): string =>
+    endYear === undefined ? `${startYear}${ongoing}` : startYear === endYear ? String(startYear) : `${startYear}-${endYear}`;
@@ -0,0 +1,94 @@
+const DB_NAME = 'paperfinder';
+const DB_VERSION = 5;
+
+export const STORES = {
+    libraryEntries: 'libraryEntries',
+    collections: 'collections',
+    chatThreads: 'chatThreads',
+    sessions: 'sessions',
+    fullTexts: 'fullTexts',
+    savedSearches: 'savedSearches',
+    responseCache: 'responseCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version step only adds what it introduced, so existing user data survives upgrades.
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        db.createObjectStore(STORES.libraryEntries, { keyPath: 'id' });
+        db.createObjectStore(STORES.collections, { keyPath: 'id' });
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore(STORES.chatThreads, { keyPath: 'id' });
+        db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(STORES.fullTexts, { keyPath: 'uri' });
+    }
+    if (oldVersion < 4) {
+        db.createObjectStore(STORES.savedSearches, { keyPath: 'id' });
+    }
+    if (oldVersion < 5) {
+        db.createObjectStore(STORES.responseCache, { keyPath: 'key' });
+    }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error('Could not open the local database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('The database transaction was aborted.'));
+    });
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+    run(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+    run(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const putOne = async <T>(storeName: StoreName, value: T): Promise<void> => {
+    await run(storeName, 'readwrite', store => store.put(value));
+};
+
+export const putMany = async <T>(storeName: StoreName, values: T[]): Promise<void> => {
+    if (values.length === 0) return;
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        values.forEach(value => store.put(value));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('The database transaction was aborted.'));
+    });
+};
+
+export const deleteOne = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+    await run(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+    await run(storeName, 'readwrite', store => store.clear());
+};
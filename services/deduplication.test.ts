@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Reference } from '../types';
+import { canonicalUri, dedupeReferences, isSameWork } from './deduplication';
+
+const attention: Reference = {
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+    publicationDate: '2017-06-12',
+    uri: 'https://arxiv.org/abs/1706.03762v7',
+    abstract: 'The dominant sequence transduction models are based on recurrent networks.',
+    venue: 'arXiv',
+    source: 'arXiv',
+    citationCount: 90000,
+};
+
+const attentionPublished: Reference = {
+    title: 'Attention is all you need',
+    authors: ['A. Vaswani', 'N. Shazeer', 'N. Parmar', 'J. Uszkoreit'],
+    publicationDate: '2017',
+    uri: 'https://papers.nips.cc/paper/7181-attention-is-all-you-need',
+    venue: 'Advances in Neural Information Processing Systems',
+    source: 'Crossref',
+    citationCount: 120000,
+    verification: { status: 'verified', checkedAgainst: 'Crossref' },
+};
+
+const bert: Reference = {
+    title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+    authors: ['Jacob Devlin', 'Ming-Wei Chang'],
+    publicationDate: '2019',
+    uri: 'https://doi.org/10.18653/v1/N19-1423',
+    doi: '10.18653/v1/N19-1423',
+    source: 'Crossref',
+};
+
+describe('canonicalUri', () => {
+    it.each([
+        ['http://www.Example.org/paper/?utm_source=x&b=2&a=1#section', 'https://example.org/paper?a=1&b=2'],
+        ['https://example.org/article;jsessionid=ABC123/full/', 'https://example.org/article/full'],
+        ['not a url ', 'not a url'],
+    ])('reduces %s', (uri, canonical) => {
+        expect(canonicalUri(uri)).toBe(canonical);
+    });
+});
+
+describe('isSameWork', () => {
+    it.each<[string, Partial<Reference>, Partial<Reference>]>([
+        ['a DOI in the uri and the doi field', { uri: 'https://doi.org/10.1000/ABC' }, { uri: 'https://publisher.org/abc', doi: '10.1000/abc' }],
+        ['an arXiv ID with different versions', { uri: 'https://arxiv.org/abs/2101.00001v1' }, { uri: 'https://arxiv.org/pdf/2101.00001v3' }],
+        ['an arXiv DOI and an arXiv URL', { uri: 'https://example.org/x', doi: '10.48550/arXiv.2101.00001' }, { uri: 'https://arxiv.org/abs/2101.00001' }],
+        ['a canonical URL', { uri: 'http://www.example.org/paper/?utm_medium=rss' }, { uri: 'https://example.org/paper' }],
+        ['an alternate URL', { uri: 'https://example.org/a', alternateURIs: ['https://example.org/b'] }, { uri: 'https://example.org/b/' }],
+    ])('matches references sharing %s', (_, a, b) => {
+        expect(isSameWork({ ...bert, doi: undefined, title: 'One title', ...a }, { ...bert, doi: undefined, title: 'Another title', ...b })).toBe(true);
+    });
+
+    it('matches a preprint and its published version by title, authors and year', () => {
+        expect(isSameWork(attention, attentionPublished)).toBe(true);
+    });
+
+    it.each<[string, Partial<Reference>]>([
+        ['different journal DOIs', { doi: '10.1000/other' }],
+        ['years too far apart', { doi: undefined, publicationDate: '2012' }],
+        ['other authors', { doi: undefined, authors: ['Someone Else', 'Another Person'] }],
+        ['a different title', { doi: undefined, title: 'BERT: Distilled Transformers for Fast Language Understanding' }],
+    ])('keeps works apart with %s', (_, changes) => {
+        expect(isSameWork({ ...bert, uri: 'https://example.org/bert' }, { ...bert, uri: 'https://example.org/other', ...changes })).toBe(false);
+    });
+
+    it('requires a near-identical title when one side has no authors', () => {
+        const anonymous = { ...attentionPublished, authors: [] };
+        expect(isSameWork(attention, anonymous)).toBe(true);
+        expect(isSameWork(attention, { ...anonymous, title: 'Attention is all you need, mostly' })).toBe(false);
+    });
+});
+
+describe('dedupeReferences', () => {
+    it('merges duplicates at the position of the first occurrence', () => {
+        const merged = dedupeReferences([attention, bert, attentionPublished]);
+        expect(merged.map(ref => ref.uri)).toEqual([attention.uri, bert.uri]);
+    });
+
+    it('keeps the first uri and takes the richest value of every other field', () => {
+        const [merged] = dedupeReferences([attention, attentionPublished]);
+        expect(merged).toMatchObject({
+            // The first occurrence keeps its title and uri, so selections stay attached.
+            title: attention.title,
+            uri: attention.uri,
+            alternateURIs: [attentionPublished.uri],
+            // The longest author list and abstract.
+            authors: attentionPublished.authors,
+            abstract: attention.abstract,
+            // The published version's date and venue; the preprint date is kept next to it.
+            publicationDate: '2017',
+            preprintDate: '2017-06-12',
+            venue: 'Advances in Neural Information Processing Systems',
+            // The highest citation count and the best verification.
+            citationCount: 120000,
+            verification: { status: 'verified', checkedAgainst: 'Crossref' },
+        });
+    });
+
+    it('merges a chain of duplicates found through different identifiers into one group', () => {
+        const viaDoi = { ...attentionPublished, uri: 'https://doi.org/10.5555/3295222.3295349', doi: '10.5555/3295222.3295349' };
+        const viaLanding = { ...viaDoi, uri: 'https://dl.acm.org/doi/10.5555/3295222.3295349', title: 'Attention is all you need.' };
+        const merged = dedupeReferences([attention, viaDoi, viaLanding]);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].doi).toBe('10.5555/3295222.3295349');
+        expect(merged[0].alternateURIs).toEqual([viaDoi.uri, viaLanding.uri]);
+    });
+});
@@ -0,0 +1,173 @@
+import type { Reference, VerificationStatus } from '../types';
+import { authorOverlap, extractArxivId, extractDoi, extractYear, titleSimilarity } from './referenceMatching';
+import { classifyReference } from './bibliography/kinds';
+
+const ARXIV_DOI = /^10\.48550\/arxiv\.(.+)$/i;
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|casa_token|via|ref|referrer|rss|sessionid|jsessionid|__cf_\w+)$/i;
+const TITLE_THRESHOLD = 0.92;
+// Without authors to compare, only near-identical titles are trusted.
+const TITLE_ONLY_THRESHOLD = 0.97;
+const AUTHOR_THRESHOLD = 0.5;
+// A preprint can appear a few years before the journal version.
+const MAX_YEAR_GAP = 3;
+
+/**
+ * Reduces a URL to the form that identifies the page: https, no "www.", no fragment, no tracking
+ * parameters, sorted query and no trailing slash. Unparseable input is returned trimmed.
+ */
+export const canonicalUri = (uri: string): string => {
+    let url: URL;
+    try {
+        url = new URL(uri.trim());
+    } catch {
+        return uri.trim();
+    }
+    const params = Array.from(url.searchParams.entries())
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+    const path = url.pathname.replace(/;jsessionid=[^/]*/i, '').replace(/\/+$/, '');
+    return `https://${url.hostname.toLowerCase().replace(/^www\./, '')}${path}${query}`;
+};
+
+const urisOf = (ref: Reference): string[] => [ref.uri, ...(ref.alternateURIs ?? [])];
+
+// A DOI minted by arXiv identifies the preprint, not the journal article.
+const journalDoiOf = (ref: Reference): string | undefined => {
+    const doi = extractDoi(ref.doi) ?? extractDoi(ref.uri);
+    return doi && !ARXIV_DOI.test(doi) ? doi : undefined;
+};
+
+const arxivIdsOf = (ref: Reference): string[] => {
+    const fromDoi = ARXIV_DOI.exec(extractDoi(ref.doi) ?? '')?.[1];
+    const ids = [fromDoi, ...urisOf(ref).map(extractArxivId)].filter((id): id is string => Boolean(id));
+    return Array.from(new Set(ids.map(id => id.toLowerCase())));
+};
+
+// Every identifier that, when shared, proves two references are the same work.
+const identityKeys = (ref: Reference): string[] => {
+    const dois = urisOf(ref).map(uri => extractDoi(uri)).concat(extractDoi(ref.doi));
+    return Array.from(new Set([
+        ...dois.filter((doi): doi is string => Boolean(doi)).map(doi => `doi:${doi}`),
+        ...arxivIdsOf(ref).map(id => `arxiv:${id}`),
+        ...urisOf(ref).map(uri => `uri:${canonicalUri(uri)}`),
+    ]));
+};
+
+// An already merged reference carries its published date even when its primary URL is the preprint.
+const isPreprint = (ref: Reference): boolean =>
+    !ref.preprintDate && (classifyReference(ref) === 'preprint' || (arxivIdsOf(ref).length > 0 && !journalDoiOf(ref)));
+
+const yearsOf = (ref: Reference): number[] =>
+    [ref.publicationDate, ref.preprintDate].map(extractYear).filter((year): year is number => year !== undefined);
+
+const yearsCompatible = (a: Reference, b: Reference): boolean => {
+    const left = yearsOf(a);
+    const right = yearsOf(b);
+    if (left.length === 0 || right.length === 0) return true;
+    return left.some(x => right.some(y => Math.abs(x - y) <= MAX_YEAR_GAP));
+};
+
+/**
+ * Decides whether two references describe the same work: a shared DOI, arXiv ID or canonical URL
+ * settles it; otherwise the titles must nearly match, with overlapping authors and close years.
+ */
+export const isSameWork = (a: Reference, b: Reference): boolean => {
+    const keys = new Set(identityKeys(a));
+    if (identityKeys(b).some(key => keys.has(key))) return true;
+
+    // Different journal DOIs or arXiv IDs mean different works, e.g. a conference paper and its journal extension.
+    const doiA = journalDoiOf(a);
+    const doiB = journalDoiOf(b);
+    if (doiA && doiB && doiA !== doiB) return false;
+    const arxivA = arxivIdsOf(a);
+    const arxivB = arxivIdsOf(b);
+    if (arxivA.length > 0 && arxivB.length > 0 && !arxivA.some(id => arxivB.includes(id))) return false;
+
+    if (!yearsCompatible(a, b)) return false;
+    const similarity = titleSimilarity(a.title, b.title);
+    if (a.authors.length > 0 && b.authors.length > 0) {
+        return similarity >= TITLE_THRESHOLD && authorOverlap(a.authors, b.authors) >= AUTHOR_THRESHOLD;
+    }
+    return similarity >= TITLE_ONLY_THRESHOLD;
+};
+
+const VERIFICATION_RANK: Record<VerificationStatus, number> = { verified: 3, mismatched: 2, unresolvable: 1 };
+
+const longest = <T extends { length: number }>(values: (T | undefined)[]): T | undefined =>
+    values.reduce<T | undefined>((best, value) => (value && value.length > (best?.length ?? 0) ? value : best), undefined);
+
+// Among dates in the same year, the more precise one wins ("2017-06-12" over "2017").
+const earliestDate = (dates: (string | undefined)[]): string | undefined =>
+    dates
+        .filter((date): date is string => Boolean(date))
+        .sort((a, b) => (a.padEnd(10, '~') < b.padEnd(10, '~') ? -1 : 1))[0];
+
+/**
+ * Combines references to the same work into one. The first keeps its uri, so selections, citation
+ * numbers and library entries stay attached; the others' URLs become `alternateURIs`. Every field
+ * takes the richest value available, and a preprint's date is kept next to the published date.
+ */
+export const mergeReferences = (references: Reference[]): Reference => {
+    const [primary] = references;
+    if (references.length === 1) return primary;
+
+    const published = references.filter(ref => !isPreprint(ref));
+    const preprints = references.filter(isPreprint);
+    const preprintDate = earliestDate([
+        ...preprints.map(ref => ref.publicationDate),
+        ...references.map(ref => ref.preprintDate),
+    ]);
+    const publicationDate = published.find(ref => ref.publicationDate)?.publicationDate ?? preprintDate ?? primary.publicationDate;
+
+    const alternateURIs = Array.from(new Set(references.flatMap(urisOf))).filter(uri => uri !== primary.uri);
+    const verification = references
+        .map(ref => ref.verification)
+        .filter(Boolean)
+        .sort((a, b) => VERIFICATION_RANK[b!.status] - VERIFICATION_RANK[a!.status])[0];
+    const citationCounts = references.map(ref => ref.citationCount).filter((count): count is number => count !== undefined);
+    const relations = references.flatMap(ref => ref.citationRelations ?? []);
+    const citationRelations = relations.filter((relation, index) =>
+        relations.findIndex(other => other.direction === relation.direction && other.seedURI === relation.seedURI) === index
+    );
+
+    return {
+        ...primary,
+        title: primary.title || longest(references.map(ref => ref.title)) || '',
+        authors: longest(references.map(ref => ref.authors)) ?? [],
+        publicationDate,
+        alternateURIs: alternateURIs.length > 0 ? alternateURIs : undefined,
+        abstract: longest(references.map(ref => ref.abstract)),
+        doi: published.map(journalDoiOf).find(Boolean) ?? references.map(ref => ref.doi).find(Boolean),
+        venue: published.map(ref => ref.venue).find(Boolean) ?? references.map(ref => ref.venue).find(Boolean),
+        citationCount: citationCounts.length > 0 ? Math.max(...citationCounts) : undefined,
+        verification,
+        preprintDate: preprintDate && preprintDate !== publicationDate ? preprintDate : undefined,
+        citationRelations: citationRelations.length > 0 ? citationRelations : undefined,
+        extraction: references.map(ref => ref.extraction).find(Boolean),
+    };
+};
+
+/**
+ * Groups duplicates and merges each group, keeping the position of each work's first occurrence.
+ * Use it wherever two result lists are combined so every path agrees on what a duplicate is.
+ */
+export const dedupeReferences = (references: Reference[]): Reference[] => {
+    const groups: Reference[][] = [];
+    const groupByKey = new Map<string, number>();
+
+    references.forEach(ref => {
+        const keys = identityKeys(ref);
+        let index = keys.map(key => groupByKey.get(key)).find(found => found !== undefined);
+        if (index === undefined) {
+            index = groups.findIndex(group => group.some(member => isSameWork(member, ref)));
+        }
+        if (index === -1) {
+            index = groups.push([]) - 1;
+        }
+        groups[index].push(ref);
+        keys.forEach(key => groupByKey.set(key, index!));
+    });
+
+    return groups.map(mergeReferences);
+};
@@ -0,0 +1,118 @@
+import { ApiError, FinishReason } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+
+export type ServiceErrorKind = 'network' | 'quota' | 'parse' | 'empty' | 'safety' | 'config' | 'unknown';
+
+export class LiteratureServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+
+    constructor(kind: ServiceErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.kind = kind;
+        this.name = 'LiteratureServiceError';
+    }
+}
+
+export class NetworkError extends LiteratureServiceError {
+    constructor(message = "A network communication error occurred. This might be a temporary issue.", options?: { cause?: unknown }) {
+        super('network', message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class QuotaError extends LiteratureServiceError {
+    constructor(message = "The service's request quota or rate limit has been exceeded.", options?: { cause?: unknown }) {
+        super('quota', message, options);
+        this.name = 'QuotaError';
+    }
+}
+
+export class ParseError extends LiteratureServiceError {
+    // True when the response looked cut off rather than malformed.
+    readonly truncated: boolean;
+
+    constructor(message: string, truncated = false, options?: { cause?: unknown }) {
+        super('parse', message, options);
+        this.truncated = truncated;
+        this.name = 'ParseError';
+    }
+}
+
+export class EmptyResponseError extends LiteratureServiceError {
+    constructor(message = "The model returned an empty response.", options?: { cause?: unknown }) {
+        super('empty', message, options);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export class SafetyBlockedError extends LiteratureServiceError {
+    constructor(message = "The request was blocked by the model's safety filters.", options?: { cause?: unknown }) {
+        super('safety', message, options);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class ConfigurationError extends LiteratureServiceError {
+    constructor(message = "The AI service is not configured. Please check the API key and endpoint in the settings.", options?: { cause?: unknown }) {
+        super('config', message, options);
+        this.name = 'ConfigurationError';
+    }
+}
+
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.RECITATION,
+];
+
+// Throws when the model refused or produced nothing; otherwise returns the response text.
+export const assertResponseText = (response: GenerateContentResponse): string => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(`The prompt was blocked by the model (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(`The response was stopped by the model (${finishReason}).`);
+    }
+    const text = response.text?.trim();
+    if (!text) {
+        throw new EmptyResponseError();
+    }
+    return text;
+};
+
+// Maps SDK, fetch and HTTP failures onto the error taxonomy; errors that are already classified pass through.
+export const classifyError = (error: unknown): LiteratureServiceError => {
+    if (error instanceof LiteratureServiceError) {
+        return error;
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429) {
+            return new QuotaError(undefined, { cause: error });
+        }
+        if (error.status === 401 || error.status === 403) {
+            return new ConfigurationError("The AI service rejected the API key.", { cause: error });
+        }
+        if (error.status >= 500) {
+            return new NetworkError(`The AI service is temporarily unavailable (HTTP ${error.status}).`, { cause: error });
+        }
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // Gemini answers an invalid key with a plain 400.
+    if (/API[_ ]KEY[_ ]INVALID|API key not valid/i.test(message)) {
+        return new ConfigurationError("The AI service rejected the API key.", { cause: error });
+    }
+    if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaError(undefined, { cause: error });
+    }
+    if (error instanceof TypeError || /xhr error|failed to fetch|network/i.test(message)) {
+        return new NetworkError(undefined, { cause: error });
+    }
+    if (error instanceof SyntaxError) {
+        return new ParseError(`The response could not be parsed: ${message}`, false, { cause: error });
+    }
+    return new LiteratureServiceError('unknown', message, { cause: error });
+};
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FullTextDocument, Reference } from '../types';
+import { chunkPages, retrievePassages } from './fullTextService';
+import { embedTexts } from './geminiService';
+import { activeModel } from './settingsService';
+
+const store = new Map<string, FullTextDocument>();
+
+vi.mock('./db', () => ({
+    STORES: { fullTexts: 'fullTexts' },
+    getOne: async (_store: string, uri: string) => store.get(uri),
+    putOne: async (_store: string, doc: FullTextDocument) => { store.set(doc.uri, doc); },
+}));
+
+vi.mock('./geminiService', () => ({ embedTexts: vi.fn() }));
+vi.mock('./settingsService', () => ({ activeModel: vi.fn() }));
+
+const paragraph = (topic: string) =>
+    `We describe the ${topic} in enough detail for the study to be repeated by another group.`;
+
+describe('chunkPages', () => {
+    it('starts a section at a numbered heading that stands alone and keeps the heading text', () => {
+        const chunks = chunkPages([{ page: 1, lines: [paragraph('setting'), '', '2.1 Study Population', '', paragraph('cohort')] }]);
+        expect(chunks.map(chunk => chunk.section)).toEqual([undefined, '2.1 Study Population']);
+        expect(chunks[1].text).toBe(`2.1 Study Population ${paragraph('cohort')}`);
+    });
+
+    it('does not split at numbered lines inside a paragraph or lines starting with a year', () => {
+        const lines = [
+            paragraph('recruitment'),
+            '3 Participants were excluded after screening for',
+            'sleep disorders and medication use',
+            '',
+            '2019 Annual Survey of Sleep Habits',
+            '',
+            paragraph('survey'),
+        ];
+        const chunks = chunkPages([{ page: 1, lines }]);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].section).toBeUndefined();
+        expect(chunks[0].text).toContain('3 Participants were excluded after screening for sleep disorders');
+        expect(chunks[0].text).toContain('2019 Annual Survey of Sleep Habits');
+    });
+
+    it('recognizes named headings and stops at the references', () => {
+        const chunks = chunkPages([
+            { page: 1, lines: ['Methods', paragraph('protocol')] },
+            { page: 2, lines: [paragraph('analysis'), 'References', 'Smith J. A cited paper. 2020.'] },
+        ]);
+        expect(chunks.map(({ page, section }) => [page, section])).toEqual([[1, 'Methods'], [2, 'Methods']]);
+        expect(chunks[0].text.startsWith('Methods We describe')).toBe(true);
+    });
+});
+
+describe('retrievePassages', () => {
+    const reference: Reference = { title: 'Sleep and memory', authors: [], publicationDate: '2020', uri: 'https://example.org/sleep' };
+    const document: FullTextDocument = {
+        uri: reference.uri,
+        fileName: 'sleep.pdf',
+        origin: 'upload',
+        pageCount: 1,
+        chunks: [
+            { id: 'p1-0', page: 1, text: 'Spindle density predicted overnight memory retention.', embedding: [1, 0] },
+            { id: 'p1-1', page: 1, text: 'Participants slept in the laboratory for two nights.', embedding: [0, 1] },
+        ],
+        embeddingModel: 'embedding-old',
+        addedAt: 0,
+    };
+
+    beforeEach(() => {
+        store.clear();
+        store.set(document.uri, document);
+        vi.mocked(embedTexts).mockReset();
+        vi.mocked(activeModel).mockReturnValue('embedding-new');
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('re-embeds a document from another model and ranks by similarity', async () => {
+        vi.mocked(embedTexts).mockImplementation(async texts => texts.map(text => (text.includes('slept') || text.includes('nights') ? [0, 1] : [1, 0])));
+        const [best] = await retrievePassages([reference], 'How many nights did they sleep?');
+        expect(best.chunk.id).toBe('p1-1');
+        expect(store.get(document.uri)?.embeddingModel).toBe('embedding-new');
+    });
+
+    it('falls back to keywords and does not retry a model that failed until the model changes', async () => {
+        vi.mocked(embedTexts).mockRejectedValue(new Error('The embedding model is not available.'));
+        const [best] = await retrievePassages([reference], 'spindle density');
+        expect(best.chunk.id).toBe('p1-0');
+        expect(store.get(document.uri)?.embeddingFailure).toEqual({ model: 'embedding-new', failedAt: expect.any(Number) });
+        expect(embedTexts).toHaveBeenCalledTimes(1);
+
+        await retrievePassages([reference], 'laboratory nights');
+        expect(embedTexts).toHaveBeenCalledTimes(1);
+
+        vi.mocked(activeModel).mockReturnValue('embedding-other');
+        await retrievePassages([reference], 'laboratory nights');
+        expect(embedTexts).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,262 @@
+import type { FullTextChunk, FullTextDocument, Passage, Reference } from '../types';
+import { STORES, deleteOne, getAll, getOne, putOne } from './db';
+import { embedTexts } from './geminiService';
+import { activeModel } from './settingsService';
+import { NetworkError, ParseError } from './errors';
+import { extractArxivId, extractDoi } from './referenceMatching';
+
+const TARGET_CHUNK_LENGTH = 1200;
+const PASSAGES_PER_QUESTION = 8;
+
+const HEADING_WORDS = /^(?:\d+(?:\.\d+)*\.?\s+)?(abstract|introduction|background|related work|preliminaries|methods?|methodology|materials and methods|experimental setup|experiments?|results?|results and discussion|evaluation|discussion|limitations|conclusions?|future work|acknowledg(?:e)?ments?|references|bibliography|appendix\b.*)$/i;
+// At most two digits per level, so a line starting with a year is not taken for a section number.
+const NUMBERED_HEADING = /^\d{1,2}(?:\.\d{1,2})*\.?\s+[A-Z][^.!?]{2,70}$/;
+// Everything after these headings is bibliography or boilerplate and only adds retrieval noise.
+const TRAILING_SECTIONS = /^(?:\d+(?:\.\d+)*\.?\s+)?(references|bibliography|acknowledg(?:e)?ments?)$/i;
+
+interface PageText {
+    page: number;
+    // Blank lines are kept as empty strings, since they mark where headings and paragraphs begin.
+    lines: string[];
+}
+
+const extractPdfPages = async (data: ArrayBuffer): Promise<PageText[]> => {
+    // pdf.js is large, so it is only loaded once the first PDF is attached.
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    let pdf;
+    try {
+        pdf = await pdfjs.getDocument({ data }).promise;
+    } catch (error) {
+        throw new ParseError('The file could not be read as a PDF.', false, { cause: error });
+    }
+
+    const pages: PageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const lines: string[] = [];
+        let current = '';
+        content.items.forEach(item => {
+            if (!('str' in item)) return;
+            current += item.str;
+            if (item.hasEOL) {
+                lines.push(current.trim());
+                current = '';
+            }
+        });
+        if (current.trim()) lines.push(current.trim());
+        // Runs of blank lines collapse into one.
+        pages.push({ page: pageNumber, lines: lines.filter((line, index) => line || lines[index - 1]) });
+    }
+    await pdf.destroy();
+    return pages;
+};
+
+// A numbered line only counts as a heading when it stands alone between blank lines or page edges;
+// otherwise it is more likely a wrapped list item or table row.
+const isHeading = (lines: string[], index: number): boolean =>
+    HEADING_WORDS.test(lines[index]) || (NUMBERED_HEADING.test(lines[index]) && !lines[index - 1] && !lines[index + 1]);
+
+// Splits page text into ~1200-character chunks that never span a page or a section boundary.
+export const chunkPages = (pages: PageText[]): FullTextChunk[] => {
+    const chunks: FullTextChunk[] = [];
+    let section: string | undefined;
+    let buffer: string[] = [];
+    let bufferPage = 1;
+
+    const flush = () => {
+        const text = buffer.join(' ').replace(/-\s+(?=[a-z])/g, '').replace(/\s+/g, ' ').trim();
+        if (text.length > 40) {
+            chunks.push({ id: `p${bufferPage}-${chunks.length}`, page: bufferPage, section, text });
+        }
+        buffer = [];
+    };
+
+    for (const { page, lines } of pages) {
+        if (buffer.length > 0) flush();
+        bufferPage = page;
+        for (const [index, line] of lines.entries()) {
+            if (!line) continue;
+            if (isHeading(lines, index)) {
+                flush();
+                if (TRAILING_SECTIONS.test(line)) return chunks;
+                section = line;
+            }
+            // A heading also stays in the text, so nothing is lost when a line is mistaken for one.
+            buffer.push(line);
+            if (buffer.join(' ').length >= TARGET_CHUNK_LENGTH) flush();
+        }
+    }
+    flush();
+    return chunks;
+};
+
+// Embeddings make retrieval work for Chinese questions over English papers; without them, keyword ranking is used.
+const embedChunks = async (chunks: FullTextChunk[]): Promise<FullTextChunk[]> => {
+    try {
+        const embeddings = await embedTexts(chunks.map(chunk => chunk.text), 'RETRIEVAL_DOCUMENT');
+        return chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] }));
+    } catch (error) {
+        console.warn('Embedding full-text chunks failed; falling back to keyword retrieval.', error);
+        return chunks;
+    }
+};
+
+// The model is only recorded when every chunk was embedded, so a partial set is never compared.
+const embedDocument = async (chunks: FullTextChunk[]): Promise<Pick<FullTextDocument, 'chunks' | 'embeddingModel' | 'embeddingFailure'>> => {
+    const model = activeModel('embedding');
+    const embedded = await embedChunks(chunks.map(({ embedding: _, ...chunk }) => chunk));
+    return embedded.every(chunk => chunk.embedding)
+        ? { chunks: embedded, embeddingModel: model, embeddingFailure: undefined }
+        : { chunks: embedded, embeddingModel: undefined, embeddingFailure: { model, failedAt: Date.now() } };
+};
+
+/**
+ * Re-embeds a document whose embeddings came from another model, e.g. after the backend was changed in
+ * the settings, and stores the result. If that fails the document is ranked by keywords, and the failure
+ * is stored so that later questions do not try the same model again.
+ */
+const withCurrentEmbeddings = async (doc: FullTextDocument): Promise<FullTextDocument> => {
+    const model = activeModel('embedding');
+    if (doc.embeddingModel === model || doc.embeddingFailure?.model === model) return doc;
+    const updated = { ...doc, ...await embedDocument(doc.chunks) };
+    await putOne(STORES.fullTexts, updated).catch(error => console.warn('Storing the new embeddings failed:', error));
+    return updated;
+};
+
+export const ingestPdf = async (reference: Reference, data: ArrayBuffer, fileName: string, origin: FullTextDocument['origin']): Promise<FullTextDocument> => {
+    const pages = await extractPdfPages(data);
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) {
+        throw new ParseError('No text could be extracted from this PDF. It may be a scanned document without a text layer.');
+    }
+    const document: FullTextDocument = {
+        uri: reference.uri,
+        fileName,
+        origin,
+        pageCount: pages.length,
+        ...await embedDocument(chunks),
+        addedAt: Date.now(),
+    };
+    await putOne(STORES.fullTexts, document);
+    return document;
+};
+
+export const getFullText = (uri: string): Promise<FullTextDocument | undefined> => getOne<FullTextDocument>(STORES.fullTexts, uri);
+
+export const listFullTexts = async (): Promise<Pick<FullTextDocument, 'uri' | 'fileName' | 'pageCount' | 'origin'>[]> =>
+    (await getAll<FullTextDocument>(STORES.fullTexts)).map(({ uri, fileName, pageCount, origin }) => ({ uri, fileName, pageCount, origin }));
+
+export const removeFullText = (uri: string): Promise<void> => deleteOne(STORES.fullTexts, uri);
+
+interface OpenAccessResponse {
+    openAccessPdf?: { url?: string } | null;
+}
+
+// arXiv papers have a predictable PDF; for DOIs, Semantic Scholar knows the open-access copy if there is one.
+export const findOpenAccessPdfUrl = async (reference: Reference): Promise<string | null> => {
+    const arxivId = extractArxivId(reference.uri);
+    if (arxivId) return `https://arxiv.org/pdf/${arxivId}`;
+    const doi = reference.doi ?? extractDoi(reference.uri);
+    if (!doi) return null;
+    const response = await fetch(`https://api.semanticscholar.org/graph/v1/paper/DOI:${encodeURIComponent(doi)}?fields=openAccessPdf`);
+    if (!response.ok) return null;
+    const data: OpenAccessResponse = await response.json();
+    return data.openAccessPdf?.url || null;
+};
+
+export const fetchOpenAccessPdf = async (reference: Reference): Promise<FullTextDocument> => {
+    const url = await findOpenAccessPdfUrl(reference);
+    if (!url) {
+        throw new NetworkError('No open-access PDF was found for this paper.');
+    }
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (error) {
+        // Most publishers do not allow cross-origin downloads, so the user has to download and attach the file.
+        throw new NetworkError(`The open-access PDF could not be downloaded in the browser. Please download it from ${url} and attach it manually.`, { cause: error });
+    }
+    if (!response.ok) {
+        throw new NetworkError(`Downloading the open-access PDF failed with status ${response.status}.`);
+    }
+    return ingestPdf(reference, await response.arrayBuffer(), url.split('/').pop() || 'open-access.pdf', 'open-access');
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Latin words plus CJK character bigrams, enough for a keyword fallback in either language.
+const tokenize = (text: string): string[] => {
+    const lower = text.toLowerCase();
+    const words = lower.match(/[a-z0-9]{2,}/g) ?? [];
+    const cjk = lower.match(/[\u4e00-\u9fff]+/g) ?? [];
+    const bigrams = cjk.flatMap(run => run.length === 1 ? [run] : Array.from({ length: run.length - 1 }, (_, i) => run.slice(i, i + 2)));
+    return [...words, ...bigrams];
+};
+
+// Okapi BM25 over the candidate chunks.
+const keywordScores = (question: string, chunks: FullTextChunk[]): number[] => {
+    const k1 = 1.5;
+    const b = 0.75;
+    const queryTerms = Array.from(new Set(tokenize(question)));
+    const docs = chunks.map(chunk => tokenize(chunk.text));
+    const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(docs.length, 1);
+    const documentFrequency = new Map(queryTerms.map(term => [term, docs.filter(doc => doc.includes(term)).length]));
+    return docs.map(doc => queryTerms.reduce((score, term) => {
+        const frequency = doc.filter(token => token === term).length;
+        if (frequency === 0) return score;
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        return score + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * doc.length / avgLength));
+    }, 0));
+};
+
+/**
+ * Finds the full-text chunks of the given references that are most relevant to the question.
+ * References without an attached full text contribute nothing; an empty result means the
+ * answer has to rely on abstracts alone.
+ */
+export const retrievePassages = async (references: Reference[], question: string, limit = PASSAGES_PER_QUESTION): Promise<Passage[]> => {
+    const documents = await Promise.all(references.map(async ref => {
+        const doc = await getFullText(ref.uri);
+        return { ref, doc: doc && await withCurrentEmbeddings(doc) };
+    }));
+    const candidates = documents.flatMap(({ ref, doc }) => (doc?.chunks ?? []).map(chunk => ({ reference: ref, chunk })));
+    if (candidates.length === 0) return [];
+
+    let scores: number[];
+    if (candidates.every(candidate => candidate.chunk.embedding)) {
+        try {
+            const [queryEmbedding] = await embedTexts([question], 'RETRIEVAL_QUERY');
+            if (candidates.some(candidate => candidate.chunk.embedding!.length !== queryEmbedding.length)) {
+                throw new Error('The question and the passages were embedded with different dimensions.');
+            }
+            scores = candidates.map(candidate => cosineSimilarity(queryEmbedding, candidate.chunk.embedding!));
+        } catch (error) {
+            console.warn('Embedding the question failed; falling back to keyword retrieval.', error);
+            scores = keywordScores(question, candidates.map(candidate => candidate.chunk));
+        }
+    } else {
+        scores = keywordScores(question, candidates.map(candidate => candidate.chunk));
+    }
+
+    return candidates
+        .map((candidate, index) => ({ ...candidate, score: scores[index] }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
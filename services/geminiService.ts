@@ -1,27 +1,25 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import type { SearchResult, Reference } from '../types';
+import { Type } from "@google/genai";
+import type { SearchResult, Reference, DateRange, GroundingChunk, ChatMessage, Passage, LiteratureReview, Language, QueryExpansion, PaperExtraction, ComparisonCell, ComparisonDimension, ReviewSectionKind } from '../types';
+import { classifyError, EmptyResponseError, ParseError } from './errors';
+import { parsePartialSearchResult, parseSearchResult } from './resultSchema';
+import { parseReview } from './literatureReview';
+import { STUDY_DESIGNS, parseExtraction } from './paperExtraction';
+import { describeDimension, parseComparisonCells } from './paperComparison';
+import { getSettings, modelCacheKey } from './settingsService';
+import { ANSWER_TTL_MS, TRANSLATION_TTL_MS, normalizeText, withCache } from './responseCache';
+import { LANGUAGE_NAMES, detectLanguage, otherLanguage } from './language';
+import { getModelBackend } from './models';
+import type { EmbeddingTaskType, ModelMessage } from './models';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const parseAndValidateJsonResponse = (jsonString: string): { summary: string; references: Reference[] } => {
-    // Sanitize the string: remove ```json ... ``` markers and trim whitespace
-    const sanitizedString = jsonString.replace(/^```json\s*|```\s*$/g, '').trim();
-    if (!sanitizedString) {
-        throw new Error("Received an empty JSON string from the model.");
-    }
-
-    const data = JSON.parse(sanitizedString);
-    if (!data.summary || !Array.isArray(data.references)) {
-        throw new Error("JSON response is missing 'summary' or 'references' fields.");
+const parseSearchResponse = (text: string, groundingChunks: GroundingChunk[]): SearchResult => {
+    const { result, issues } = parseSearchResult(text);
+    if (issues.length > 0) {
+        console.warn(`Dropped ${issues.length} invalid reference(s) from the model response:`, issues);
     }
-    return data;
+    return { ...result, groundingChunks };
 };
 
-const buildPrompt = (query: string, selectedSources: string[], withAbstract: boolean, dateRange?: { startYear: number; endYear?: number }): string => {
+const buildPrompt = (query: string, selectedSources: string[], withAbstract: boolean, dateRange?: DateRange): string => {
     const sourceInstruction = selectedSources.length > 0
       ? `Focus your search on these sources: ${selectedSources.join(', ')}.`
       : 'Search across a broad range of academic sources.';
@@ -38,11 +36,11 @@ const buildPrompt = (query: string, selectedSources: string[], withAbstract: boo
       You are an expert research assistant. Your task is to find academic literature on "${query}".
       ${sourceInstruction}
       ${dateInstruction}
-      Your goal is to find around 15-20 relevant sources, prioritizing a mix of foundational and recent papers within the specified date range.
+      Your goal is to find around ${getSettings().resultCount} relevant sources, prioritizing a mix of foundational and recent papers within the specified date range.
       
       Your response must be structured as a single JSON object with the following schema:
       {
-        "summary": "A comprehensive summary that integrates insights from the found literature.",
+        "summary": "A comprehensive summary that integrates insights from the found literature. Cite the supporting papers inline by their 1-based position in the references array, e.g. [1] or [2][5].",
         "references": [
           {
             "title": "The full title of the paper.",
@@ -58,82 +56,615 @@ const buildPrompt = (query: string, selectedSources: string[], withAbstract: boo
 };
 
 
-export const searchLiterature = async (query: string, selectedSources: string[], dateRange?: { startYear: number; endYear?: number }): Promise<SearchResult> => {
-  const model = "gemini-2.5-flash";
-  // This config is corrected by removing `responseMimeType`.
-  const config = {
-      tools: [{ googleSearch: {} }],
-  };
+export interface SearchStreamOptions {
+  signal?: AbortSignal;
+  // Called with the summary text and the complete references parsed so far, after every chunk.
+  onProgress?: (partial: SearchResult) => void;
+}
+
+// Streams one search prompt and parses the finished response.
+const streamSearch = async (prompt: string, { signal, onProgress }: SearchStreamOptions): Promise<SearchResult> => {
+  // JSON is requested in the prompt, since the search tool cannot be combined with a JSON response schema.
+  const stream = getModelBackend().stream({ purpose: 'search', contents: prompt, webSearch: true, signal });
+
+  let text = '';
+  const groundingChunks: GroundingChunk[] = [];
+  for await (const chunk of stream) {
+      text += chunk.text;
+      groundingChunks.push(...(chunk.groundingChunks ?? []));
+      onProgress?.(parsePartialSearchResult(text));
+  }
+  return parseSearchResponse(text, groundingChunks);
+};
 
+export const searchWithGemini = async (query: string, selectedSources: string[], dateRange?: DateRange, options: SearchStreamOptions = {}): Promise<SearchResult> => {
   try {
       // First attempt: Ambitious search with abstracts
-      const ambitiousPrompt = buildPrompt(query, selectedSources, true, dateRange);
-      const response = await ai.models.generateContent({
-          model,
-          contents: ambitiousPrompt,
-          config
-      });
-      return parseAndValidateJsonResponse(response.text);
+      return await streamSearch(buildPrompt(query, selectedSources, true, dateRange), options);
   } catch (error) {
-      console.warn("Ambitious search failed, trying simplified search. Error:", error);
+      if (options.signal?.aborted) throw error;
+      const classified = classifyError(error);
+      // Abstracts make the response long enough to be cut off or garbled; other failures would recur on a retry.
+      if (!(classified instanceof ParseError)) {
+          throw classified;
+      }
+      console.warn("Ambitious search failed, trying simplified search. Error:", classified);
+      // Clear what the failed attempt streamed so the retry starts from an empty list.
+      options.onProgress?.({ summary: '', references: [] });
       try {
           // Fallback: Simplified search without abstracts
-          const simplifiedPrompt = buildPrompt(query, selectedSources, false, dateRange);
-          const response = await ai.models.generateContent({
-              model,
-              contents: simplifiedPrompt,
-              config,
-          });
-          const result = parseAndValidateJsonResponse(response.text);
+          const result = await streamSearch(buildPrompt(query, selectedSources, false, dateRange), options);
           result.summary = `(Simplified search succeeded after an initial error) ${result.summary}`;
           return result;
       } catch (finalError) {
+          if (options.signal?.aborted) throw finalError;
           console.error("Simplified search also failed:", finalError);
-          if (finalError instanceof Error && finalError.message.includes("xhr error")) {
-              throw new Error("A network communication error occurred with the AI service. This might be a temporary issue. Please try your search again shortly.");
-          }
-          throw new Error(`An error occurred during the literature search: ${finalError instanceof Error ? finalError.message : 'Unknown error'}`);
+          throw classifyError(finalError);
       }
   }
 };
 
+const formatPassageLabel = (paperNumber: number, passage: Passage): string =>
+  [`Paper ${paperNumber}`, `p. ${passage.chunk.page}`, passage.chunk.section].filter(Boolean).join(', ');
+
+const buildAnswerRequest = (originalQuery: string, selectedReferences: Reference[], history: ChatMessage[], question: string, passages: Passage[] = []) => {
+  const context = selectedReferences.map((ref, index) => 
+    `Paper ${index + 1}\nTitle: ${ref.title}\nAuthors: ${ref.authors.join(', ') || 'Not available'}\nAbstract: ${ref.abstract || 'Not available'}`
+  ).join('\n---\n');
+
+  const excerpts = passages.map(passage => {
+    const paperNumber = selectedReferences.findIndex(ref => ref.uri === passage.reference.uri) + 1;
+    return `[${formatPassageLabel(paperNumber, passage)}]\n${passage.chunk.text}`;
+  }).join('\n---\n');
+
+  const fullTextInstruction = passages.length > 0
+    ? `
+    The following excerpts from the papers' full texts were retrieved as most relevant to the latest question:
+
+    <FULL_TEXT_EXCERPTS>
+    ${excerpts}
+    </FULL_TEXT_EXCERPTS>
+
+    Whenever you use an excerpt, cite it with its bracketed label, e.g. [Paper 2, p. 5, 3 Methods].
+    `
+    : '';
+
+  const systemInstruction = `
+    You are an expert academic assistant.
+    The user is researching "${originalQuery}".
+    They have selected the following papers to focus on. Here are their details including titles and abstracts:
+
+    <CONTEXT>
+    ${context}
+    </CONTEXT>
+    ${fullTextInstruction}
+    Answer the user's questions based ONLY on the information provided above and on the earlier turns of this conversation.
+
+    If the provided context does not contain enough information to answer, state that and explain what is missing. Do not use external knowledge.
+  `;
+
+  // Earlier turns are replayed so follow-up questions can refer back to previous answers.
+  const contents: ModelMessage[] = [...history, { role: 'user' as const, text: question }].map(({ role, text }) => ({ role, text }));
+
+  return { systemInstruction, contents };
+};
+
+const rethrowEmptyAnswer = (error: unknown): never => {
+  if (error instanceof EmptyResponseError) {
+    throw new EmptyResponseError("The model could not generate an answer. Please try a different question.");
+  }
+  throw error;
+};
+
+export interface AnswerResult {
+  text: string;
+  // When the answer was first generated, if it was replayed from the response cache.
+  cachedAt?: number;
+}
+
+// Papers keep their order because the prompt numbers them; the history is included because it shapes follow-up answers.
+const answerCacheParts = (originalQuery: string, selectedReferences: Reference[], history: ChatMessage[], question: string, passages: Passage[]) => ({
+  topic: normalizeText(originalQuery),
+  references: selectedReferences.map(ref => ref.uri),
+  history: history.map(message => [message.role, message.text]),
+  question: normalizeText(question),
+  passages: passages.map(passage => [passage.reference.uri, passage.chunk.id]),
+  model: modelCacheKey('qa'),
+});
+
 export const answerFromLiterature = async (
   originalQuery: string,
   selectedReferences: Reference[],
-  question: string
-): Promise<string> => {
+  question: string,
+  history: ChatMessage[] = [],
+  passages: Passage[] = [],
+  { refresh }: { refresh?: boolean } = {}
+): Promise<AnswerResult> => {
   try {
-    const context = selectedReferences.map(ref => 
-      `Title: ${ref.title}\nAuthors: ${ref.authors.join(', ') || 'Not available'}\nAbstract: ${ref.abstract || 'Not available'}`
-    ).join('\n---\n');
+    const { systemInstruction, contents } = buildAnswerRequest(originalQuery, selectedReferences, history, question, passages);
+    const { value, cachedAt } = await withCache(
+      'answer',
+      answerCacheParts(originalQuery, selectedReferences, history, question, passages),
+      ANSWER_TTL_MS,
+      signal => getModelBackend().generate({ purpose: 'answer', contents, systemInstruction, signal }).catch(rethrowEmptyAnswer),
+      { refresh }
+    );
+    return { text: value, cachedAt };
+  } catch (error) {
+    console.error("Error answering question:", error);
+    throw classifyError(error);
+  }
+};
 
-    const prompt = `
-      You are an expert academic assistant.
-      The user is researching "${originalQuery}".
-      They have selected the following papers to focus on. Here are their details including titles and abstracts:
+export interface StreamAnswerOptions {
+  // Called with the accumulated text after every chunk.
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+  passages?: Passage[];
+  // Ignores a cached answer to the same question and stores the new one in its place.
+  refresh?: boolean;
+}
 
-      <CONTEXT>
-      ${context}
-      </CONTEXT>
+export const streamAnswerFromLiterature = async (
+  originalQuery: string,
+  selectedReferences: Reference[],
+  question: string,
+  history: ChatMessage[],
+  { onText, signal, passages = [], refresh }: StreamAnswerOptions
+): Promise<AnswerResult> => {
+  try {
+    const { systemInstruction, contents } = buildAnswerRequest(originalQuery, selectedReferences, history, question, passages);
+    const streamAnswer = async (streamSignal: AbortSignal, onProgress: (text: string) => void): Promise<string> => {
+      let text = '';
+      try {
+        for await (const chunk of getModelBackend().stream({ purpose: 'answer', contents, systemInstruction, signal: streamSignal })) {
+          text += chunk.text;
+          onProgress(text);
+        }
+      } catch (error) {
+        return rethrowEmptyAnswer(error);
+      }
+      return text;
+    };
+    const { value, cachedAt } = await withCache(
+      'answer',
+      answerCacheParts(originalQuery, selectedReferences, history, question, passages),
+      ANSWER_TTL_MS,
+      streamAnswer,
+      { refresh, signal, onProgress: onText }
+    );
+    if (cachedAt) onText(value);
+    return { text: value, cachedAt };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error answering question:", error);
+    throw classifyError(error);
+  }
+};
 
-      Based ONLY on the information provided in the context above, please answer the user's specific question: "${question}"
+export interface SummaryStreamOptions {
+  signal?: AbortSignal;
+  // Called with the accumulated summary text after every chunk.
+  onText?: (text: string) => void;
+}
 
-      If the provided context does not contain enough information to answer, state that and explain what is missing. Do not use external knowledge.
-    `;
+export const summarizeReferences = async (query: string, references: Reference[], { signal, onText }: SummaryStreamOptions = {}): Promise<string> => {
+  const context = references.map((ref, index) =>
+    `[${index + 1}] ${ref.title} (${ref.authors.join(', ') || 'Unknown authors'}, ${ref.publicationDate || 'n.d.'})\nAbstract: ${ref.abstract || 'Not available'}`
+  ).join('\n---\n');
+
+  const prompt = `
+    You are an expert research assistant.
+    The user is researching "${query}". The following papers were retrieved from academic indexes:
+
+    <CONTEXT>
+    ${context}
+    </CONTEXT>
+
+    Write a comprehensive summary that integrates insights from these papers. Base it ONLY on the context above.
+    Cite the supporting papers inline using their bracketed numbers from the context, e.g. [1] or [2][5].
+    Respond with the summary text only.
+  `;
+
+  try {
+    const stream = getModelBackend().stream({ purpose: 'summary', contents: prompt, signal });
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk.text;
+      onText?.(text);
+    }
+    return text.trim();
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+export const suggestSearchQuery = async (references: Reference[]): Promise<string> => {
+  const context = references.map(ref =>
+    `Title: ${ref.title}\nAbstract: ${ref.abstract || 'Not available'}`
+  ).join('\n---\n');
+
+  const prompt = `
+    You are an expert research assistant.
+    The user has a curated reading list of the following papers:
+
+    <CONTEXT>
+    ${context}
+    </CONTEXT>
+
+    Write one concise literature search query (at most 12 words) that would find further papers on the topic these papers share.
+    Respond with the query text only, without quotes.
+  `;
+
+  try {
+    const text = await getModelBackend().generate({ purpose: 'suggestQuery', contents: prompt });
+    return text.replace(/^["'“”]+|["'“”]+$/g, '');
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+const reviewSectionSchema = (description: string) => ({ type: Type.STRING, description });
+
+const REVIEW_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sections: {
+      type: Type.OBJECT,
+      properties: {
+        background: reviewSectionSchema('The research context and why the topic matters.'),
+        themes: reviewSectionSchema('The main themes or clusters of work, and which papers belong to each.'),
+        methods: reviewSectionSchema('How the papers\' methods, data and evaluation differ, and the trade-offs.'),
+        conflicts: reviewSectionSchema('Findings that disagree between papers, and plausible reasons why.'),
+        openQuestions: reviewSectionSchema('Gaps and open questions the papers leave unanswered.'),
+      },
+      required: ['background', 'themes', 'methods', 'conflicts', 'openQuestions'],
+    },
+    evidence: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          paper: { type: Type.INTEGER, description: 'The paper\'s bracketed number from the context.' },
+          method: { type: Type.STRING },
+          dataset: { type: Type.STRING },
+          keyResult: { type: Type.STRING },
+        },
+        required: ['paper', 'method', 'dataset', 'keyResult'],
+      },
+    },
+  },
+  required: ['sections', 'evidence'],
+};
+
+export interface ReviewOptions {
+  // The section headings in the UI language; the model only writes the section bodies.
+  headings: Record<ReviewSectionKind, string>;
+  signal?: AbortSignal;
+}
+
+export const generateLiteratureReview = async (query: string, references: Reference[], { headings, signal }: ReviewOptions): Promise<LiteratureReview> => {
+  const context = references.map((ref, index) =>
+    `[${index + 1}] ${ref.title} (${ref.authors.join(', ') || 'Unknown authors'}, ${ref.publicationDate || 'n.d.'})\nAbstract: ${ref.abstract || 'Not available'}`
+  ).join('\n---\n');
+
+  const prompt = `
+    You are an expert research assistant writing a structured literature review on "${query}".
+    Use ONLY the following papers:
+
+    <CONTEXT>
+    ${context}
+    </CONTEXT>
+
+    Write each section as one or more paragraphs separated by blank lines.
+    Every sentence that states a finding or claim must cite its supporting papers inline using their bracketed numbers from the context, e.g. [1] or [2][5].
+    Leave a section empty rather than making claims the papers do not support.
+    In the evidence table, add one row per paper describing its method, dataset or sample, and key result as stated in its abstract; write "Not reported" where the abstract does not say.
+  `;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
+  try {
+    const text = await getModelBackend().generate({ purpose: 'review', contents: prompt, responseSchema: REVIEW_SCHEMA, signal });
+    return parseReview(text, query, references, headings);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+export interface ClusterLabel {
+  label: string;
+  // A focused search query for the subtopic.
+  query: string;
+}
+
+const CLUSTER_LABEL_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      group: { type: Type.INTEGER, description: 'The group\'s number from the context.' },
+      label: { type: Type.STRING, description: 'A short name for the subtopic, at most 6 words.' },
+      query: { type: Type.STRING, description: 'A literature search query (at most 12 words) focused on this subtopic.' },
+    },
+    required: ['group', 'label', 'query'],
+  },
+};
+
+// Backends without structured output may still wrap the JSON in a code fence.
+const parseJsonResponse = (text: string, message: string): unknown => {
+  try {
+    return JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new ParseError(message, false, { cause: error });
+    throw error;
+  }
+};
+
+// Names each group of papers; the result has one entry per group, in the same order.
+export const labelClusters = async (query: string, groups: Reference[][], { signal }: { signal?: AbortSignal } = {}): Promise<ClusterLabel[]> => {
+  const context = groups.map((group, index) =>
+    `Group ${index + 1}:\n${group.map(ref => `- ${ref.title}`).join('\n')}`
+  ).join('\n---\n');
+
+  const prompt = `
+    You are an expert research assistant.
+    The user is researching "${query}". Their search results were grouped by similarity into the following groups:
+
+    <CONTEXT>
+    ${context}
+    </CONTEXT>
+
+    For every group, name the subtopic its papers share, distinguishing it from the other groups, and write a focused search query for finding more papers on it.
+    Write the labels in the same language as the research topic.
+  `;
+
+  try {
+    const text = await getModelBackend().generate({ purpose: 'clusterLabels', contents: prompt, responseSchema: CLUSTER_LABEL_SCHEMA, signal });
+    const data = parseJsonResponse(text, 'The cluster labels are not valid JSON.');
+    const labels = new Map((Array.isArray(data) ? data : []).map(item => [Number(item?.group), item]));
+    return groups.map((_, index) => {
+      const item = labels.get(index + 1);
+      if (typeof item?.label !== 'string' || !item.label.trim()) {
+        throw new ParseError(`The model did not label group ${index + 1}.`);
+      }
+      return { label: item.label.trim(), query: typeof item.query === 'string' && item.query.trim() ? item.query.trim() : item.label.trim() };
     });
-    
-    const answer = response.text;
-    if (!answer) {
-        throw new Error("The model could not generate an answer. Please try a different question.");
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+const EXPANSION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    query: { type: Type.STRING, description: 'The search query rewritten in the target language.' },
+    terms: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Established technical terms for the topic in the target language, including synonyms and abbreviations.',
+    },
+  },
+  required: ['query', 'terms'],
+};
+
+// Rewrites a query in the other language using the field's established terminology rather than a literal translation.
+export const expandQuery = async (query: string, { signal }: { signal?: AbortSignal } = {}): Promise<QueryExpansion> => {
+  const from = detectLanguage(query);
+  const to = otherLanguage(from);
+  const prompt = `
+    You are an expert research assistant helping a user search academic literature in both ${LANGUAGE_NAMES.zh} and ${LANGUAGE_NAMES.en}.
+    The user's search query, written in ${LANGUAGE_NAMES[from]}, is:
+
+    <QUERY>
+    ${query}
+    </QUERY>
+
+    Rewrite it as a literature search query in ${LANGUAGE_NAMES[to]}, using the technical terms researchers in the field actually use rather than a word-for-word translation.
+    Also list up to 8 key technical terms for the topic in ${LANGUAGE_NAMES[to]}, including common synonyms and abbreviations.
+    Respond with a JSON object with the fields "query" and "terms".
+  `;
+
+  try {
+    const text = await getModelBackend().generate({ purpose: 'expandQuery', contents: prompt, responseSchema: EXPANSION_SCHEMA, signal });
+    const data = parseJsonResponse(text, 'The query expansion is not valid JSON.') as { query?: unknown; terms?: unknown };
+    if (typeof data?.query !== 'string' || !data.query.trim()) {
+      throw new ParseError('The model did not return an expanded query.');
     }
+    const terms = Array.isArray(data.terms)
+      ? data.terms.filter((term): term is string => typeof term === 'string' && term.trim() !== '').map(term => term.trim())
+      : [];
+    return { from, to, query: data.query.trim(), terms: [...new Set(terms)] };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+export interface TranslationResult {
+  text: string;
+  cachedAt?: number;
+}
+
+// Translates an abstract or summary; citation markers such as [3] and paragraph breaks are kept in place.
+export const translateText = async (text: string, to: Language, { signal }: { signal?: AbortSignal } = {}): Promise<TranslationResult> => {
+  const prompt = `
+    You are an expert translator of academic writing.
+    Translate the following text into ${LANGUAGE_NAMES[to]}.
+    Use the established technical terms of the field, and keep well-known abbreviations and model names as they are.
+    Keep citation markers such as [1] or [2][5] exactly where they belong in the sentence, and keep the paragraph breaks.
+    Respond with the translation only, without any comment.
 
-    return answer;
+    <TEXT>
+    ${text}
+    </TEXT>
+  `;
+
+  try {
+    const { value, cachedAt } = await withCache(
+      'translation',
+      { text, to, model: modelCacheKey('search') },
+      TRANSLATION_TTL_MS,
+      async requestSignal => {
+        const translated = await getModelBackend().generate({ purpose: 'translate', contents: prompt, signal: requestSignal });
+        if (!translated.trim()) throw new EmptyResponseError('The model returned an empty translation.');
+        return translated.trim();
+      },
+      { signal }
+    );
+    return { text: value, cachedAt };
   } catch (error) {
-    console.error("Error answering question:", error);
-    throw new Error("An error occurred while communicating with the AI service. Please check your network connection.");
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+const extractionFieldSchema = (description: string) => ({ type: Type.STRING, description });
+
+const EXTRACTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    researchQuestion: extractionFieldSchema('The question or aim the paper addresses.'),
+    studyDesign: { type: Type.STRING, enum: STUDY_DESIGNS, description: 'The category that best fits the study design.' },
+    designDetail: extractionFieldSchema('The design as the paper describes it, e.g. "double-blind multicentre RCT".'),
+    sampleSize: { type: Type.INTEGER, nullable: true, description: 'The number of participants, samples or data points; null if not stated.' },
+    dataset: extractionFieldSchema('The sample, cohort or dataset, with its size if stated.'),
+    methods: extractionFieldSchema('The main methods, models or interventions.'),
+    findings: extractionFieldSchema('The main findings, with the key numbers.'),
+    limitations: extractionFieldSchema('Limitations the authors acknowledge.'),
+    futureWork: extractionFieldSchema('Future work the authors propose.'),
+  },
+  required: ['researchQuestion', 'studyDesign', 'designDetail', 'sampleSize', 'dataset', 'methods', 'findings', 'limitations', 'futureWork'],
+};
+
+// The paper's metadata and abstract, followed by any full-text passages retrieved for it.
+const paperContext = (reference: Reference, passages: Passage[]): string => {
+  const excerpts = passages.map(passage => `[${formatPassageLabel(1, passage)}]\n${passage.chunk.text}`).join('\n---\n');
+  const fullText = passages.length > 0
+    ? `
+    The following excerpts from the paper's full text were also retrieved:
+
+    <FULL_TEXT_EXCERPTS>
+    ${excerpts}
+    </FULL_TEXT_EXCERPTS>`
+    : '';
+  return `<PAPER>
+    Title: ${reference.title}
+    Authors: ${reference.authors.join(', ') || 'Not available'}
+    Published: ${reference.publicationDate || 'n.d.'}
+    Abstract: ${reference.abstract || 'Not available'}
+    </PAPER>${fullText}`;
+};
+
+export interface PaperAnalysisOptions {
+  signal?: AbortSignal;
+  // Ignores a cached result, e.g. after a full text was attached, and stores the new one in its place.
+  refresh?: boolean;
+}
+
+// Extracts a paper's structured details from its abstract, plus any full-text passages retrieved for it.
+export const extractPaperDetails = async (reference: Reference, passages: Passage[] = [], { signal, refresh }: PaperAnalysisOptions = {}): Promise<PaperExtraction> => {
+  const prompt = `
+    You are an expert research assistant extracting structured details from an academic paper.
+
+    ${paperContext(reference, passages)}
+    Use ONLY the information above; do not fill in details from your own knowledge of the paper.
+    Write each field in one or two concise sentences, in the language of the paper.
+    Leave a field as an empty string, and the sample size as null, when the text does not report it.
+  `;
+
+  try {
+    const { value } = await withCache(
+      'extraction',
+      {
+        uri: reference.uri,
+        title: reference.title,
+        abstract: reference.abstract ?? '',
+        passages: passages.map(passage => passage.chunk.id),
+        model: modelCacheKey('qa'),
+      },
+      ANSWER_TTL_MS,
+      async requestSignal => {
+        const text = await getModelBackend().generate({ purpose: 'extract', contents: prompt, responseSchema: EXTRACTION_SCHEMA, signal: requestSignal });
+        return parseExtraction(text, passages.length > 0 ? 'fullText' : 'abstract');
+      },
+      { signal, refresh }
+    );
+    return value;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+const COMPARISON_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      dimension: { type: Type.INTEGER, description: 'The dimension\'s number from the list.' },
+      text: { type: Type.STRING, description: 'What the paper reports for this dimension; empty if nothing.' },
+      missing: { type: Type.BOOLEAN, description: 'True if the paper\'s text does not report this dimension.' },
+    },
+    required: ['dimension', 'text', 'missing'],
+  },
+};
+
+// Describes one paper along the given dimensions; the papers of a comparison are asked about one at a time,
+// so every cell comes from its own paper's text. Results are keyed by dimension id.
+export const comparePaper = async (
+  reference: Reference,
+  dimensions: ComparisonDimension[],
+  passages: Passage[] = [],
+  { signal, refresh }: PaperAnalysisOptions = {}
+): Promise<Record<string, ComparisonCell>> => {
+  const dimensionList = dimensions.map((dimension, index) => `${index + 1}. ${describeDimension(dimension)}`).join('\n');
+
+  const prompt = `
+    You are an expert research assistant building a side-by-side comparison of academic papers.
+    Describe the following paper along each of the numbered dimensions.
+
+    ${paperContext(reference, passages)}
+    <DIMENSIONS>
+    ${dimensionList}
+    </DIMENSIONS>
+
+    Use ONLY the information above; do not fill in details from your own knowledge of the paper.
+    Answer every dimension in one or two concise sentences, in the language of the paper, keeping key numbers.
+    When the text does not report a dimension, set "missing" to true and leave "text" empty.
+  `;
+
+  try {
+    const { value } = await withCache(
+      'comparison',
+      {
+        uri: reference.uri,
+        title: reference.title,
+        abstract: reference.abstract ?? '',
+        dimensions: dimensions.map(describeDimension),
+        passages: passages.map(passage => passage.chunk.id),
+        model: modelCacheKey('qa'),
+      },
+      ANSWER_TTL_MS,
+      async requestSignal => {
+        const text = await getModelBackend().generate({ purpose: 'compare', contents: prompt, responseSchema: COMPARISON_SCHEMA, signal: requestSignal });
+        return parseComparisonCells(text, dimensions);
+      },
+      { signal, refresh }
+    );
+    return value;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw classifyError(error);
+  }
+};
+
+// Returns one embedding per input text, using the embedding model of the configured backend.
+export const embedTexts = async (texts: string[], taskType: EmbeddingTaskType): Promise<number[][]> => {
+  try {
+    return await getModelBackend().embed(texts, taskType);
+  } catch (error) {
+    throw classifyError(error);
   }
 };
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { Language } from '../types';
+
+// Names used in prompts.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    zh: 'Simplified Chinese',
+    en: 'English',
+};
+
+// Text counts as Chinese once a fifth of its letters are CJK characters; technical terms are often mixed in.
+export const detectLanguage = (text: string): Language => {
+    const cjk = text.match(/[\u4e00-\u9fff]/g)?.length ?? 0;
+    const latin = text.match(/[a-z]/gi)?.length ?? 0;
+    return cjk > 0 && cjk >= (cjk + latin) * 0.2 ? 'zh' : 'en';
+};
+
+export const otherLanguage = (language: Language): Language => (language === 'zh' ? 'en' : 'zh');
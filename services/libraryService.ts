@@ -0,0 +1,86 @@
+import type { LibraryCollection, LibraryEntry, Reference } from '../types';
+import { STORES, deleteOne, getAll, getOne, putMany, putOne } from './db';
+import { isSameWork, mergeReferences } from './deduplication';
+
+const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listEntries = async (): Promise<LibraryEntry[]> => {
+    const entries = await getAll<LibraryEntry>(STORES.libraryEntries);
+    return entries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const listCollections = async (): Promise<LibraryCollection[]> => {
+    const collections = await getAll<LibraryCollection>(STORES.collections);
+    return collections.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// The entry for the same work, saved under this uri or found as a duplicate (e.g. its preprint).
+const findExistingEntry = async (reference: Reference): Promise<LibraryEntry | undefined> =>
+    await getOne<LibraryEntry>(STORES.libraryEntries, reference.uri)
+        ?? (await getAll<LibraryEntry>(STORES.libraryEntries)).find(entry => isSameWork(entry.reference, reference));
+
+// Saving a paper that is already in the library merges in the new metadata and adds the collection,
+// but keeps the user's notes, tags and reading status.
+export const saveReference = async (reference: Reference, sourceQuery: string, collectionId?: string): Promise<LibraryEntry> => {
+    const existing = await findExistingEntry(reference);
+    const now = Date.now();
+    const entry: LibraryEntry = existing
+        ? {
+            ...existing,
+            reference: mergeReferences([existing.reference, reference]),
+            collectionIds: collectionId && !existing.collectionIds.includes(collectionId)
+                ? [...existing.collectionIds, collectionId]
+                : existing.collectionIds,
+            updatedAt: now,
+        }
+        : {
+            id: reference.uri,
+            reference,
+            collectionIds: collectionId ? [collectionId] : [],
+            tags: [],
+            notes: '',
+            readingStatus: 'unread',
+            sourceQuery,
+            savedAt: now,
+            updatedAt: now,
+        };
+    await putOne(STORES.libraryEntries, entry);
+    return entry;
+};
+
+export const updateEntry = async (id: string, changes: Partial<Pick<LibraryEntry, 'collectionIds' | 'tags' | 'notes' | 'readingStatus'>>): Promise<LibraryEntry> => {
+    const existing = await getOne<LibraryEntry>(STORES.libraryEntries, id);
+    if (!existing) {
+        throw new Error('This paper is no longer in the library.');
+    }
+    const entry: LibraryEntry = { ...existing, ...changes, updatedAt: Date.now() };
+    await putOne(STORES.libraryEntries, entry);
+    return entry;
+};
+
+export const removeEntry = (id: string): Promise<void> => deleteOne(STORES.libraryEntries, id);
+
+export const createCollection = async (name: string): Promise<LibraryCollection> => {
+    const collection: LibraryCollection = { id: createId(), name: name.trim(), createdAt: Date.now() };
+    await putOne(STORES.collections, collection);
+    return collection;
+};
+
+export const renameCollection = async (collection: LibraryCollection, name: string): Promise<LibraryCollection> => {
+    const renamed = { ...collection, name: name.trim() };
+    await putOne(STORES.collections, renamed);
+    return renamed;
+};
+
+// Deleting a collection keeps its papers in the library; they are only unfiled from it.
+export const deleteCollection = async (id: string): Promise<void> => {
+    const entries = await getAll<LibraryEntry>(STORES.libraryEntries);
+    const affected = entries
+        .filter(entry => entry.collectionIds.includes(id))
+        .map(entry => ({ ...entry, collectionIds: entry.collectionIds.filter(cid => cid !== id) }));
+    await putMany(STORES.libraryEntries, affected);
+    await deleteOne(STORES.collections, id);
+};
@@ -0,0 +1,154 @@
+import type { EvidenceRow, LiteratureReview, Reference, ReviewSection, ReviewSectionKind } from '../types';
+import { splitCitations } from './citations';
+import { formatMarkdownEntry } from './bibliography/markdown';
+import { EmptyResponseError, ParseError } from './errors';
+import { repairJson } from './resultSchema';
+
+export const REVIEW_SECTIONS: ReviewSectionKind[] = ['background', 'themes', 'methods', 'conflicts', 'openQuestions'];
+
+export type EvidenceColumn = Exclude<keyof EvidenceRow, 'paper'>;
+
+export const EVIDENCE_COLUMNS: EvidenceColumn[] = ['method', 'dataset', 'keyResult'];
+
+// The headings and labels of an exported review, in the language of the UI it was exported from.
+export interface ReviewExportLabels {
+    lang: string;
+    title: (topic: string) => string;
+    paper: string;
+    columns: Record<EvidenceColumn, string>;
+    evidence: string;
+    references: string;
+}
+
+const text = (raw: unknown): string => (typeof raw === 'string' ? raw.trim() : '');
+
+// Removes markers pointing outside the review's references, so every remaining [n] resolves.
+const keepValidCitations = (body: string, count: number): string =>
+    splitCitations(body).map(segment => {
+        if (segment.type === 'text') return segment.text;
+        return segment.indices.filter(index => index >= 0 && index < count).map(index => `[${index + 1}]`).join('');
+    }).join('');
+
+/**
+ * Parses the model's review JSON. Sections come back in the fixed order of REVIEW_SECTIONS whatever
+ * order the model used, titled with `headings`; evidence rows for papers outside `references` are dropped.
+ */
+export const parseReview = (raw: string, topic: string, references: Reference[], headings: Record<ReviewSectionKind, string>): LiteratureReview => {
+    const sanitized = raw.replace(/```(?:json)?/gi, '').trim();
+    if (!sanitized) {
+        throw new EmptyResponseError('The model returned an empty review.');
+    }
+    const { json, truncated } = repairJson(sanitized);
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new ParseError(`The review is not valid JSON${truncated ? ' (it appears to be cut off)' : ''}.`, truncated, { cause: error });
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new ParseError('The review is not a JSON object.', truncated);
+    }
+
+    const record = data as Record<string, unknown>;
+    const rawSections = record.sections && typeof record.sections === 'object' ? record.sections as Record<string, unknown> : {};
+    const sections: ReviewSection[] = REVIEW_SECTIONS.map(kind => ({
+        kind,
+        heading: headings[kind],
+        body: keepValidCitations(text(rawSections[kind]), references.length),
+    }));
+    if (sections.every(section => !section.body)) {
+        throw new ParseError('The review does not contain any of the expected sections.', truncated);
+    }
+
+    const evidence: EvidenceRow[] = (Array.isArray(record.evidence) ? record.evidence : [])
+        .map(row => (row && typeof row === 'object' ? row as Record<string, unknown> : {}))
+        .map(row => ({
+            paper: Number(row.paper),
+            method: text(row.method),
+            dataset: text(row.dataset),
+            keyResult: keepValidCitations(text(row.keyResult), references.length),
+        }))
+        .filter(row => Number.isInteger(row.paper) && row.paper >= 1 && row.paper <= references.length);
+
+    return { topic, sections, evidence, references, createdAt: Date.now() };
+};
+
+const paragraphsOf = (body: string): string[] => body.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+// Paragraphs with no citation marker at all; shown as warnings since every claim should be cited.
+export const uncitedParagraphs = (body: string): string[] =>
+    paragraphsOf(body).filter(paragraph => !splitCitations(paragraph).some(segment => segment.type === 'citation'));
+
+const escapeTableCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || '—';
+
+export const reviewToMarkdown = (review: LiteratureReview, labels: ReviewExportLabels): string => {
+    const parts = [`# ${labels.title(review.topic)}`];
+    review.sections.filter(section => section.body.trim()).forEach(section => {
+        parts.push(`## ${section.heading}\n\n${paragraphsOf(section.body).join('\n\n')}`);
+    });
+    if (review.evidence.length > 0) {
+        const header = [labels.paper, ...EVIDENCE_COLUMNS.map(column => labels.columns[column])].map(escapeTableCell);
+        const rows = review.evidence.map(row => [`[${row.paper}]`, ...EVIDENCE_COLUMNS.map(column => escapeTableCell(row[column]))]);
+        const table = [header, header.map(() => '---'), ...rows].map(cells => `| ${cells.join(' | ')} |`).join('\n');
+        parts.push(`## ${labels.evidence}\n\n${table}`);
+    }
+    parts.push(`## ${labels.references}\n\n${review.references.map((ref, index) => `[${index + 1}] ${formatMarkdownEntry(ref)}`).join('\n\n')}`);
+    return parts.join('\n\n') + '\n';
+};
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Citation markers become links to the matching bibliography entry.
+const citedHtml = (value: string): string =>
+    splitCitations(value).map(segment => segment.type === 'text'
+        ? escapeHtml(segment.text)
+        : segment.indices.map(index => `<a href="#ref-${index + 1}">[${index + 1}]</a>`).join('')
+    ).join('');
+
+const formatHtmlEntry = (ref: Reference): string => {
+    const link = ref.doi ? `https://doi.org/${ref.doi}` : ref.uri;
+    const year = ref.publicationDate.slice(0, 4) || 'n.d.';
+    return [
+        ref.authors.length > 0 ? `${escapeHtml(ref.authors.join(', '))} (${year}).` : `(${year}).`,
+        `${escapeHtml(ref.title.replace(/\.$/, ''))}.`,
+        ref.venue ? `<em>${escapeHtml(ref.venue)}</em>.` : '',
+        `<a href="${escapeHtml(link)}">${escapeHtml(link)}</a>`,
+    ].filter(Boolean).join(' ');
+};
+
+// A standalone page with minimal styling, ready to open in a browser or paste into a word processor.
+export const reviewToHtml = (review: LiteratureReview, labels: ReviewExportLabels): string => {
+    const title = escapeHtml(labels.title(review.topic));
+    const body: string[] = [`<h1>${title}</h1>`];
+    review.sections.filter(section => section.body.trim()).forEach(section => {
+        body.push(`<h2>${escapeHtml(section.heading)}</h2>`);
+        body.push(...paragraphsOf(section.body).map(paragraph => `<p>${citedHtml(paragraph)}</p>`));
+    });
+    if (review.evidence.length > 0) {
+        const header = [labels.paper, ...EVIDENCE_COLUMNS.map(column => labels.columns[column])].map(label => `<th>${escapeHtml(label)}</th>`).join('');
+        const rows = review.evidence.map(row =>
+            `<tr><td><a href="#ref-${row.paper}">[${row.paper}]</a></td>${EVIDENCE_COLUMNS.map(column => `<td>${citedHtml(row[column])}</td>`).join('')}</tr>`
+        ).join('\n');
+        body.push(`<h2>${escapeHtml(labels.evidence)}</h2>\n<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`);
+    }
+    body.push(`<h2>${escapeHtml(labels.references)}</h2>\n<ol>\n${review.references.map((ref, index) => `<li id="ref-${index + 1}">${formatHtmlEntry(ref)}</li>`).join('\n')}\n</ol>`);
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(labels.lang)}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; line-height: 1.6; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+a { color: #1d4ed8; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
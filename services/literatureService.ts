@@ -0,0 +1,187 @@
+import type { DateRange, Reference, SearchResult, SearchWarning } from '../types';
+import { PROVIDERS, routeSources } from './providers';
+import type { LiteratureProvider, ProviderResult } from './providers';
+import { summarizeReferences } from './geminiService';
+import { verifyReferences } from './verificationService';
+import { remapCitations } from './citations';
+import { classifyError } from './errors';
+import { dedupeReferences } from './deduplication';
+import { getSettings, modelCacheKey } from './settingsService';
+import { SEARCH_TTL_MS, normalizeText, withCache } from './responseCache';
+import { MAX_PARALLEL_WINDOWS } from './dateWindows';
+
+// Interleaves the providers' ranked lists so that no single index crowds the top of the merged list.
+const interleave = (lists: Reference[][]): Reference[] => {
+    const merged: Reference[] = [];
+    const longest = Math.max(0, ...lists.map(list => list.length));
+    for (let i = 0; i < longest; i++) {
+        for (const list of lists) {
+            if (list[i]) merged.push(list[i]);
+        }
+    }
+    return merged;
+};
+
+export type SearchStage = 'searching' | 'verifying' | 'summarizing';
+
+export interface SearchProgress {
+    stage: SearchStage;
+    // Citation markers refer to positions in `references`; empty until a summary is being written.
+    summary: string;
+    references: Reference[];
+}
+
+export interface SearchOptions {
+    verify?: boolean;
+    // Drops references no resolver could find, so they never reach the summary.
+    dropUnresolvable?: boolean;
+    // Aborting stops every provider request and any summary still being generated.
+    signal?: AbortSignal;
+    // Ignores a cached result for the same search and stores the new one in its place.
+    refresh?: boolean;
+    onProgress?: (progress: SearchProgress) => void;
+}
+
+interface SearchTask {
+    provider: LiteratureProvider;
+    sources: string[];
+    window?: DateRange;
+    windowIndex: number;
+}
+
+// Interleaves the providers within each window, then lists the windows in the order given (newest first).
+const combine = (tasks: SearchTask[], lists: Reference[][]): Reference[] => {
+    const windowCount = Math.max(0, ...tasks.map(task => task.windowIndex + 1));
+    const byWindow = Array.from({ length: windowCount }, (_, windowIndex) =>
+        interleave(lists.filter((_, index) => tasks[index].windowIndex === windowIndex))
+    );
+    return dedupeReferences(byWindow.flat());
+};
+
+export const searchLiterature = (query: string, selectedSources: string[], dateRange?: DateRange, options: SearchOptions = {}): Promise<SearchResult> =>
+    searchDateWindows(query, selectedSources, dateRange ? [dateRange] : [], options);
+
+/**
+ * Searches every date window with every routed provider, MAX_PARALLEL_WINDOWS windows at a time, and
+ * merges the results into one list with one summary. Each reference is tagged with the window that
+ * found it. Results are cached per normalized query, sources, windows and model settings, so
+ * repeating a search replays it.
+ */
+export const searchDateWindows = async (query: string, selectedSources: string[], windows: DateRange[], options: SearchOptions = {}): Promise<SearchResult> => {
+    const parts = {
+        query: normalizeText(query),
+        sources: [...selectedSources].sort(),
+        windows: windows.map(({ startYear, endYear }) => [startYear, endYear ?? null]),
+        verify: Boolean(options.verify),
+        dropUnresolvable: Boolean(options.dropUnresolvable),
+        model: modelCacheKey('search'),
+        resultCount: getSettings().resultCount,
+    };
+    const { value, cachedAt } = await withCache<SearchResult, SearchProgress>(
+        'search',
+        parts,
+        // A degraded result would otherwise be replayed for a day after the failure has cleared.
+        result => (result.warnings ? 0 : SEARCH_TTL_MS),
+        (signal, onProgress) => runSearch(query, selectedSources, windows, { ...options, signal, onProgress }),
+        options
+    );
+    return cachedAt ? { ...value, cachedAt } : value;
+};
+
+const runSearch = async (query: string, selectedSources: string[], windows: DateRange[], options: SearchOptions): Promise<SearchResult> => {
+    // With nothing selected, fall back to the model's broad search as before.
+    const routes = selectedSources.length > 0
+        ? routeSources(selectedSources)
+        : [{ provider: PROVIDERS[0], sources: [] }];
+    const windowList: (DateRange | undefined)[] = windows.length > 0 ? windows : [undefined];
+    const tasks: SearchTask[] = windowList.flatMap((window, windowIndex) => routes.map(route => ({ ...route, window, windowIndex })));
+    const tagWindow = (task: SearchTask, references: Reference[]) =>
+        task.window ? references.map(ref => ({ ...ref, searchWindow: task.window })) : references;
+
+    const { signal, onProgress } = options;
+    // Partial results per task, merged the same way as the final ones so the list does not reorder at the end.
+    const partials: Reference[][] = tasks.map(() => []);
+    const reportPartial = (index: number, partial: ProviderResult) => {
+        partials[index] = tagWindow(tasks[index], partial.references);
+        onProgress?.({
+            stage: 'searching',
+            // A model summary is only shown while it streams if nothing else will be merged into its references.
+            summary: tasks.length === 1 ? partial.summary ?? '' : '',
+            references: combine(tasks, partials),
+        });
+    };
+
+    const runTask = (task: SearchTask, index: number) =>
+        task.provider.search(query, {
+            sources: task.sources,
+            dateRange: task.window,
+            maxResults: getSettings().resultCount,
+            signal,
+            onProgress: partial => reportPartial(index, partial),
+        }).then(result => {
+            reportPartial(index, result);
+            return { ...result, references: tagWindow(task, result.references) };
+        });
+
+    // Tasks are ordered by window, so each batch covers at most MAX_PARALLEL_WINDOWS windows with every provider.
+    const batchSize = MAX_PARALLEL_WINDOWS * routes.length;
+    const settled: PromiseSettledResult<ProviderResult>[] = [];
+    for (let start = 0; start < tasks.length; start += batchSize) {
+        settled.push(...await Promise.allSettled(tasks.slice(start, start + batchSize).map((task, offset) => runTask(task, start + offset))));
+        signal?.throwIfAborted();
+    }
+
+    const results: ProviderResult[] = [];
+    const failures: unknown[] = [];
+    const warnings: SearchWarning[] = [];
+    settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+            results.push(outcome.value);
+        } else {
+            const { provider, sources, window } = tasks[index];
+            failures.push(outcome.reason);
+            warnings.push({ kind: 'provider', sources: sources.length > 0 ? sources : provider.sources, window, error: classifyError(outcome.reason).message });
+            results.push({ references: [] });
+        }
+    });
+
+    if (failures.length === tasks.length) {
+        throw classifyError(failures[0]);
+    }
+
+    const merged = combine(tasks, results.map(result => result.references));
+    const shouldVerify = options.verify || options.dropUnresolvable;
+    if (shouldVerify) onProgress?.({ stage: 'verifying', summary: '', references: merged });
+    const indexedURIs = new Set(results.flatMap((result, index) => (tasks[index].provider.indexed ? result.references.map(ref => ref.uri) : [])));
+    const checked = shouldVerify ? await verifyReferences(merged, indexedURIs) : merged;
+    signal?.throwIfAborted();
+    const references = options.dropUnresolvable
+        ? checked.filter(ref => ref.verification?.status !== 'unresolvable')
+        : checked;
+
+    const groundingChunks = results.flatMap(result => result.groundingChunks ?? []);
+    const modelResult = results.find(result => result.summary);
+    const modelSummary = modelResult?.summary
+        ? remapCitations(modelResult.summary, modelResult.references, references)
+        : undefined;
+    const withWarnings = (result: SearchResult): SearchResult => (warnings.length > 0 ? { ...result, warnings } : result);
+    const onlyModelResults = tasks.length - failures.length === 1 && modelSummary && references.length === merged.length;
+    if (onlyModelResults || references.length === 0) {
+        return withWarnings({ summary: modelSummary || '', references, groundingChunks });
+    }
+
+    // The model's summary only covers its own references, so summarize the merged set instead.
+    onProgress?.({ stage: 'summarizing', summary: '', references });
+    try {
+        const summary = await summarizeReferences(query, references, {
+            signal,
+            onText: text => onProgress?.({ stage: 'summarizing', summary: text, references }),
+        });
+        return withWarnings({ summary, references, groundingChunks });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        // An empty summary leaves the summarize button in place, so the user can try again.
+        warnings.push({ kind: 'summary', error: classifyError(error).message });
+        return withWarnings({ summary: modelSummary || '', references, groundingChunks });
+    }
+};
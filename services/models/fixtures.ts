@@ -0,0 +1,148 @@
+import type { GroundingChunk } from '../../types';
+import type { ModelPurpose } from './types';
+
+// A small, fixed result set so that every screen has realistic data in the offline mock mode.
+const FIXTURE_REFERENCES = [
+    {
+        title: 'Attention Is All You Need',
+        authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar', 'Jakob Uszkoreit', 'Llion Jones', 'Aidan N. Gomez', 'Lukasz Kaiser', 'Illia Polosukhin'],
+        publicationDate: '2017-06-12',
+        abstract: 'Introduces the Transformer, a sequence transduction architecture built entirely on attention, which outperforms recurrent and convolutional models on WMT 2014 English-German and English-French translation while training considerably faster.',
+        uri: 'https://arxiv.org/abs/1706.03762',
+    },
+    {
+        title: 'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+        authors: ['Jacob Devlin', 'Ming-Wei Chang', 'Kenton Lee', 'Kristina Toutanova'],
+        publicationDate: '2018-10-11',
+        abstract: 'Pre-trains a bidirectional Transformer encoder with masked language modelling and next-sentence prediction on BooksCorpus and English Wikipedia; fine-tuning sets new results on GLUE, SQuAD and SWAG.',
+        uri: 'https://arxiv.org/abs/1810.04805',
+    },
+    {
+        title: 'RoBERTa: A Robustly Optimized BERT Pretraining Approach',
+        authors: ['Yinhan Liu', 'Myle Ott', 'Naman Goyal', 'Jingfei Du', 'Mandar Joshi', 'Danqi Chen', 'Omer Levy', 'Mike Lewis', 'Luke Zettlemoyer', 'Veselin Stoyanov'],
+        publicationDate: '2019-07-26',
+        abstract: 'A replication study of BERT showing it was undertrained; longer training on more data, larger batches and dropping next-sentence prediction match or exceed later models on GLUE, RACE and SQuAD.',
+        uri: 'https://arxiv.org/abs/1907.11692',
+    },
+    {
+        title: 'Exploring the Limits of Transfer Learning with a Unified Text-to-Text Transformer',
+        authors: ['Colin Raffel', 'Noam Shazeer', 'Adam Roberts', 'Katherine Lee', 'Sharan Narang', 'Michael Matena', 'Yanqi Zhou', 'Wei Li', 'Peter J. Liu'],
+        publicationDate: '2019-10-23',
+        abstract: 'Casts every NLP task as text-to-text and systematically compares pre-training objectives, architectures and datasets, using the new C4 corpus; the resulting T5 models reach state of the art on many benchmarks.',
+        uri: 'https://arxiv.org/abs/1910.10683',
+    },
+    {
+        title: 'Scaling Laws for Neural Language Models',
+        authors: ['Jared Kaplan', 'Sam McCandlish', 'Tom Henighan', 'Tom B. Brown', 'Benjamin Chess', 'Rewon Child', 'Scott Gray', 'Alec Radford', 'Jeffrey Wu', 'Dario Amodei'],
+        publicationDate: '2020-01-23',
+        abstract: 'Finds that language-model loss follows power laws in model size, dataset size and compute over several orders of magnitude, implying that large models trained on modest data are most compute-efficient.',
+        uri: 'https://arxiv.org/abs/2001.08361',
+    },
+    {
+        title: 'Longformer: The Long-Document Transformer',
+        authors: ['Iz Beltagy', 'Matthew E. Peters', 'Arman Cohan'],
+        publicationDate: '2020-04-10',
+        abstract: 'Replaces full self-attention with a combination of local windowed and global attention that scales linearly with sequence length, improving results on long-document tasks such as WikiHop and TriviaQA.',
+        uri: 'https://arxiv.org/abs/2004.05150',
+    },
+    {
+        title: 'Language Models are Few-Shot Learners',
+        authors: ['Tom B. Brown', 'Benjamin Mann', 'Nick Ryder', 'Melanie Subbiah', 'Jared Kaplan', 'Prafulla Dhariwal'],
+        publicationDate: '2020-05-28',
+        abstract: 'Trains GPT-3, a 175-billion-parameter autoregressive model, and shows strong few-shot performance from in-context examples alone across translation, question answering and cloze tasks, without gradient updates.',
+        uri: 'https://arxiv.org/abs/2005.14165',
+    },
+    {
+        title: 'An Image is Worth 16x16 Words: Transformers for Image Recognition at Scale',
+        authors: ['Alexey Dosovitskiy', 'Lucas Beyer', 'Alexander Kolesnikov', 'Dirk Weissenborn', 'Xiaohua Zhai', 'Thomas Unterthiner'],
+        publicationDate: '2020-10-22',
+        abstract: 'Applies a standard Transformer directly to sequences of image patches; pre-trained on large datasets such as JFT-300M, the Vision Transformer matches or beats convolutional networks on ImageNet with less training compute.',
+        uri: 'https://arxiv.org/abs/2010.11929',
+    },
+];
+
+const FIXTURE_SUMMARY = [
+    '(Offline mock response) The Transformer replaced recurrence with self-attention and became the basis of modern language models [1].',
+    'Pre-training a bidirectional encoder and fine-tuning it per task set new results on understanding benchmarks [2], and a careful replication showed that longer training on more data improves it further [3].',
+    'A unified text-to-text formulation allowed objectives and datasets to be compared systematically [4].',
+    'Loss falls predictably with model size, data and compute [5], which motivated very large autoregressive models capable of few-shot learning [7].',
+    'Efficient attention variants extend the architecture to long documents [6], and the same design transfers to image recognition [8].',
+].join(' ');
+
+const FIXTURE_ANSWER = [
+    '(Offline mock response) Based on the selected papers, the main difference lies in how they are pre-trained: BERT uses a masked-language-model objective on an encoder [Paper 1], while the other work adapts the architecture or the training recipe [Paper 2].',
+    '',
+    'The abstracts do not report enough detail to compare their computational cost directly.',
+].join('\n');
+
+const FIXTURE_REVIEW = {
+    sections: {
+        background: '(Offline mock response) Attention-based architectures replaced recurrent sequence models for language tasks [1].\n\nLarge-scale pre-training followed by fine-tuning became the dominant recipe [2].',
+        themes: 'One line of work improves pre-training objectives and data [2][3]; another studies how performance scales with model size [5][7].',
+        methods: 'Encoder-only models are fine-tuned per task [2][3], whereas autoregressive models are prompted with in-context examples [7].',
+        conflicts: 'Whether more data or larger models give the bigger gain is disputed: one study argues BERT was undertrained [3], while scaling results favour larger models on modest data [5].',
+        openQuestions: 'Efficient attention for long inputs remains open [6], as does how well the architecture transfers beyond text [8].',
+    },
+    evidence: FIXTURE_REFERENCES.map((ref, index) => ({
+        paper: index + 1,
+        method: 'Transformer',
+        dataset: 'Not reported',
+        keyResult: ref.abstract.split(/[,;]/)[0],
+    })),
+};
+
+const FIXTURE_CLUSTER_LABELS = [
+    ['Pre-training objectives', 'masked language model pre-training objectives'],
+    ['Scaling and few-shot learning', 'language model scaling laws few-shot learning'],
+    ['Efficient attention', 'efficient attention long sequences'],
+    ['Transformers beyond text', 'vision transformer image recognition'],
+    ['Transfer learning', 'transfer learning text-to-text transformer'],
+    ['Model architecture', 'transformer architecture variants'],
+    ['Benchmarks and evaluation', 'language understanding benchmarks evaluation'],
+    ['Training data', 'pre-training corpora data quality'],
+].map(([label, query], index) => ({ group: index + 1, label, query }));
+
+const FIXTURE_EXTRACTION = {
+    researchQuestion: '(Offline mock response) Can a sequence model built on attention alone match recurrent models on machine translation?',
+    studyDesign: 'experimental',
+    designDetail: 'Benchmark comparison against recurrent and convolutional baselines',
+    sampleSize: 4500000,
+    dataset: 'WMT 2014 English-German (about 4.5 million sentence pairs)',
+    methods: 'Encoder-decoder Transformer with multi-head self-attention, trained on 8 GPUs',
+    findings: 'Reaches 28.4 BLEU on English-German, above the previous best, at a fraction of the training cost.',
+    limitations: 'Not reported',
+    futureWork: 'Apply attention to other modalities and to long inputs such as images and audio.',
+};
+
+// Answers by position, so any choice of dimensions gets cells; the third is reported as missing.
+const FIXTURE_COMPARISON = [
+    '(Offline mock response) Transformer encoder pre-trained on unlabelled text, then fine-tuned per task',
+    'English Wikipedia and BooksCorpus for pre-training; GLUE and SQuAD for evaluation',
+    '',
+    'Improves on the previous best results on most of the evaluated benchmarks',
+    'Pre-training at scale transfers well to downstream tasks',
+    'Not described in the abstract',
+    'Not described in the abstract',
+    'Not described in the abstract',
+].map((text, index) => ({ dimension: index + 1, text, missing: !text || text.startsWith('Not described') }));
+
+// Responses are fixed per purpose, so the same action always replays the same text.
+export const MOCK_FIXTURES: Record<ModelPurpose, string> = {
+    search: JSON.stringify({ summary: FIXTURE_SUMMARY, references: FIXTURE_REFERENCES }, null, 2),
+    summary: FIXTURE_SUMMARY,
+    suggestQuery: 'transformer language model pre-training',
+    clusterLabels: JSON.stringify(FIXTURE_CLUSTER_LABELS),
+    answer: FIXTURE_ANSWER,
+    review: JSON.stringify(FIXTURE_REVIEW),
+    expandQuery: JSON.stringify({
+        query: 'transformer language model pre-training',
+        terms: ['Transformer', 'self-attention', 'pre-trained language model', 'PLM', 'masked language modeling', 'fine-tuning'],
+    }),
+    translate: '（离线演示译文）Transformer 完全基于注意力机制，取代了循环结构，并成为现代语言模型的基础 [1]。',
+    extract: JSON.stringify(FIXTURE_EXTRACTION),
+    compare: JSON.stringify(FIXTURE_COMPARISON),
+};
+
+export const MOCK_GROUNDING_CHUNKS: GroundingChunk[] = [
+    { web: { uri: 'https://arxiv.org/list/cs.CL/recent', title: 'arXiv cs.CL (mock source)' } },
+];
@@ -0,0 +1,75 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import type { GroundingChunk } from '../../types';
+import type { BackendOptions, GenerateRequest, ModelBackend } from './types';
+import { PURPOSE_TASKS } from './types';
+import { assertResponseText, ConfigurationError, EmptyResponseError } from '../errors';
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+const extractGroundingChunks = (response: GenerateContentResponse): GroundingChunk[] => {
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+    return chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ web: { uri: chunk.web!.uri!, title: chunk.web!.title || chunk.web!.uri! } }));
+};
+
+export const createGeminiBackend = ({ apiKey, baseUrl, models, temperature }: BackendOptions): ModelBackend => {
+    if (!apiKey) {
+        throw new ConfigurationError('No Gemini API key is set. Enter one in the settings, or switch to the offline mock mode.');
+    }
+    // Without a base URL the SDK talks to Google's endpoint; setting one routes requests through a proxy.
+    const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+
+    const toRequest = (request: GenerateRequest) => {
+        const config: GenerateContentConfig = { systemInstruction: request.systemInstruction, temperature, abortSignal: request.signal };
+        if (request.webSearch) config.tools = [{ googleSearch: {} }];
+        if (request.responseSchema) {
+            config.responseMimeType = 'application/json';
+            config.responseSchema = request.responseSchema;
+        }
+        const contents = typeof request.contents === 'string'
+            ? request.contents
+            : request.contents.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+        return { model: models[PURPOSE_TASKS[request.purpose]], contents, config };
+    };
+
+    return {
+        id: 'gemini',
+        generate: async request => assertResponseText(await ai.models.generateContent(toRequest(request))),
+        stream: async function* (request) {
+            const stream = await ai.models.generateContentStream(toRequest(request));
+            let hasText = false;
+            let last: GenerateContentResponse | undefined;
+            for await (const chunk of stream) {
+                last = chunk;
+                hasText ||= Boolean(chunk.text?.trim());
+                // Grounding metadata usually arrives with the final chunk, but collect it from every chunk to be safe.
+                yield { text: chunk.text ?? '', groundingChunks: extractGroundingChunks(chunk) };
+            }
+            // Let the final chunk explain a safety stop; otherwise report an empty response.
+            if (!hasText) {
+                if (last) assertResponseText(last);
+                throw new EmptyResponseError();
+            }
+        },
+        embed: async (texts, taskType) => {
+            const embeddings: number[][] = [];
+            // Batches stay under the API's per-request limit.
+            for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+                const response = await ai.models.embedContent({
+                    model: models.embedding,
+                    contents: batch,
+                    config: { taskType },
+                });
+                const values = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+                if (values.length !== batch.length) {
+                    throw new EmptyResponseError("The embedding service returned fewer embeddings than requested.");
+                }
+                embeddings.push(...values);
+            }
+            return embeddings;
+        },
+    };
+};
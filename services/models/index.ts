@@ -0,0 +1,32 @@
+import type { ModelSettings } from '../../types';
+import type { ModelBackend } from './types';
+import { getSettings } from '../settingsService';
+import { createGeminiBackend } from './geminiBackend';
+import { createOpenAiBackend } from './openAiBackend';
+import { createMockBackend } from './mockBackend';
+
+export type { EmbeddingTaskType, GenerateChunk, GenerateRequest, ModelBackend, ModelMessage, ModelPurpose } from './types';
+
+let cached: { key: string; backend: ModelBackend } | null = null;
+
+const createBackend = (settings: ModelSettings): ModelBackend => {
+    const options = { temperature: settings.temperature };
+    switch (settings.backend) {
+        case 'gemini':
+            // A key supplied at build time is used until one is entered in the settings.
+            return createGeminiBackend({ ...options, ...settings.gemini, apiKey: settings.gemini.apiKey || process.env.API_KEY || '' });
+        case 'openai':
+            return createOpenAiBackend({ ...options, ...settings.openai });
+        case 'mock':
+            return createMockBackend();
+    }
+};
+
+// Returns the backend for the current settings, rebuilding it only after they change.
+export const getModelBackend = (settings: ModelSettings = getSettings()): ModelBackend => {
+    const key = JSON.stringify(settings);
+    if (cached?.key !== key) {
+        cached = { key, backend: createBackend(settings) };
+    }
+    return cached.backend;
+};
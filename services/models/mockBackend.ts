@@ -0,0 +1,63 @@
+import type { ModelBackend } from './types';
+import { MOCK_FIXTURES, MOCK_GROUNDING_CHUNKS } from './fixtures';
+
+const EMBEDDING_DIMENSIONS = 256;
+const STREAM_CHUNK_LENGTH = 40;
+const STREAM_DELAY_MS = 15;
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// FNV-1a: a cheap, stable string hash, so the same token always lands in the same dimension.
+const hashToken = (token: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// A hashed bag of words: texts sharing words get similar vectors, which is enough for clustering and ranking demos.
+const embedText = (text: string): number[] => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+|[\u4e00-\u9fff]/g) ?? [];
+    for (const token of tokens) {
+        vector[hashToken(token) % EMBEDDING_DIMENSIONS] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+};
+
+/**
+ * Replays fixed responses without a key or network access, so the whole UI can be developed and
+ * demonstrated offline. Only the model calls are mocked; index sources and verification still fetch.
+ */
+export const createMockBackend = (): ModelBackend => ({
+    id: 'mock',
+    generate: async request => {
+        await delay(STREAM_DELAY_MS, request.signal);
+        return MOCK_FIXTURES[request.purpose];
+    },
+    stream: async function* (request) {
+        const text = MOCK_FIXTURES[request.purpose];
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_LENGTH) {
+            await delay(STREAM_DELAY_MS, request.signal);
+            const isLast = i + STREAM_CHUNK_LENGTH >= text.length;
+            yield {
+                text: text.slice(i, i + STREAM_CHUNK_LENGTH),
+                groundingChunks: isLast && request.webSearch ? MOCK_GROUNDING_CHUNKS : [],
+            };
+        }
+    },
+    embed: async texts => texts.map(embedText),
+});
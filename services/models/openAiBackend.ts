@@ -0,0 +1,143 @@
+import type { Schema } from '@google/genai';
+import type { BackendOptions, GenerateRequest, ModelBackend } from './types';
+import { PURPOSE_TASKS } from './types';
+import { ConfigurationError, EmptyResponseError, LiteratureServiceError, NetworkError, QuotaError, SafetyBlockedError } from '../errors';
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+interface ChatCompletion {
+    choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+interface EmbeddingResponse {
+    data?: { index: number; embedding: number[] }[];
+}
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema uses lower case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.properties) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+    }
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.required) result.required = schema.required;
+    return result;
+};
+
+const httpError = (status: number, detail: string): LiteratureServiceError => {
+    const suffix = detail ? `: ${detail.slice(0, 200)}` : '';
+    if (status === 401 || status === 403) return new ConfigurationError(`The endpoint rejected the API key (HTTP ${status}).`);
+    if (status === 404) return new ConfigurationError(`The endpoint or model was not found (HTTP 404)${suffix}`);
+    if (status === 429) return new QuotaError();
+    if (status >= 500) return new NetworkError(`The AI service is temporarily unavailable (HTTP ${status}).`);
+    return new LiteratureServiceError('unknown', `The AI service returned HTTP ${status}${suffix}`);
+};
+
+/**
+ * Talks to any endpoint implementing the OpenAI chat-completions and embeddings API, e.g. OpenAI
+ * itself, a vLLM or Ollama server, or a hosted gateway. It has no web search tool, so searches
+ * are answered from the model's own knowledge and depend on verification to catch invented papers.
+ */
+export const createOpenAiBackend = ({ apiKey, baseUrl, models, temperature, fetchFn = fetch }: BackendOptions): ModelBackend => {
+    if (!baseUrl) {
+        throw new ConfigurationError('No endpoint URL is set for the OpenAI-compatible backend.');
+    }
+    const endpoint = baseUrl.replace(/\/+$/, '');
+
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        let response: Response;
+        try {
+            response = await fetchFn(`${endpoint}${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new NetworkError(undefined, { cause: error });
+        }
+        if (!response.ok) {
+            throw httpError(response.status, await response.text().catch(() => ''));
+        }
+        return response;
+    };
+
+    // The schema is described in the system message, since not every compatible server supports structured output.
+    const toBody = (request: GenerateRequest, stream: boolean) => {
+        const schemaInstruction = request.responseSchema
+            ? `Respond only with JSON matching this JSON Schema, without code fences:\n${JSON.stringify(toJsonSchema(request.responseSchema))}`
+            : '';
+        const system = [request.systemInstruction?.trim(), schemaInstruction].filter(Boolean).join('\n\n');
+        const conversation = typeof request.contents === 'string'
+            ? [{ role: 'user', content: request.contents }]
+            : request.contents.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text }));
+        return {
+            model: models[PURPOSE_TASKS[request.purpose]],
+            messages: system ? [{ role: 'system', content: system }, ...conversation] : conversation,
+            temperature,
+            stream,
+        };
+    };
+
+    return {
+        id: 'openai',
+        generate: async request => {
+            const response = await post('/chat/completions', toBody(request, false), request.signal);
+            const choice = ((await response.json()) as ChatCompletion).choices?.[0];
+            const text = choice?.message?.content?.trim();
+            if (choice?.finish_reason === 'content_filter' && !text) throw new SafetyBlockedError();
+            if (!text) throw new EmptyResponseError();
+            return text;
+        },
+        stream: async function* (request) {
+            const response = await post('/chat/completions', toBody(request, true), request.signal);
+            if (!response.body) throw new EmptyResponseError();
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            let hasText = false;
+            let finishReason: string | null | undefined;
+            // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]".
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                    const choice = (JSON.parse(data) as ChatCompletionChunk).choices?.[0];
+                    finishReason = choice?.finish_reason ?? finishReason;
+                    const text = choice?.delta?.content ?? '';
+                    if (text) {
+                        hasText ||= Boolean(text.trim());
+                        yield { text };
+                    }
+                }
+            }
+            if (!hasText) {
+                throw finishReason === 'content_filter' ? new SafetyBlockedError() : new EmptyResponseError();
+            }
+        },
+        embed: async texts => {
+            const embeddings: number[][] = [];
+            for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+                const response = await post('/embeddings', { model: models.embedding, input: batch });
+                const data = ((await response.json()) as EmbeddingResponse).data ?? [];
+                if (data.length !== batch.length) {
+                    throw new EmptyResponseError("The embedding service returned fewer embeddings than requested.");
+                }
+                embeddings.push(...[...data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+            }
+            return embeddings;
+        },
+    };
+};
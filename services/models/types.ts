@@ -0,0 +1,59 @@
+import type { Schema } from '@google/genai';
+import type { GroundingChunk, ModelTask } from '../../types';
+
+// What a prompt is for; picks the configured model and, in the mock backend, the fixture replayed.
+export type ModelPurpose = 'search' | 'summary' | 'suggestQuery' | 'clusterLabels' | 'answer' | 'review' | 'expandQuery' | 'translate' | 'extract' | 'compare';
+
+export const PURPOSE_TASKS: Record<ModelPurpose, Exclude<ModelTask, 'embedding'>> = {
+    search: 'search',
+    summary: 'search',
+    suggestQuery: 'search',
+    clusterLabels: 'search',
+    answer: 'qa',
+    review: 'qa',
+    expandQuery: 'search',
+    translate: 'search',
+    extract: 'qa',
+    compare: 'qa',
+};
+
+export interface ModelMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface GenerateRequest {
+    purpose: ModelPurpose;
+    contents: string | ModelMessage[];
+    systemInstruction?: string;
+    // Grounds the answer in live web results; backends without a search tool answer from the model alone.
+    webSearch?: boolean;
+    // Asks for JSON matching this schema, written in the Gemini `Type` notation.
+    responseSchema?: Schema;
+    signal?: AbortSignal;
+}
+
+export interface GenerateChunk {
+    text: string;
+    groundingChunks?: GroundingChunk[];
+}
+
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY' | 'CLUSTERING';
+
+export interface ModelBackend {
+    id: string;
+    // Resolves with the whole response text; throws SafetyBlockedError or EmptyResponseError when there is none.
+    generate: (request: GenerateRequest) => Promise<string>;
+    // Yields the response piece by piece; an empty response ends with SafetyBlockedError or EmptyResponseError.
+    stream: (request: GenerateRequest) => AsyncGenerator<GenerateChunk>;
+    // Returns one embedding per input text.
+    embed: (texts: string[], taskType: EmbeddingTaskType) => Promise<number[][]>;
+}
+
+export interface BackendOptions {
+    apiKey: string;
+    baseUrl?: string;
+    models: Record<ModelTask, string>;
+    temperature: number;
+    fetchFn?: typeof fetch;
+}
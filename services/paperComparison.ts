@@ -0,0 +1,102 @@
+import type { ComparisonCell, ComparisonDimension, ComparisonDimensionKey, Reference } from '../types';
+import { EmptyResponseError, ParseError } from './errors';
+import { repairJson } from './resultSchema';
+
+// Fewer papers leave nothing to compare; more make the columns too narrow to read.
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 6;
+
+// Full-text chunks are retrieved per paper with the dimensions' descriptions as the query.
+export const COMPARISON_PASSAGES = 8;
+
+export const COMPARISON_DIMENSIONS: ComparisonDimensionKey[] = ['methods', 'datasets', 'metrics', 'results', 'conclusions'];
+
+export const DEFAULT_DIMENSIONS: ComparisonDimension[] = COMPARISON_DIMENSIONS.map(key => ({ kind: 'builtIn', key }));
+
+// What the model is asked to report for each built-in dimension.
+const DIMENSION_PROMPTS: Record<ComparisonDimensionKey, string> = {
+    methods: 'Methods: the approach, models, interventions or analysis techniques used',
+    datasets: 'Datasets: the data, sample or cohort studied, with its size',
+    metrics: 'Metrics: the evaluation metrics or outcome measures reported',
+    results: 'Results: the main quantitative or qualitative results',
+    conclusions: 'Conclusions: what the authors conclude from the results',
+};
+
+// Cells are stored under this id, so a custom dimension that shares a built-in's name stays separate.
+export const dimensionId = (dimension: ComparisonDimension): string =>
+    dimension.kind === 'builtIn' ? dimension.key : `custom:${dimension.name}`;
+
+export const describeDimension = (dimension: ComparisonDimension): string =>
+    dimension.kind === 'builtIn' ? DIMENSION_PROMPTS[dimension.key] : dimension.name;
+
+const text = (raw: unknown): string => (typeof raw === 'string' ? raw.trim() : '');
+
+/**
+ * Parses the model's cells for one paper, keyed by dimension id. A dimension the model skipped, or
+ * answered with an empty text, is marked missing rather than failing the whole paper.
+ */
+export const parseComparisonCells = (raw: string, dimensions: ComparisonDimension[]): Record<string, ComparisonCell> => {
+    const sanitized = raw.replace(/```(?:json)?/gi, '').trim();
+    if (!sanitized) {
+        throw new EmptyResponseError('The model returned an empty comparison.');
+    }
+    const { json, truncated } = repairJson(sanitized);
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new ParseError(`The comparison is not valid JSON${truncated ? ' (it appears to be cut off)' : ''}.`, truncated, { cause: error });
+    }
+    if (!Array.isArray(data)) {
+        throw new ParseError('The comparison is not a JSON array.', truncated);
+    }
+
+    const answers = new Map(data
+        .map(item => (item && typeof item === 'object' ? item as Record<string, unknown> : {}))
+        .map(item => [Number(item.dimension), item]));
+    return Object.fromEntries(dimensions.map((dimension, index) => {
+        const answer = answers.get(index + 1);
+        const value = text(answer?.text);
+        return [dimensionId(dimension), { text: value, missing: !value || answer?.missing === true }];
+    }));
+};
+
+export interface ComparisonGridLabels {
+    corner: string;
+    paper: (ref: Reference) => string;
+    dimension: (dimension: ComparisonDimension) => string;
+    missing: string;
+    pending: string;
+}
+
+// The matrix as rows of text with papers side by side: a header row, then one row per dimension.
+export const comparisonGrid = (
+    references: Reference[],
+    dimensions: ComparisonDimension[],
+    cells: Record<string, Record<string, ComparisonCell>>,
+    labels: ComparisonGridLabels
+): string[][] => [
+    [labels.corner, ...references.map(labels.paper)],
+    ...dimensions.map(dimension => [
+        labels.dimension(dimension),
+        ...references.map(ref => {
+            const cell = cells[ref.uri]?.[dimensionId(dimension)];
+            if (!cell) return labels.pending;
+            return cell.missing ? labels.missing : cell.text;
+        }),
+    ]),
+];
+
+const escapeCsvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const gridToCsv = (grid: string[][]): string =>
+    grid.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+const escapeTableCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || '—';
+
+export const gridToMarkdown = (grid: string[][]): string => {
+    const [header, ...rows] = grid;
+    return [header, header.map(() => '---'), ...rows]
+        .map((cells, index) => `| ${(index === 1 ? cells : cells.map(escapeTableCell)).join(' | ')} |`)
+        .join('\n') + '\n';
+};
@@ -0,0 +1,69 @@
+import type { PaperExtraction, StudyDesign } from '../types';
+import { EmptyResponseError, ParseError } from './errors';
+import { repairJson } from './resultSchema';
+
+export const STUDY_DESIGNS: StudyDesign[] = [
+    'rct',
+    'observational',
+    'caseReport',
+    'systematicReview',
+    'metaAnalysis',
+    'experimental',
+    'computational',
+    'qualitative',
+    'theoretical',
+    'other',
+];
+
+export type ExtractionTextField = 'researchQuestion' | 'designDetail' | 'dataset' | 'methods' | 'findings' | 'limitations' | 'futureWork';
+
+// The free-text fields in the order the card shows them.
+export const EXTRACTION_TEXT_FIELDS: ExtractionTextField[] = ['researchQuestion', 'designDetail', 'dataset', 'methods', 'findings', 'limitations', 'futureWork'];
+
+// Full-text chunks are retrieved with this query, so the excerpts cover every field rather than one question.
+export const EXTRACTION_QUERY = 'research question aim study design participants sample size dataset methods results findings limitations future work';
+export const EXTRACTION_PASSAGES = 8;
+
+// Models tend to spell out missing information instead of leaving the field empty.
+const NOT_REPORTED = /^(?:not (?:reported|stated|available|mentioned)|n\/?a|none|unknown|未报告|未提及|无)\.?$/i;
+
+const text = (raw: unknown): string => {
+    const value = typeof raw === 'string' ? raw.trim() : '';
+    return NOT_REPORTED.test(value) ? '' : value;
+};
+
+// Accepts "1,204" or "n = 1204" as well as a number; anything that is not a positive count is unknown.
+const sampleSize = (raw: unknown): number | undefined => {
+    const value = typeof raw === 'string' ? Number(raw.replace(/[^\d.]/g, '')) : raw;
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : undefined;
+};
+
+/**
+ * Parses the model's extraction JSON. An unknown study design becomes 'other'; a response with
+ * none of the text fields filled in is treated as a parse failure rather than an empty card.
+ */
+export const parseExtraction = (raw: string, source: PaperExtraction['source']): PaperExtraction => {
+    const sanitized = raw.replace(/```(?:json)?/gi, '').trim();
+    if (!sanitized) {
+        throw new EmptyResponseError('The model returned an empty extraction.');
+    }
+    const { json, truncated } = repairJson(sanitized);
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new ParseError(`The extraction is not valid JSON${truncated ? ' (it appears to be cut off)' : ''}.`, truncated, { cause: error });
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new ParseError('The extraction is not a JSON object.', truncated);
+    }
+
+    const record = data as Record<string, unknown>;
+    const fields = Object.fromEntries(EXTRACTION_TEXT_FIELDS.map(field => [field, text(record[field])])) as Record<ExtractionTextField, string>;
+    if (EXTRACTION_TEXT_FIELDS.every(field => !fields[field])) {
+        throw new ParseError('The extraction does not contain any of the expected fields.', truncated);
+    }
+    const design = STUDY_DESIGNS.find(value => value === record.studyDesign) ?? 'other';
+
+    return { ...fields, studyDesign: design, sampleSize: sampleSize(record.sampleSize), source, extractedAt: Date.now() };
+};
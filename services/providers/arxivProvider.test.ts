@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createArxivProvider, parseArxivFeed } from './arxivProvider';
+import { fakeFetch, readFixture } from './fixtures';
+import { ParseError, QuotaError } from '../errors';
+
+describe('parseArxivFeed', () => {
+    const [attention, bert] = parseArxivFeed(readFixture('arxiv-search.xml'));
+
+    it('reads the entries of an Atom feed', () => {
+        expect(attention).toEqual({
+            title: 'Attention Is All You Need',
+            authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+            publicationDate: '2017-06-12',
+            uri: 'http://arxiv.org/abs/1706.03762v7',
+            abstract: expect.stringMatching(/^The dominant sequence transduction models .* attention mechanisms\.$/),
+            doi: undefined,
+            venue: 'arXiv',
+            source: 'arXiv',
+        });
+    });
+
+    it('collapses line breaks and takes the DOI and journal reference from the arXiv namespace', () => {
+        expect(bert.title).toBe('BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding');
+        expect(bert.doi).toBe('10.18653/v1/N19-1423');
+        expect(bert.venue).toBe('NAACL-HLT 2019');
+    });
+
+    it('rejects a response that is not XML', () => {
+        expect(() => parseArxivFeed('<feed><entry>')).toThrow(ParseError);
+    });
+});
+
+describe('createArxivProvider', () => {
+    it('restricts the query to the date range', async () => {
+        const { fetchFn, requests } = fakeFetch([[/export\.arxiv\.org/, { body: readFixture('arxiv-search.xml') }]]);
+        const result = await createArxivProvider({ fetchFn }).search('transformer', { sources: ['arXiv'], dateRange: { startYear: 2017, endYear: 2019 }, maxResults: 2 });
+
+        expect(result.references).toHaveLength(2);
+        expect(requests[0].searchParams.get('search_query')).toBe('all:transformer AND submittedDate:[201701010000 TO 201912312359]');
+        expect(requests[0].searchParams.get('max_results')).toBe('2');
+    });
+
+    it('reports rate limiting as a quota error', async () => {
+        const { fetchFn } = fakeFetch([[/export\.arxiv\.org/, { status: 429 }]]);
+        await expect(createArxivProvider({ fetchFn }).search('transformer', { sources: ['arXiv'] })).rejects.toBeInstanceOf(QuotaError);
+    });
+});
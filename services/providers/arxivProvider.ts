@@ -0,0 +1,58 @@
+import type { Reference } from '../../types';
+import type { LiteratureProvider, ProviderConfig, ProviderSearchOptions } from './types';
+import { cleanText, fetchText, parseXml } from './http';
+
+const DEFAULT_BASE_URL = 'https://export.arxiv.org/api/query';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+
+const buildSearchQuery = (query: string, options: ProviderSearchOptions): string => {
+    const terms = `all:${query}`;
+    if (!options.dateRange) return terms;
+    const { startYear, endYear } = options.dateRange;
+    const end = endYear ?? new Date().getFullYear();
+    return `${terms} AND submittedDate:[${startYear}01010000 TO ${end}12312359]`;
+};
+
+const parseEntry = (entry: Element): Reference => {
+    const text = (tag: string) => cleanText(entry.getElementsByTagName(tag)[0]?.textContent);
+    const links = Array.from(entry.getElementsByTagName('link'));
+    const absLink = links.find(link => link.getAttribute('rel') === 'alternate')?.getAttribute('href');
+    const doi = cleanText(entry.getElementsByTagNameNS(ARXIV_NS, 'doi')[0]?.textContent);
+    const journalRef = cleanText(entry.getElementsByTagNameNS(ARXIV_NS, 'journal_ref')[0]?.textContent);
+
+    return {
+        title: text('title'),
+        authors: Array.from(entry.getElementsByTagName('author')).map(author =>
+            cleanText(author.getElementsByTagName('name')[0]?.textContent)
+        ).filter(Boolean),
+        publicationDate: text('published').slice(0, 10),
+        uri: absLink || text('id'),
+        abstract: text('summary') || undefined,
+        doi: doi || undefined,
+        venue: journalRef || 'arXiv',
+        source: 'arXiv',
+    };
+};
+
+export const parseArxivFeed = (xml: string): Reference[] => {
+    const doc = parseXml(xml, 'arXiv');
+    return Array.from(doc.getElementsByTagName('entry'))
+        .map(parseEntry)
+        .filter(ref => ref.title && ref.uri);
+};
+
+export const createArxivProvider = ({ baseUrl = DEFAULT_BASE_URL, fetchFn = fetch }: ProviderConfig = {}): LiteratureProvider => ({
+    id: 'arxiv',
+    sources: ['arXiv'],
+    indexed: true,
+    search: async (query, options) => {
+        const params = new URLSearchParams({
+            search_query: buildSearchQuery(query, options),
+            start: '0',
+            max_results: String(options.maxResults ?? 20),
+            sortBy: 'relevance',
+        });
+        const xml = await fetchText(fetchFn, `${baseUrl}?${params}`, 'arXiv', options.signal);
+        return { references: parseArxivFeed(xml) };
+    },
+});
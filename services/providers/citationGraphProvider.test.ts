@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Reference } from '../../types';
+import { createCitationGraphProvider } from './citationGraphProvider';
+import { fakeFetch, readFixture } from './fixtures';
+import { EmptyResponseError } from '../errors';
+
+const BASE_URL = 'https://graph.test/v1';
+const ATTENTION_ID = '204e3073870fae3d05bcbc2f6a8e263d9b72e776';
+
+const seed: Reference = {
+    title: 'Attention Is All You Need',
+    authors: ['Ashish Vaswani'],
+    publicationDate: '2017-06-12',
+    uri: 'https://arxiv.org/abs/1706.03762',
+};
+
+describe('createCitationGraphProvider', () => {
+    it('resolves the seed by its arXiv id and keeps only resolved citing papers', async () => {
+        const { fetchFn, requests } = fakeFetch([
+            [/\/paper\/ARXIV:1706\.03762\?/, { body: JSON.stringify({ paperId: ATTENTION_ID }) }],
+            [new RegExp(`/paper/${ATTENTION_ID}/citations\\?`), { body: readFixture('semantic-scholar-citations.json') }],
+        ]);
+        const references = await createCitationGraphProvider({ baseUrl: BASE_URL, fetchFn }).expand(seed, 'citing', { limit: 3 });
+
+        expect(references.map(ref => ref.title)).toEqual([
+            'BERT: Pre-training of Deep Bidirectional Transformers for Language Understanding',
+            'Language Models are Few-Shot Learners',
+        ]);
+        expect(references[0]).toMatchObject({
+            doi: '10.18653/v1/N19-1423',
+            source: 'Semantic Scholar',
+            citationRelations: [{ direction: 'citing', seedURI: seed.uri }],
+        });
+        expect(requests.at(-1)!.searchParams.get('limit')).toBe('3');
+    });
+
+    it('uses the id in a Semantic Scholar link without a lookup', async () => {
+        const { fetchFn, requests } = fakeFetch([[/\/references\?/, { body: '{"data":[]}' }]]);
+        const withOwnId = { ...seed, alternateURIs: [`https://www.semanticscholar.org/paper/${ATTENTION_ID}`] };
+        await createCitationGraphProvider({ baseUrl: BASE_URL, fetchFn }).expand(withOwnId, 'cited');
+
+        expect(requests.map(url => url.pathname)).toEqual([`/v1/paper/${ATTENTION_ID}/references`]);
+    });
+
+    it('falls back to a title search when the identifiers are unknown', async () => {
+        const { fetchFn, requests } = fakeFetch([
+            [/\/paper\/search\?/, { body: JSON.stringify({ data: [{ paperId: ATTENTION_ID, title: 'Attention is All you Need' }] }) }],
+            [/\/citations\?/, { body: '{"data":[]}' }],
+        ]);
+        await createCitationGraphProvider({ baseUrl: BASE_URL, fetchFn }).expand(seed, 'citing');
+
+        expect(requests.map(url => url.pathname)).toEqual([
+            '/v1/paper/ARXIV:1706.03762',
+            '/v1/paper/search',
+            `/v1/paper/${ATTENTION_ID}/citations`,
+        ]);
+    });
+
+    it('fails when no paper with a matching title is found', async () => {
+        const { fetchFn } = fakeFetch([[/\/paper\/search\?/, { body: JSON.stringify({ data: [{ paperId: 'x', title: 'Something else entirely' }] }) }]]);
+        await expect(createCitationGraphProvider({ baseUrl: BASE_URL, fetchFn }).expand(seed, 'citing')).rejects.toBeInstanceOf(EmptyResponseError);
+    });
+});
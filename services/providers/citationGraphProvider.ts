@@ -0,0 +1,92 @@
+import type { CitationDirection, Reference } from '../../types';
+import type { ProviderConfig } from './types';
+import { fetchJson } from './http';
+import { PAPER_FIELDS, SEMANTIC_SCHOLAR_BASE_URL, parseSemanticScholarPaper } from './semanticScholarProvider';
+import type { SemanticScholarPaper } from './semanticScholarProvider';
+import { EmptyResponseError } from '../errors';
+import { extractArxivId, extractDoi, titleSimilarity } from '../referenceMatching';
+
+const PROVIDER_NAME = 'Semantic Scholar';
+const MATCH_THRESHOLD = 0.9;
+const SEMANTIC_SCHOLAR_ID = /semanticscholar\.org\/paper\/(?:[^/]+\/)?([0-9a-f]{40})/i;
+
+interface PaperLookup {
+    paperId?: string;
+    title?: string;
+}
+
+interface SearchResponse {
+    data?: PaperLookup[];
+}
+
+interface CitationEdge {
+    citingPaper?: SemanticScholarPaper;
+    citedPaper?: SemanticScholarPaper;
+}
+
+interface CitationResponse {
+    data?: CitationEdge[];
+}
+
+export interface CitationGraphOptions {
+    limit?: number;
+    signal?: AbortSignal;
+}
+
+export interface CitationGraphProvider {
+    // Returns the papers on the other end of the seed's citation links in the given direction.
+    expand: (seed: Reference, direction: CitationDirection, options?: CitationGraphOptions) => Promise<Reference[]>;
+}
+
+/**
+ * Looks up citations through a Semantic Scholar Graph API compatible service. The base URL can
+ * point at a mirror or a local fixture server that serves the same paths.
+ */
+export const createCitationGraphProvider = ({ baseUrl = SEMANTIC_SCHOLAR_BASE_URL, fetchFn = fetch }: ProviderConfig = {}): CitationGraphProvider => {
+    const lookup = async (id: string, signal?: AbortSignal): Promise<string | undefined> => {
+        try {
+            const paper = await fetchJson<PaperLookup>(fetchFn, `${baseUrl}/paper/${encodeURI(id)}?fields=paperId`, PROVIDER_NAME, signal);
+            return paper.paperId;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            // Unknown identifiers are answered with 404; the title search below may still find the paper.
+            return undefined;
+        }
+    };
+
+    // Identifiers are tried from most to least reliable: the service's own id, DOI, arXiv ID, then the title.
+    const resolvePaperId = async (seed: Reference, signal?: AbortSignal): Promise<string> => {
+        const ownId = [seed.uri, ...(seed.alternateURIs ?? [])].map(uri => SEMANTIC_SCHOLAR_ID.exec(uri)?.[1]).find(Boolean);
+        if (ownId) return ownId;
+        const doi = extractDoi(seed.doi) ?? extractDoi(seed.uri);
+        const arxivId = extractArxivId(seed.uri);
+        for (const id of [doi && `DOI:${doi}`, arxivId && `ARXIV:${arxivId}`]) {
+            const paperId = id ? await lookup(id, signal) : undefined;
+            if (paperId) return paperId;
+        }
+        const params = new URLSearchParams({ query: seed.title, limit: '3', fields: 'paperId,title' });
+        const response = await fetchJson<SearchResponse>(fetchFn, `${baseUrl}/paper/search?${params}`, PROVIDER_NAME, signal);
+        const match = (response.data ?? []).find(paper => paper.paperId && titleSimilarity(paper.title ?? '', seed.title) >= MATCH_THRESHOLD);
+        if (!match?.paperId) {
+            throw new EmptyResponseError('This paper could not be found in the citation index, so its citations cannot be looked up.');
+        }
+        return match.paperId;
+    };
+
+    return {
+        expand: async (seed, direction, { limit = 50, signal } = {}) => {
+            const paperId = await resolvePaperId(seed, signal);
+            const path = direction === 'citing' ? 'citations' : 'references';
+            const params = new URLSearchParams({ fields: PAPER_FIELDS, limit: String(limit) });
+            const response = await fetchJson<CitationResponse>(fetchFn, `${baseUrl}/paper/${paperId}/${path}?${params}`, PROVIDER_NAME, signal);
+            return (response.data ?? [])
+                .map(edge => direction === 'citing' ? edge.citingPaper : edge.citedPaper)
+                // Unresolved bibliography entries come back without an id or title.
+                .filter((paper): paper is SemanticScholarPaper => Boolean(paper?.paperId && paper.title))
+                .map(paper => ({
+                    ...parseSemanticScholarPaper(paper),
+                    citationRelations: [{ direction, seedURI: seed.uri }],
+                }));
+        },
+    };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createCrossrefProvider, parseCrossrefWork } from './crossrefProvider';
+import type { CrossrefResponse } from './crossrefProvider';
+import { fakeFetch, readFixture } from './fixtures';
+import { ParseError } from '../errors';
+
+describe('parseCrossrefWork', () => {
+    const [lecun, he] = (JSON.parse(readFixture('crossref-works.json')) as CrossrefResponse).message!.items!.map(parseCrossrefWork);
+
+    it('reads a work', () => {
+        expect(lecun).toEqual({
+            title: 'Deep learning',
+            authors: ['Yann LeCun', 'Yoshua Bengio', 'Geoffrey Hinton'],
+            publicationDate: '2015-05-27',
+            uri: 'https://doi.org/10.1038/nature14539',
+            abstract: undefined,
+            doi: '10.1038/nature14539',
+            venue: 'Nature',
+            source: 'Crossref',
+            citationCount: 61432,
+        });
+    });
+
+    it('strips JATS markup from abstracts and keeps organisational authors', () => {
+        expect(he.abstract).toBe('Deeper neural networks are more difficult to train. We present a residual learning framework.');
+        expect(he.authors).toEqual(['Kaiming He', 'IEEE Computer Society']);
+        expect(he.publicationDate).toBe('2016-06');
+    });
+});
+
+describe('createCrossrefProvider', () => {
+    it('filters by publication year and drops works without a title', async () => {
+        const { fetchFn, requests } = fakeFetch([[/api\.crossref\.org\/works/, { body: readFixture('crossref-works.json') }]]);
+        const result = await createCrossrefProvider({ fetchFn }).search('deep learning', { sources: ['Crossref'], dateRange: { startYear: 2015, endYear: 2016 } });
+
+        expect(result.references.map(ref => ref.doi)).toEqual(['10.1038/nature14539', '10.1109/cvpr.2016.90']);
+        expect(requests[0].searchParams.get('filter')).toBe('from-pub-date:2015,until-pub-date:2016');
+    });
+
+    it('rejects a response that is not JSON', async () => {
+        const { fetchFn } = fakeFetch([[/api\.crossref\.org/, { body: '<html>Service unavailable</html>' }]]);
+        await expect(createCrossrefProvider({ fetchFn }).search('deep learning', { sources: ['Crossref'] })).rejects.toBeInstanceOf(ParseError);
+    });
+});
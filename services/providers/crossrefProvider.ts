@@ -0,0 +1,68 @@
+import type { Reference } from '../../types';
+import type { LiteratureProvider, ProviderConfig } from './types';
+import { cleanText, fetchJson, formatDateParts } from './http';
+
+const DEFAULT_BASE_URL = 'https://api.crossref.org';
+
+export interface CrossrefWork {
+    DOI: string;
+    URL?: string;
+    title?: string[];
+    author?: { given?: string; family?: string; name?: string }[];
+    issued?: { 'date-parts'?: (number | null)[][] };
+    abstract?: string;
+    'container-title'?: string[];
+    'is-referenced-by-count'?: number;
+}
+
+export interface CrossrefResponse {
+    message?: { items?: CrossrefWork[] };
+}
+
+// Crossref abstracts are JATS XML fragments; only the text is useful here.
+const stripJats = (abstract?: string): string | undefined => {
+    const text = cleanText(abstract?.replace(/<[^>]+>/g, ' '));
+    return text.replace(/^Abstract\s+/i, '') || undefined;
+};
+
+export const parseCrossrefWork = (work: CrossrefWork): Reference => {
+    const [year, month, day] = work.issued?.['date-parts']?.[0] ?? [];
+    return {
+        title: cleanText(work.title?.[0]),
+        authors: (work.author ?? [])
+            .map(author => author.name || [author.given, author.family].filter(Boolean).join(' '))
+            .filter(Boolean),
+        publicationDate: formatDateParts(year ?? undefined, month ?? undefined, day ?? undefined),
+        uri: work.URL || `https://doi.org/${work.DOI}`,
+        abstract: stripJats(work.abstract),
+        doi: work.DOI,
+        venue: cleanText(work['container-title']?.[0]) || undefined,
+        source: 'Crossref',
+        citationCount: work['is-referenced-by-count'],
+    };
+};
+
+export const createCrossrefProvider = ({ baseUrl = DEFAULT_BASE_URL, fetchFn = fetch }: ProviderConfig = {}): LiteratureProvider => ({
+    id: 'crossref',
+    sources: ['Crossref'],
+    indexed: true,
+    search: async (query, options) => {
+        const params = new URLSearchParams({
+            query,
+            rows: String(options.maxResults ?? 20),
+            select: 'DOI,URL,title,author,issued,abstract,container-title,is-referenced-by-count',
+        });
+        if (options.dateRange) {
+            const filters = [`from-pub-date:${options.dateRange.startYear}`];
+            if (options.dateRange.endYear) {
+                filters.push(`until-pub-date:${options.dateRange.endYear}`);
+            }
+            params.set('filter', filters.join(','));
+        }
+        const response = await fetchJson<CrossrefResponse>(fetchFn, `${baseUrl}/works?${params}`, 'Crossref', options.signal);
+        const references = (response.message?.items ?? [])
+            .map(parseCrossrefWork)
+            .filter(ref => ref.title);
+        return { references };
+    },
+});
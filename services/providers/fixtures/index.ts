@@ -0,0 +1,25 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// API responses in the shape each service returns, read by the provider tests.
+export const readFixture = (name: string): string => readFileSync(join(import.meta.dirname, name), 'utf8');
+
+export interface FakeResponse {
+    status?: number;
+    body?: string;
+}
+
+/**
+ * A fetch stand-in that answers each request with the first route whose pattern matches the URL and
+ * records the URLs it was asked for. Requests no route matches are answered with a 404.
+ */
+export const fakeFetch = (routes: [RegExp, FakeResponse][]) => {
+    const requests: URL[] = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+        const url = new URL(String(input));
+        requests.push(url);
+        const route = routes.find(([pattern]) => pattern.test(url.href));
+        return new Response(route?.[1].body ?? '', { status: route ? route[1].status ?? 200 : 404 });
+    }) as typeof fetch;
+    return { fetchFn, requests };
+};
@@ -0,0 +1,21 @@
+import type { Reference } from '../../types';
+import type { LiteratureProvider } from './types';
+import { searchWithGemini } from '../geminiService';
+
+// Sources without a public search API are reached through the model's Google Search grounding.
+export const createGeminiProvider = (): LiteratureProvider => ({
+    id: 'gemini',
+    sources: ['Google Scholar', 'bioRxiv'],
+    search: async (query, options) => {
+        const withSource = (references: Reference[]) => references.map(ref => ({ ...ref, source: ref.source || 'Gemini' }));
+        const result = await searchWithGemini(query, options.sources, options.dateRange, {
+            signal: options.signal,
+            onProgress: partial => options.onProgress?.({ summary: partial.summary, references: withSource(partial.references) }),
+        });
+        return {
+            summary: result.summary,
+            groundingChunks: result.groundingChunks,
+            references: withSource(result.references),
+        };
+    },
+});
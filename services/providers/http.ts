@@ -0,0 +1,48 @@
+import { NetworkError, ParseError, QuotaError } from '../errors';
+
+export const fetchText = async (fetchFn: typeof fetch, url: string, providerName: string, signal?: AbortSignal): Promise<string> => {
+    let response: Response;
+    try {
+        response = await fetchFn(url, { signal });
+    } catch (error) {
+        // A cancelled search is not a network failure; let the caller see the abort as is.
+        if (signal?.aborted) throw error;
+        throw new NetworkError(`Could not reach ${providerName}.`, { cause: error });
+    }
+    if (response.status === 429) {
+        throw new QuotaError(`${providerName} is rate limiting requests. Please wait a moment and try again.`);
+    }
+    if (!response.ok) {
+        throw new NetworkError(`${providerName} request failed with status ${response.status}.`);
+    }
+    return response.text();
+};
+
+export const fetchJson = async <T>(fetchFn: typeof fetch, url: string, providerName: string, signal?: AbortSignal): Promise<T> => {
+    const text = await fetchText(fetchFn, url, providerName, signal);
+    try {
+        return JSON.parse(text) as T;
+    } catch (error) {
+        throw new ParseError(`${providerName} returned a response that is not valid JSON.`, false, { cause: error });
+    }
+};
+
+export const parseXml = (xml: string, providerName: string): Document => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new ParseError(`${providerName} returned a response that is not valid XML.`);
+    }
+    return doc;
+};
+
+// Collapses the whitespace and line breaks that XML feeds put inside titles and abstracts.
+export const cleanText = (text: string | null | undefined): string =>
+    (text || '').replace(/\s+/g, ' ').trim();
+
+export const formatDateParts = (year?: number | string, month?: number | string, day?: number | string): string => {
+    if (!year) return '';
+    const pad = (value: number | string) => String(value).padStart(2, '0');
+    if (!month) return String(year);
+    if (!day) return `${year}-${pad(month)}`;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
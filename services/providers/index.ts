@@ -0,0 +1,29 @@
+import type { LiteratureProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createArxivProvider } from './arxivProvider';
+import { createPubmedProvider } from './pubmedProvider';
+import { createCrossrefProvider } from './crossrefProvider';
+import { createSemanticScholarProvider } from './semanticScholarProvider';
+import { createCitationGraphProvider } from './citationGraphProvider';
+
+export type { LiteratureProvider, ProviderConfig, ProviderResult, ProviderSearchOptions } from './types';
+export type { CitationGraphProvider, CitationGraphOptions } from './citationGraphProvider';
+
+export const PROVIDERS: LiteratureProvider[] = [
+    createGeminiProvider(),
+    createPubmedProvider(),
+    createArxivProvider(),
+    createCrossrefProvider(),
+    createSemanticScholarProvider(),
+];
+
+// Set CITATION_GRAPH_BASE_URL to use a mirror or a local fixture server instead of Semantic Scholar.
+export const CITATION_GRAPH = createCitationGraphProvider({ baseUrl: process.env.CITATION_GRAPH_BASE_URL || undefined });
+
+export const ACADEMIC_SOURCES = PROVIDERS.flatMap(provider => provider.sources);
+
+// Groups the selected checkbox labels by the provider that serves them, keeping provider order.
+export const routeSources = (selectedSources: string[], providers: LiteratureProvider[] = PROVIDERS): { provider: LiteratureProvider; sources: string[] }[] =>
+    providers
+        .map(provider => ({ provider, sources: provider.sources.filter(source => selectedSources.includes(source)) }))
+        .filter(route => route.sources.length > 0);
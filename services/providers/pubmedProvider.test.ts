@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { createPubmedProvider, parsePubmedArticles } from './pubmedProvider';
+import { fakeFetch, readFixture } from './fixtures';
+import { NetworkError } from '../errors';
+
+describe('parsePubmedArticles', () => {
+    const [guan, polack] = parsePubmedArticles(readFixture('pubmed-efetch.xml'));
+
+    it('reads an article with a full publication date', () => {
+        expect(polack).toEqual({
+            title: 'Safety and Efficacy of the BNT162b2 mRNA Covid-19 Vaccine.',
+            authors: ['Fernando P Polack', 'SJ Thomas'],
+            publicationDate: '2020-12-31',
+            uri: 'https://pubmed.ncbi.nlm.nih.gov/33301246/',
+            abstract: 'A two-dose regimen of BNT162b2 conferred 95% protection against Covid-19 in persons 16 years of age or older.',
+            doi: '10.1056/NEJMoa2034577',
+            venue: 'The New England journal of medicine',
+            source: 'PubMed',
+        });
+    });
+
+    it('handles MedlineDate, structured abstracts and collective authors', () => {
+        expect(guan.publicationDate).toBe('2020');
+        expect(guan.abstract).toMatch(/^BACKGROUND: Since December 2019.* METHODS: We extracted/);
+        expect(guan.authors).toEqual(['Wei-Jie Guan', 'China Medical Treatment Expert Group for Covid-19']);
+    });
+});
+
+describe('createPubmedProvider', () => {
+    const routes = (): Parameters<typeof fakeFetch>[0] => [
+        [/esearch\.fcgi/, { body: readFixture('pubmed-esearch.json') }],
+        [/efetch\.fcgi/, { body: readFixture('pubmed-efetch.xml') }],
+    ];
+
+    it('fetches the found ids and keeps the relevance order of the search', async () => {
+        const { fetchFn, requests } = fakeFetch(routes());
+        const result = await createPubmedProvider({ fetchFn }).search('covid-19 vaccine', { sources: ['PubMed'], dateRange: { startYear: 2020 } });
+
+        expect(result.references.map(ref => ref.uri)).toEqual([
+            'https://pubmed.ncbi.nlm.nih.gov/33301246/',
+            'https://pubmed.ncbi.nlm.nih.gov/32109013/',
+        ]);
+        expect(requests[0].searchParams.get('mindate')).toBe('2020');
+        expect(requests[0].searchParams.get('maxdate')).toBe(String(new Date().getFullYear()));
+        expect(requests[1].searchParams.get('id')).toBe('33301246,32109013');
+    });
+
+    it('skips the fetch when the search finds nothing', async () => {
+        const { fetchFn, requests } = fakeFetch([[/esearch\.fcgi/, { body: '{"esearchresult":{"idlist":[]}}' }]]);
+        const result = await createPubmedProvider({ fetchFn }).search('nothing', { sources: ['PubMed'] });
+
+        expect(result.references).toEqual([]);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('reports a server error as a network error', async () => {
+        const { fetchFn } = fakeFetch([[/esearch\.fcgi/, { status: 500 }]]);
+        await expect(createPubmedProvider({ fetchFn }).search('covid', { sources: ['PubMed'] })).rejects.toBeInstanceOf(NetworkError);
+    });
+});
@@ -0,0 +1,97 @@
+import type { Reference } from '../../types';
+import type { LiteratureProvider, ProviderConfig } from './types';
+import { cleanText, fetchJson, fetchText, formatDateParts, parseXml } from './http';
+
+const DEFAULT_BASE_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+interface ESearchResponse {
+    esearchresult?: { idlist?: string[] };
+}
+
+const MONTHS: Record<string, string> = {
+    jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+    jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+const parsePubDate = (article: Element): string => {
+    const pubDate = article.getElementsByTagName('PubDate')[0];
+    if (!pubDate) return '';
+    const field = (tag: string) => cleanText(pubDate.getElementsByTagName(tag)[0]?.textContent);
+    const year = field('Year') || field('MedlineDate').slice(0, 4);
+    const rawMonth = field('Month');
+    const month = MONTHS[rawMonth.slice(0, 3).toLowerCase()] || rawMonth;
+    return formatDateParts(year, month, field('Day'));
+};
+
+const parseAuthors = (article: Element): string[] =>
+    Array.from(article.getElementsByTagName('Author')).map(author => {
+        const field = (tag: string) => cleanText(author.getElementsByTagName(tag)[0]?.textContent);
+        const collective = field('CollectiveName');
+        if (collective) return collective;
+        return [field('ForeName') || field('Initials'), field('LastName')].filter(Boolean).join(' ');
+    }).filter(Boolean);
+
+const parseArticle = (article: Element): Reference => {
+    const pmid = cleanText(article.getElementsByTagName('PMID')[0]?.textContent);
+    const abstract = Array.from(article.getElementsByTagName('AbstractText'))
+        .map(node => {
+            const label = node.getAttribute('Label');
+            const text = cleanText(node.textContent);
+            return label ? `${label}: ${text}` : text;
+        })
+        .join(' ');
+    const doi = Array.from(article.getElementsByTagName('ELocationID'))
+        .find(node => node.getAttribute('EIdType') === 'doi')?.textContent;
+
+    return {
+        title: cleanText(article.getElementsByTagName('ArticleTitle')[0]?.textContent),
+        authors: parseAuthors(article),
+        publicationDate: parsePubDate(article),
+        uri: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+        abstract: abstract || undefined,
+        doi: cleanText(doi) || undefined,
+        venue: cleanText(article.getElementsByTagName('Title')[0]?.textContent) || undefined,
+        source: 'PubMed',
+    };
+};
+
+export const parsePubmedArticles = (xml: string): Reference[] => {
+    const doc = parseXml(xml, 'PubMed');
+    return Array.from(doc.getElementsByTagName('PubmedArticle'))
+        .map(parseArticle)
+        .filter(ref => ref.title);
+};
+
+export const createPubmedProvider = ({ baseUrl = DEFAULT_BASE_URL, fetchFn = fetch }: ProviderConfig = {}): LiteratureProvider => ({
+    id: 'pubmed',
+    sources: ['PubMed'],
+    indexed: true,
+    search: async (query, options) => {
+        const searchParams = new URLSearchParams({
+            db: 'pubmed',
+            term: query,
+            retmode: 'json',
+            retmax: String(options.maxResults ?? 20),
+            sort: 'relevance',
+        });
+        if (options.dateRange) {
+            searchParams.set('datetype', 'pdat');
+            searchParams.set('mindate', String(options.dateRange.startYear));
+            searchParams.set('maxdate', String(options.dateRange.endYear ?? new Date().getFullYear()));
+        }
+        const searchResponse = await fetchJson<ESearchResponse>(fetchFn, `${baseUrl}/esearch.fcgi?${searchParams}`, 'PubMed', options.signal);
+        const ids = searchResponse.esearchresult?.idlist ?? [];
+        if (ids.length === 0) {
+            return { references: [] };
+        }
+
+        const fetchParams = new URLSearchParams({ db: 'pubmed', id: ids.join(','), retmode: 'xml' });
+        const xml = await fetchText(fetchFn, `${baseUrl}/efetch.fcgi?${fetchParams}`, 'PubMed', options.signal);
+        // efetch does not preserve the relevance order of esearch, so restore it from the id list.
+        const byPmid = new Map(parsePubmedArticles(xml).map(ref => [ref.uri, ref]));
+        const references = ids
+            .map(id => byPmid.get(`https://pubmed.ncbi.nlm.nih.gov/${id}/`))
+            .filter((ref): ref is Reference => Boolean(ref));
+        return { references };
+    },
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createSemanticScholarProvider } from './semanticScholarProvider';
+import { fakeFetch, readFixture } from './fixtures';
+
+describe('createSemanticScholarProvider', () => {
+    const search = async () => {
+        const { fetchFn, requests } = fakeFetch([[/paper\/search/, { body: readFixture('semantic-scholar-search.json') }]]);
+        const result = await createSemanticScholarProvider({ fetchFn }).search('attention', { sources: ['Semantic Scholar'], dateRange: { startYear: 2017 } });
+        return { references: result.references, requests };
+    };
+
+    it('reads the papers of a search', async () => {
+        const { references } = await search();
+        expect(references[0]).toEqual({
+            title: 'Attention is All you Need',
+            authors: ['Ashish Vaswani', 'Noam M. Shazeer'],
+            publicationDate: '2017-06-12',
+            uri: 'https://www.semanticscholar.org/paper/204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+            abstract: 'The dominant sequence transduction models are based on complex recurrent or convolutional neural networks.',
+            doi: undefined,
+            venue: 'Neural Information Processing Systems',
+            source: 'Semantic Scholar',
+            citationCount: 98765,
+        });
+    });
+
+    it('falls back to the year and the paper page when the date and URL are missing', async () => {
+        const { references } = await search();
+        expect(references[1]).toMatchObject({
+            publicationDate: '2019',
+            uri: 'https://www.semanticscholar.org/paper/df2b0e26d0599ce3e70df8a9da02e51594e0e992',
+            abstract: undefined,
+            doi: '10.18653/v1/N19-1423',
+            venue: undefined,
+        });
+    });
+
+    it('passes an open-ended year range', async () => {
+        const { requests } = await search();
+        expect(requests[0].searchParams.get('year')).toBe('2017-');
+    });
+});
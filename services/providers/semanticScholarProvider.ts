@@ -0,0 +1,56 @@
+import type { Reference } from '../../types';
+import type { LiteratureProvider, ProviderConfig } from './types';
+import { cleanText, fetchJson } from './http';
+
+export const SEMANTIC_SCHOLAR_BASE_URL = 'https://api.semanticscholar.org/graph/v1';
+export const PAPER_FIELDS = 'title,authors,year,publicationDate,abstract,url,externalIds,venue,citationCount';
+
+export interface SemanticScholarPaper {
+    paperId: string;
+    title?: string;
+    authors?: { name?: string }[];
+    year?: number | null;
+    publicationDate?: string | null;
+    abstract?: string | null;
+    url?: string;
+    externalIds?: { DOI?: string; ArXiv?: string } | null;
+    venue?: string;
+    citationCount?: number;
+}
+
+interface SemanticScholarSearchResponse {
+    data?: SemanticScholarPaper[];
+}
+
+export const parseSemanticScholarPaper = (paper: SemanticScholarPaper): Reference => ({
+    title: cleanText(paper.title),
+    authors: (paper.authors ?? []).map(author => cleanText(author.name)).filter(Boolean),
+    publicationDate: paper.publicationDate || (paper.year ? String(paper.year) : ''),
+    uri: paper.url || `https://www.semanticscholar.org/paper/${paper.paperId}`,
+    abstract: cleanText(paper.abstract) || undefined,
+    doi: paper.externalIds?.DOI,
+    venue: paper.venue || undefined,
+    source: 'Semantic Scholar',
+    citationCount: paper.citationCount,
+});
+
+export const createSemanticScholarProvider = ({ baseUrl = SEMANTIC_SCHOLAR_BASE_URL, fetchFn = fetch }: ProviderConfig = {}): LiteratureProvider => ({
+    id: 'semantic-scholar',
+    sources: ['Semantic Scholar'],
+    indexed: true,
+    search: async (query, options) => {
+        const params = new URLSearchParams({
+            query,
+            limit: String(options.maxResults ?? 20),
+            fields: PAPER_FIELDS,
+        });
+        if (options.dateRange) {
+            params.set('year', `${options.dateRange.startYear}-${options.dateRange.endYear ?? ''}`);
+        }
+        const response = await fetchJson<SemanticScholarSearchResponse>(fetchFn, `${baseUrl}/paper/search?${params}`, 'Semantic Scholar', options.signal);
+        const references = (response.data ?? [])
+            .map(parseSemanticScholarPaper)
+            .filter(ref => ref.title);
+        return { references };
+    },
+});
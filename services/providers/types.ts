@@ -0,0 +1,33 @@
+import type { DateRange, GroundingChunk, Reference } from '../../types';
+
+export interface ProviderSearchOptions {
+  dateRange?: DateRange;
+  maxResults?: number;
+  // The checkbox labels routed to this provider, used by providers that cover several sources.
+  sources: string[];
+  signal?: AbortSignal;
+  // Called with what has arrived so far by providers that stream their results.
+  onProgress?: (partial: ProviderResult) => void;
+}
+
+export interface ProviderResult {
+  references: Reference[];
+  // Only model-backed providers produce a summary; index providers leave it undefined.
+  // Its citation markers refer to positions in this provider's `references`.
+  summary?: string;
+  groundingChunks?: GroundingChunk[];
+}
+
+export interface LiteratureProvider {
+  id: string;
+  // The source labels (as shown in the source selector) that this provider answers for.
+  sources: string[];
+  // Set by providers whose records come straight from a bibliographic index's API, so they need no verification lookup.
+  indexed?: boolean;
+  search: (query: string, options: ProviderSearchOptions) => Promise<ProviderResult>;
+}
+
+export interface ProviderConfig {
+  baseUrl?: string;
+  fetchFn?: typeof fetch;
+}
@@ -0,0 +1,117 @@
+import type { Reference, StudyDesign } from '../types';
+import { authorKey, extractYear, normalizeTitle } from './referenceMatching';
+
+export interface ReferenceFilters {
+    // Case-insensitive substring of any author name.
+    author: string;
+    yearFrom?: number;
+    yearTo?: number;
+    // Venue or source labels; a reference matches if it has any of them.
+    venues: string[];
+    hasAbstract: boolean;
+    // Every whitespace-separated term must appear in the title or abstract.
+    keyword: string;
+    // Both match analyzed references only; papers that have not been analyzed are filtered out.
+    studyDesigns: StudyDesign[];
+    minSampleSize?: number;
+}
+
+export const EMPTY_FILTERS: ReferenceFilters = { author: '', venues: [], hasAbstract: false, keyword: '', studyDesigns: [] };
+
+export const isFiltering = (filters: ReferenceFilters): boolean =>
+    Boolean(filters.author.trim() || filters.keyword.trim() || filters.venues.length > 0 || filters.hasAbstract
+        || filters.yearFrom !== undefined || filters.yearTo !== undefined
+        || filters.studyDesigns.length > 0 || filters.minSampleSize !== undefined);
+
+// The label a reference is grouped under in the venue facet.
+export const venueOf = (ref: Reference): string | undefined => ref.venue || ref.source;
+
+export const applyFilters = (references: Reference[], filters: ReferenceFilters): Reference[] => {
+    const author = filters.author.trim().toLowerCase();
+    const terms = filters.keyword.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return references.filter(ref => {
+        if (author && !ref.authors.some(name => name.toLowerCase().includes(author))) return false;
+        if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+            const year = extractYear(ref.publicationDate);
+            if (year === undefined) return false;
+            if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+            if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+        }
+        if (filters.venues.length > 0 && !filters.venues.includes(venueOf(ref) ?? '')) return false;
+        if (filters.hasAbstract && !ref.abstract) return false;
+        if (filters.studyDesigns.length > 0 && !(ref.extraction && filters.studyDesigns.includes(ref.extraction.studyDesign))) return false;
+        if (filters.minSampleSize !== undefined && !((ref.extraction?.sampleSize ?? 0) >= filters.minSampleSize)) return false;
+        if (terms.length > 0) {
+            const text = `${ref.title} ${ref.abstract ?? ''}`.toLowerCase();
+            if (!terms.every(term => text.includes(term))) return false;
+        }
+        return true;
+    });
+};
+
+export interface FacetValue<T extends string = string> {
+    value: T;
+    count: number;
+}
+
+const countValues = <T extends string>(values: T[]): FacetValue<T>[] => {
+    const counts = new Map<T, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const authorFacet = (references: Reference[]): FacetValue[] =>
+    countValues(references.flatMap(ref => Array.from(new Set(ref.authors))));
+
+export const venueFacet = (references: Reference[]): FacetValue[] =>
+    countValues(references.map(venueOf).filter((venue): venue is string => Boolean(venue)));
+
+export const studyDesignFacet = (references: Reference[]): FacetValue<StudyDesign>[] =>
+    countValues(references.flatMap(ref => (ref.extraction ? [ref.extraction.studyDesign] : [])));
+
+export type SortKey = 'relevance' | 'dateDesc' | 'dateAsc' | 'title' | 'firstAuthor' | 'citations' | 'sampleSize';
+
+// In the order the sort menus list them.
+export const SORT_KEYS: SortKey[] = ['relevance', 'dateDesc', 'dateAsc', 'title', 'firstAuthor', 'citations', 'sampleSize'];
+
+type Comparator = (a: Reference, b: Reference) => number;
+
+// References missing the sort field always go last, whichever direction is chosen.
+const compareOptional = <T>(get: (ref: Reference) => T | undefined, compare: (x: T, y: T) => number): Comparator => (a, b) => {
+    const x = get(a);
+    const y = get(b);
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+    return compare(x, y);
+};
+
+const nonEmpty = (value: string | undefined) => value || undefined;
+const byText = (x: string, y: string) => x.localeCompare(y);
+
+const COMPARATORS: Record<Exclude<SortKey, 'relevance'>, Comparator> = {
+    dateDesc: compareOptional(ref => nonEmpty(ref.publicationDate), (x, y) => y.localeCompare(x)),
+    dateAsc: compareOptional(ref => nonEmpty(ref.publicationDate), byText),
+    title: compareOptional(ref => nonEmpty(normalizeTitle(ref.title)), byText),
+    firstAuthor: compareOptional(ref => nonEmpty(ref.authors[0] && authorKey(ref.authors[0])), byText),
+    citations: compareOptional(ref => ref.citationCount, (x, y) => y - x),
+    // Largest first; papers that have not been analyzed or do not report a sample size go last.
+    sampleSize: compareOptional(ref => ref.extraction?.sampleSize, (x, y) => y - x),
+};
+
+/**
+ * Sorts by each key in turn, breaking remaining ties by the original (relevance) order.
+ * 'relevance' anywhere in the list ends the comparison at that point.
+ */
+export const sortReferences = (references: Reference[], keys: SortKey[]): Reference[] => {
+    const comparators = keys.slice(0, keys.includes('relevance') ? keys.indexOf('relevance') : keys.length)
+        .map(key => COMPARATORS[key as Exclude<SortKey, 'relevance'>]);
+    if (comparators.length === 0) return references;
+    const rank = new Map(references.map((ref, index) => [ref.uri, index]));
+    return [...references].sort((a, b) => {
+        for (const compare of comparators) {
+            const result = compare(a, b);
+            if (result !== 0) return result;
+        }
+        return rank.get(a.uri)! - rank.get(b.uri)!;
+    });
+};
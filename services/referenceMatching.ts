@@ -0,0 +1,72 @@
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>?#]+)/i;
+const ARXIV_PATTERN = /arxiv\.org\/(?:abs|pdf)\/([a-z-]+(?:\.[A-Z]{2})?\/\d{7}|\d{4}\.\d{4,5})(?:v\d+)?/i;
+
+export const extractDoi = (text?: string): string | undefined => {
+    if (!text) return undefined;
+    let decoded = text;
+    try {
+        decoded = decodeURIComponent(text);
+    } catch {
+        // Keep the raw text when it contains a stray '%'.
+    }
+    const match = DOI_PATTERN.exec(decoded);
+    return match ? match[1].replace(/[.,;]+$/, '').toLowerCase() : undefined;
+};
+
+export const extractArxivId = (text?: string): string | undefined => {
+    const match = text ? ARXIV_PATTERN.exec(text) : null;
+    return match ? match[1] : undefined;
+};
+
+export const normalizeTitle = (title: string): string =>
+    title
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+
+const bigrams = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    const compact = text.replace(/\s+/g, ' ');
+    for (let i = 0; i < compact.length - 1; i++) {
+        const gram = compact.slice(i, i + 2);
+        counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+};
+
+// Sørensen–Dice coefficient over character bigrams of the normalized titles, in [0, 1].
+export const titleSimilarity = (a: string, b: string): number => {
+    const left = normalizeTitle(a);
+    const right = normalizeTitle(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    const leftGrams = bigrams(left);
+    const rightGrams = bigrams(right);
+    let overlap = 0;
+    leftGrams.forEach((count, gram) => {
+        overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+    });
+    const total = Math.max(left.length - 1, 0) + Math.max(right.length - 1, 0);
+    return total === 0 ? 0 : (2 * overlap) / total;
+};
+
+// Family names are the most stable part of an author string across indexes ("J. Smith" vs "John Smith").
+export const authorKey = (name: string): string => {
+    const cleaned = name.includes(',') ? name.split(',')[0] : name.trim().split(/\s+/).pop() ?? '';
+    return normalizeTitle(cleaned).replace(/\s+/g, '');
+};
+
+// Share of the shorter author list whose family names also appear in the other list.
+export const authorOverlap = (a: string[], b: string[]): number => {
+    if (a.length === 0 || b.length === 0) return 0;
+    const right = new Set(b.map(authorKey));
+    const matches = a.map(authorKey).filter(key => key && right.has(key)).length;
+    return matches / Math.min(a.length, b.length);
+};
+
+export const extractYear = (date?: string): number | undefined => {
+    const match = date ? /\b(1[89]\d{2}|20\d{2})\b/.exec(date) : null;
+    return match ? Number(match[1]) : undefined;
+};
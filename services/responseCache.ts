@@ -0,0 +1,148 @@
+import { STORES, clearStore, deleteOne, getOne, putOne } from './db';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Index results and model answers change slowly; a day keeps repeated searches stable without going stale.
+export const SEARCH_TTL_MS = 24 * HOUR_MS;
+export const ANSWER_TTL_MS = 7 * 24 * HOUR_MS;
+// A translation of the same text does not go stale.
+export const TRANSLATION_TTL_MS = 30 * 24 * HOUR_MS;
+
+interface CacheRecord<T> {
+    key: string;
+    // The full request the key was hashed from, compared on read so a hash collision is a miss, not a wrong answer.
+    fingerprint: string;
+    value: T;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface CachedValue<T> {
+    value: T;
+    // When the value was stored, if it came from the cache rather than a new request.
+    cachedAt?: number;
+}
+
+export interface CacheOptions<P> {
+    // Skips the stored value and replaces it with a new one.
+    refresh?: boolean;
+    signal?: AbortSignal;
+    onProgress?: (progress: P) => void;
+}
+
+interface InFlight<T, P> {
+    promise: Promise<T>;
+    controller: AbortController;
+    listeners: Set<(progress: P) => void>;
+    subscribers: number;
+}
+
+const inFlight = new Map<string, InFlight<unknown, unknown>>();
+
+// Lower-cases and collapses whitespace so trivially different spellings of a query share an entry.
+export const normalizeText = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// cyrb53: a fast 53-bit string hash, enough to keep keys short; collisions are caught by the fingerprint.
+const hashString = (text: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const readCache = async <T>(key: string, fingerprint: string): Promise<CacheRecord<T> | undefined> => {
+    try {
+        const record = await getOne<CacheRecord<T>>(STORES.responseCache, key);
+        if (!record || record.fingerprint !== fingerprint) return undefined;
+        if (record.expiresAt <= Date.now()) {
+            deleteOne(STORES.responseCache, key).catch(() => {});
+            return undefined;
+        }
+        return record;
+    } catch (error) {
+        console.warn('Reading the response cache failed; sending the request instead.', error);
+        return undefined;
+    }
+};
+
+// Resolves with the shared result, or rejects as soon as this caller's own signal aborts.
+const subscribe = <T, P>(entry: InFlight<T, P>, { signal, onProgress }: CacheOptions<P>): Promise<T> => {
+    entry.subscribers++;
+    if (onProgress) entry.listeners.add(onProgress);
+    return new Promise<T>((resolve, reject) => {
+        const leave = () => {
+            if (onProgress) entry.listeners.delete(onProgress);
+            signal?.removeEventListener('abort', onAbort);
+            entry.subscribers--;
+        };
+        const onAbort = () => {
+            leave();
+            // The request itself only stops once nobody is waiting for it any more.
+            if (entry.subscribers === 0) entry.controller.abort(signal?.reason);
+            reject(signal?.reason);
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort);
+        entry.promise.then(
+            value => { leave(); resolve(value); },
+            error => { leave(); reject(error); },
+        );
+    });
+};
+
+/**
+ * Returns the stored value for `parts` within its TTL, or runs `compute` and stores the result.
+ * Identical requests made while one is running share it: every caller receives its progress, and
+ * it is only aborted once all of their signals have aborted. Failures are never stored, and neither
+ * is a value for which a `ttlMs` function returns zero.
+ */
+export const withCache = async <T, P = never>(
+    namespace: string,
+    parts: unknown,
+    ttlMs: number | ((value: T) => number),
+    compute: (signal: AbortSignal, onProgress: (progress: P) => void) => Promise<T>,
+    options: CacheOptions<P> = {}
+): Promise<CachedValue<T>> => {
+    const fingerprint = JSON.stringify(parts);
+    const key = `${namespace}:${hashString(fingerprint)}`;
+
+    if (!options.refresh) {
+        const record = await readCache<T>(key, fingerprint);
+        options.signal?.throwIfAborted();
+        if (record) return { value: record.value, cachedAt: record.createdAt };
+    }
+
+    let entry = inFlight.get(key) as InFlight<T, P> | undefined;
+    // A request everyone has given up on may still be winding down; start over rather than join it.
+    if (!entry || entry.controller.signal.aborted) {
+        const controller = new AbortController();
+        const listeners = new Set<(progress: P) => void>();
+        const promise = compute(controller.signal, progress => listeners.forEach(listener => listener(progress)));
+        const created: InFlight<T, P> = { promise, controller, listeners, subscribers: 0 };
+        entry = created;
+        inFlight.set(key, created as InFlight<unknown, unknown>);
+        promise
+            .then(value => {
+                const ttl = typeof ttlMs === 'function' ? ttlMs(value) : ttlMs;
+                if (ttl <= 0) return;
+                const now = Date.now();
+                return putOne<CacheRecord<T>>(STORES.responseCache, { key, fingerprint, value, createdAt: now, expiresAt: now + ttl })
+                    .catch(error => console.warn('Caching the response failed:', error));
+            }, () => {})
+            .finally(() => {
+                if (inFlight.get(key) === created) inFlight.delete(key);
+            });
+    }
+    return { value: await subscribe(entry, options) };
+};
+
+export const clearResponseCache = (): Promise<void> => clearStore(STORES.responseCache);
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDate, parsePartialSearchResult, parseSearchResult, repairJson } from './resultSchema';
+import { EmptyResponseError, ParseError } from './errors';
+
+const reference = (title: string, uri: string) => ({ title, authors: ['Jane Smith'], publicationDate: '2021', uri });
+
+// A complete response, used to cut off at every length the way a stream delivers it.
+const RESPONSE = JSON.stringify({
+    summary: 'Sleep supports memory [1], as does replay [2].',
+    references: [reference('Sleep and memory', 'https://example.org/a'), reference('Replay "in" C:\\data', 'https://example.org/b')],
+});
+
+describe('repairJson', () => {
+    it.each([
+        ['complete JSON', '{"a": 1}', '{"a": 1}', false, 0],
+        ['prose around the JSON', 'Here you go: {"a": [1, 2]} Hope this helps.', '{"a": [1, 2]}', false, 0],
+        ['an escaped backslash before the closing quote', '{"path": "C:\\\\"}', '{"path": "C:\\\\"}', false, 0],
+        ['an unterminated string', '{"summary": "Sleep helps', '{"summary": "Sleep helps"}', true, 1],
+        ['a string cut after an escaped backslash', '{"path": "C:\\\\', '{"path": "C:\\\\"}', true, 1],
+        ['a string cut inside an escape', '{"path": "C:\\', '{"path": "C:"}', true, 1],
+        ['a string cut inside a unicode escape', '{"title": "na\\u00', '{"title": "na"}', true, 1],
+        ['a cut-off key', '{"a": 1, "summ', '{"a": 1}', true, 1],
+        ['a cut-off literal', '{"a": 1, "b": tr', '{"a": 1}', true, 1],
+        ['a number that may be incomplete', '{"a": [1, 2', '{"a": [1, 2]}', true, 2],
+        ['a list cut after an element', '{"references": [{"title": "A"},', '{"references": [{"title": "A"}]}', true, 2],
+        ['a list cut inside an element', '{"references": [{"title": "A"}, {"title": "B"', '{"references": [{"title": "A"}, {"title": "B"}]}', true, 3],
+        ['text without JSON', 'no json here', 'no json here', false, 0],
+    ])('repairs %s', (_, text, json, truncated, depth) => {
+        expect(repairJson(text)).toEqual({ json, truncated, depth });
+    });
+
+    it('yields parseable JSON for every prefix of a response', () => {
+        for (let length = 1; length <= RESPONSE.length; length++) {
+            const { json } = repairJson(RESPONSE.slice(0, length));
+            expect(() => JSON.parse(json), RESPONSE.slice(0, length)).not.toThrow();
+        }
+    });
+});
+
+describe('normalizeDate', () => {
+    it.each([
+        [2021, '2021'],
+        ['2021', '2021'],
+        ['2021/3/5', '2021-03-05'],
+        ['2021-03', '2021-03'],
+        ['2021-03-05T00:00:00Z', '2021-03-05'],
+        ['March 2021', '2021-03'],
+        ['5 Mar 2021', '2021-03-05'],
+        ['Spring 2021', '2021'],
+        ['in press', 'in press'],
+        [null, ''],
+        [20.5, ''],
+    ])('normalizes %j to %j', (raw, date) => {
+        expect(normalizeDate(raw)).toBe(date);
+    });
+});
+
+describe('parseSearchResult', () => {
+    it('strips code fences and keeps the valid references', () => {
+        const text = '```json\n' + JSON.stringify({
+            summary: 'A summary.',
+            references: [reference('Kept', 'example.org/kept'), { title: '' }, { title: 'Only a DOI', doi: '10.1000/xyz' }],
+        }) + '\n```';
+        const { result, issues, truncated } = parseSearchResult(text);
+        expect(result.references.map(ref => ref.uri)).toEqual(['https://example.org/kept', 'https://doi.org/10.1000/xyz']);
+        expect(issues).toEqual([{ index: 1, reason: "missing 'title'" }]);
+        expect(truncated).toBe(false);
+    });
+
+    it('reports a cut-off response as truncated', () => {
+        const { result, truncated } = parseSearchResult(RESPONSE.slice(0, RESPONSE.indexOf('example.org/b')));
+        expect(truncated).toBe(true);
+        expect(result.references.map(ref => ref.title)).toEqual(['Sleep and memory', 'Replay "in" C:\\data']);
+    });
+
+    it.each([
+        ['an empty response', '``` ```', EmptyResponseError],
+        ['an array', '[1, 2]', ParseError],
+        ['a missing summary', '{"references": []}', ParseError],
+        ['missing references', '{"summary": "A summary."}', ParseError],
+        ['only invalid references', '{"summary": "A summary.", "references": [{"title": "No link"}]}', ParseError],
+    ])('rejects %s', (_, text, error) => {
+        expect(() => parseSearchResult(text)).toThrow(error);
+    });
+});
+
+describe('parsePartialSearchResult', () => {
+    it.each([
+        ['nothing yet', '', { summary: '', references: [] }],
+        ['part of the summary', '{"summary": "Sleep supp', { summary: 'Sleep supp', references: [] }],
+        ['a reference still being written', RESPONSE.slice(0, RESPONSE.indexOf('https://example.org/a') + 12), { summary: 'Sleep supports memory [1], as does replay [2].', references: [] }],
+        ['one closed reference', RESPONSE.slice(0, RESPONSE.indexOf('{"title":"Replay')), { summary: 'Sleep supports memory [1], as does replay [2].', references: [reference('Sleep and memory', 'https://example.org/a')] }],
+    ])('reads %s', (_, text, result) => {
+        expect(parsePartialSearchResult(text)).toEqual(result);
+    });
+
+    it('only ever shows complete references while the response streams in', () => {
+        const { references } = parsePartialSearchResult(RESPONSE);
+        expect(references).toHaveLength(2);
+        for (let length = 0; length < RESPONSE.length; length++) {
+            const partial = parsePartialSearchResult(RESPONSE.slice(0, length));
+            expect(references.slice(0, partial.references.length)).toEqual(partial.references);
+        }
+    });
+});
@@ -0,0 +1,289 @@
+import type { Reference, SearchResult } from '../types';
+import { EmptyResponseError, ParseError } from './errors';
+
+type Frame = { kind: 'object' | 'array'; state: 'key' | 'colon' | 'value' | 'comma' };
+
+const closersFor = (stack: Frame[]): string =>
+    stack.slice().reverse().map(frame => (frame.kind === 'object' ? '}' : ']')).join('');
+
+const completeValue = (stack: Frame[]) => {
+    const top = stack[stack.length - 1];
+    if (top) top.state = 'comma';
+};
+
+/**
+ * Turns a possibly truncated JSON document into parseable JSON.
+ * Incomplete keys and literals are cut back to the last complete value, an unterminated
+ * string value is closed, and open objects and arrays are closed in order. `depth` is the
+ * number of them that were still open where the text was cut, so a caller can tell whether
+ * the last element of a list was complete.
+ */
+export const repairJson = (text: string): { json: string; truncated: boolean; depth: number } => {
+    const start = text.search(/[{[]/);
+    if (start === -1) {
+        return { json: text, truncated: false, depth: 0 };
+    }
+
+    const stack: Frame[] = [];
+    let lastSafe: { json: string; depth: number } | null = null;
+    const markSafe = (end: number) => {
+        lastSafe = { json: text.slice(start, end) + closersFor(stack), depth: stack.length };
+    };
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        const top = stack[stack.length - 1];
+
+        if (/\s/.test(char)) continue;
+
+        if (char === '{' || char === '[') {
+            stack.push({ kind: char === '{' ? 'object' : 'array', state: char === '{' ? 'key' : 'value' });
+            markSafe(i + 1);
+            continue;
+        }
+        if (char === '}' || char === ']') {
+            stack.pop();
+            if (stack.length === 0) {
+                return { json: text.slice(start, i + 1), truncated: false, depth: 0 };
+            }
+            completeValue(stack);
+            markSafe(i + 1);
+            continue;
+        }
+        if (char === ':') {
+            if (top) top.state = 'value';
+            continue;
+        }
+        if (char === ',') {
+            if (top) top.state = top.kind === 'object' ? 'key' : 'value';
+            continue;
+        }
+        if (char === '"') {
+            const isKey = top?.kind === 'object' && top.state === 'key';
+            let j = i + 1;
+            // Where an escape sequence cut off by the end of the text starts; complete ones like "\\" are kept.
+            let end = text.length;
+            while (j < text.length && text[j] !== '"') {
+                if (text[j] === '\\') {
+                    const length = text[j + 1] === 'u' ? 6 : 2;
+                    if (j + length > text.length) end = j;
+                    j += length;
+                } else {
+                    j++;
+                }
+            }
+            if (j >= text.length) {
+                if (isKey || lastSafe === null) break;
+                const body = text.slice(start, end);
+                completeValue(stack);
+                return { json: `${body}"${closersFor(stack)}`, truncated: true, depth: stack.length };
+            }
+            i = j;
+            if (isKey) {
+                top.state = 'colon';
+            } else {
+                completeValue(stack);
+                markSafe(i + 1);
+            }
+            continue;
+        }
+
+        // Bare literal: number, true, false or null.
+        let j = i;
+        while (j < text.length && !/[\s,\]}:]/.test(text[j])) j++;
+        const token = text.slice(i, j);
+        if (j >= text.length) {
+            try {
+                JSON.parse(token);
+            } catch {
+                break;
+            }
+        }
+        i = j - 1;
+        completeValue(stack);
+        markSafe(j);
+    }
+
+    const safe = lastSafe as { json: string; depth: number } | null;
+    return { json: safe?.json ?? text.slice(start), truncated: true, depth: safe?.depth ?? 0 };
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Normalizes the date formats models and indexes produce ("2021", "2021/3/5", "March 2021",
+ * "5 Mar 2021", "2021-03-05T00:00:00Z") to YYYY, YYYY-MM or YYYY-MM-DD. Unrecognized input is kept as is.
+ */
+export const normalizeDate = (raw: unknown): string => {
+    if (typeof raw === 'number' && Number.isInteger(raw)) return String(raw);
+    if (typeof raw !== 'string') return '';
+    const value = raw.trim();
+
+    const numeric = /^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?/.exec(value);
+    if (numeric) {
+        const [, year, month, day] = numeric;
+        if (!month) return year;
+        if (!day) return `${year}-${pad(Number(month))}`;
+        return `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+    }
+
+    const year = /\b(1[89]\d{2}|20\d{2})\b/.exec(value)?.[1];
+    if (!year) return value;
+    const monthIndex = MONTHS.findIndex(month => new RegExp(`\\b${month}`, 'i').test(value));
+    if (monthIndex === -1) return year;
+    const day = /\b(\d{1,2})\b/.exec(value.replace(year, ''))?.[1];
+    return day ? `${year}-${pad(monthIndex + 1)}-${pad(Number(day))}` : `${year}-${pad(monthIndex + 1)}`;
+};
+
+const normalizeAuthors = (raw: unknown): string[] => {
+    if (Array.isArray(raw)) {
+        return raw
+            .map(author => {
+                if (typeof author === 'string') return author.trim();
+                if (author && typeof author === 'object') {
+                    const { name, given, family } = author as Record<string, unknown>;
+                    if (typeof name === 'string') return name.trim();
+                    return [given, family].filter(part => typeof part === 'string').join(' ').trim();
+                }
+                return '';
+            })
+            .filter(Boolean);
+    }
+    // Models occasionally return "A. Smith, B. Jones and C. Lee" instead of an array.
+    if (typeof raw === 'string') {
+        return raw.split(/\s*(?:;|,|\band\b|&)\s*/).map(name => name.trim()).filter(Boolean);
+    }
+    return [];
+};
+
+const normalizeUri = (raw: unknown, doi?: string): string | undefined => {
+    if (typeof raw === 'string') {
+        const value = raw.trim();
+        if (/^https?:\/\//i.test(value)) return value;
+        if (/^10\.\d{4,9}\//.test(value)) return `https://doi.org/${value}`;
+        if (/^(www\.|[\w-]+\.[a-z]{2,}\/)/i.test(value)) return `https://${value}`;
+    }
+    return doi ? `https://doi.org/${doi}` : undefined;
+};
+
+const optionalString = (raw: unknown): string | undefined =>
+    typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+
+export interface ValidationIssue {
+    index: number;
+    reason: string;
+}
+
+// Validates one raw reference object; returns null with a reason when it cannot be used.
+export const validateReference = (raw: unknown): { reference: Reference | null; reason?: string } => {
+    if (!raw || typeof raw !== 'object') {
+        return { reference: null, reason: 'not an object' };
+    }
+    const data = raw as Record<string, unknown>;
+    const title = optionalString(data.title);
+    if (!title) {
+        return { reference: null, reason: "missing 'title'" };
+    }
+    const doi = optionalString(data.doi);
+    const uri = normalizeUri(data.uri ?? data.url, doi);
+    if (!uri) {
+        return { reference: null, reason: "missing or invalid 'uri'" };
+    }
+    return {
+        reference: {
+            title,
+            authors: normalizeAuthors(data.authors),
+            publicationDate: normalizeDate(data.publicationDate ?? data.date ?? data.year),
+            uri,
+            abstract: optionalString(data.abstract),
+            doi,
+            venue: optionalString(data.venue),
+        },
+    };
+};
+
+export interface ParsedSearchResult {
+    result: SearchResult;
+    issues: ValidationIssue[];
+    truncated: boolean;
+}
+
+/**
+ * Parses raw model output into a SearchResult: strips code fences and surrounding prose,
+ * repairs truncation, and validates every reference. Invalid references are dropped and
+ * reported in `issues` rather than failing the whole response.
+ */
+export const parseSearchResult = (text: string): ParsedSearchResult => {
+    const sanitized = text.replace(/```(?:json)?/gi, '').trim();
+    if (!sanitized) {
+        throw new EmptyResponseError("Received an empty JSON string from the model.");
+    }
+
+    const { json, truncated } = repairJson(sanitized);
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new ParseError(`The model's response is not valid JSON${truncated ? ' (it appears to be cut off)' : ''}.`, truncated, { cause: error });
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new ParseError("The model's response is not a JSON object.", truncated);
+    }
+
+    const record = data as Record<string, unknown>;
+    const summary = optionalString(record.summary);
+    if (!summary) {
+        throw new ParseError("JSON response is missing the 'summary' field.", truncated);
+    }
+    if (!Array.isArray(record.references)) {
+        throw new ParseError("JSON response is missing the 'references' field.", truncated);
+    }
+
+    const issues: ValidationIssue[] = [];
+    const references: Reference[] = [];
+    record.references.forEach((raw, index) => {
+        const { reference, reason } = validateReference(raw);
+        if (reference) {
+            references.push(reference);
+        } else {
+            issues.push({ index, reason: reason ?? 'invalid' });
+        }
+    });
+
+    if (references.length === 0 && record.references.length > 0) {
+        throw new ParseError(`None of the ${record.references.length} references in the response were valid.`, truncated);
+    }
+    return { result: { summary, references }, issues, truncated };
+};
+
+/**
+ * Reads whatever can already be used from a response that is still streaming: the summary
+ * text so far and every reference whose object has been closed. Never throws.
+ */
+export const parsePartialSearchResult = (text: string): SearchResult => {
+    const sanitized = text.replace(/```(?:json)?/gi, '').trim();
+    let data: unknown;
+    let depth: number;
+    try {
+        const repaired = repairJson(sanitized);
+        depth = repaired.depth;
+        data = JSON.parse(repaired.json);
+    } catch {
+        return { summary: '', references: [] };
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { summary: '', references: [] };
+    }
+
+    const record = data as Record<string, unknown>;
+    const rawReferences = Array.isArray(record.references) ? record.references : [];
+    // Cut inside a reference (deeper than the root object and its array), the last one may have a half-written uri.
+    const complete = depth > 2 ? rawReferences.slice(0, -1) : rawReferences;
+    return {
+        summary: typeof record.summary === 'string' ? record.summary : '',
+        references: complete
+            .map(raw => validateReference(raw).reference)
+            .filter((reference): reference is Reference => reference !== null),
+    };
+};
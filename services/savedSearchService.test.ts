@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Reference, SavedSearch, SearchResult } from '../types';
+import { rerunSavedSearch } from './savedSearchService';
+import { searchDateWindows } from './literatureService';
+
+const store = new Map<string, SavedSearch>();
+
+vi.mock('./db', () => ({
+    STORES: { savedSearches: 'savedSearches' },
+    getOne: async (_store: string, id: string) => store.get(id),
+    putOne: async (_store: string, search: SavedSearch) => { store.set(search.id, search); },
+}));
+
+vi.mock('./literatureService', () => ({ searchDateWindows: vi.fn() }));
+
+const paper = (title: string, uri: string): Reference => ({ title, authors: ['A. Author'], publicationDate: '2020', uri });
+
+const pubmedPaper = paper('Sleep spindles and memory consolidation', 'https://pubmed.ncbi.nlm.nih.gov/1/');
+const arxivPaper = paper('A model of replay during slow-wave sleep', 'https://arxiv.org/abs/2001.00001');
+const newPaper = paper('Targeted memory reactivation in older adults', 'https://arxiv.org/abs/2401.00002');
+
+const saved: SavedSearch = {
+    id: 'sleep',
+    name: 'Sleep',
+    query: 'sleep and memory',
+    sources: ['pubmed', 'arxiv'],
+    timeRange: { startYear: 2015, endYear: 2020, windowSize: 0, parallel: false },
+    windows: [{ startYear: 2015, endYear: 2020 }],
+    verify: false,
+    dropUnresolvable: false,
+    summary: 'Earlier summary',
+    snapshot: [pubmedPaper, arxivPaper],
+    schedule: 'weekly',
+    createdAt: 0,
+    lastRunAt: 0,
+    lastDiff: null,
+    unseen: [],
+};
+
+const searchReturns = (result: SearchResult) => vi.mocked(searchDateWindows).mockResolvedValue(result);
+
+describe('rerunSavedSearch', () => {
+    beforeEach(() => {
+        store.clear();
+        store.set(saved.id, saved);
+    });
+
+    it('diffs a complete run against the previous snapshot', async () => {
+        searchReturns({ summary: 'New summary', references: [arxivPaper, newPaper] });
+        const updated = await rerunSavedSearch(saved.id);
+        expect(updated.snapshot).toEqual([arxivPaper, newPaper]);
+        expect(updated.lastDiff?.added).toEqual([newPaper]);
+        expect(updated.lastDiff?.removed).toEqual([pubmedPaper]);
+        expect(updated.unseen).toEqual([newPaper]);
+        expect(updated.lastRunAt).toBeGreaterThan(0);
+    });
+
+    it('keeps the previous snapshot when a provider failed', async () => {
+        const warning = { kind: 'provider' as const, sources: ['pubmed'], window: saved.windows[0], error: 'The service is unavailable.' };
+        searchReturns({ summary: 'Partial summary', references: [arxivPaper, newPaper], warnings: [warning] });
+        const updated = await rerunSavedSearch(saved.id);
+        expect(updated.snapshot).toEqual(saved.snapshot);
+        expect(updated.summary).toBe('Earlier summary');
+        expect(updated.lastDiff).toBeNull();
+        expect(updated.unseen).toEqual([]);
+        expect(updated.lastWarnings).toEqual([warning]);
+        // Still due, so the next check runs it again.
+        expect(updated.lastRunAt).toBe(0);
+        expect(store.get(saved.id)).toEqual(updated);
+    });
+
+    it('clears the warnings of an earlier failed run', async () => {
+        store.set(saved.id, { ...saved, lastWarnings: [{ kind: 'provider', sources: ['pubmed'], error: 'Timed out.' }] });
+        searchReturns({ summary: 'New summary', references: [pubmedPaper, arxivPaper] });
+        const updated = await rerunSavedSearch(saved.id);
+        expect(updated.lastWarnings).toEqual([]);
+        expect(updated.lastDiff).toMatchObject({ added: [], removed: [], changed: [] });
+    });
+});
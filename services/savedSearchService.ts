@@ -0,0 +1,184 @@
+import type { DateRange, RecheckSchedule, Reference, ReferenceChange, SavedSearch, SearchDiff, TimeRange, TrackedField } from '../types';
+import { STORES, deleteOne, getAll, getOne, putOne } from './db';
+import { dedupeReferences, isSameWork } from './deduplication';
+import { searchDateWindows } from './literatureService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEDULE_INTERVALS: Record<Exclude<RecheckSchedule, 'manual'>, number> = {
+    onOpen: 0,
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS,
+};
+
+const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listSavedSearches = async (): Promise<SavedSearch[]> => {
+    const searches = await getAll<SavedSearch>(STORES.savedSearches);
+    return searches.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export interface SavedSearchOptions {
+    // The windows that were searched; in sequential mode that is fewer than the whole time range.
+    windows: DateRange[];
+    verify: boolean;
+    dropUnresolvable: boolean;
+}
+
+export const createSavedSearch = async (
+    name: string,
+    query: string,
+    sources: string[],
+    timeRange: TimeRange,
+    summary: string,
+    references: Reference[],
+    { windows, verify, dropUnresolvable }: SavedSearchOptions,
+): Promise<SavedSearch> => {
+    const now = Date.now();
+    const search: SavedSearch = {
+        id: createId(),
+        name: name.trim() || query,
+        query,
+        sources,
+        timeRange,
+        windows,
+        verify,
+        dropUnresolvable,
+        summary,
+        snapshot: references,
+        schedule: 'weekly',
+        createdAt: now,
+        lastRunAt: now,
+        lastDiff: null,
+        unseen: [],
+    };
+    await putOne(STORES.savedSearches, search);
+    return search;
+};
+
+const getSavedSearch = async (id: string): Promise<SavedSearch> => {
+    const search = await getOne<SavedSearch>(STORES.savedSearches, id);
+    if (!search) {
+        throw new Error('This saved search no longer exists.');
+    }
+    return search;
+};
+
+export const updateSavedSearch = async (id: string, changes: Partial<Pick<SavedSearch, 'name' | 'schedule'>>): Promise<SavedSearch> => {
+    const search: SavedSearch = { ...await getSavedSearch(id), ...changes };
+    await putOne(STORES.savedSearches, search);
+    return search;
+};
+
+export const removeSavedSearch = (id: string): Promise<void> => deleteOne(STORES.savedSearches, id);
+
+// Clears the digest entries of one saved search.
+export const markSeen = async (id: string): Promise<SavedSearch> => {
+    const search: SavedSearch = { ...await getSavedSearch(id), unseen: [] };
+    await putOne(STORES.savedSearches, search);
+    return search;
+};
+
+export const isDue = (search: SavedSearch, now = Date.now()): boolean =>
+    search.schedule !== 'manual' && now - search.lastRunAt >= SCHEDULE_INTERVALS[search.schedule];
+
+const TRACKED_FIELDS: Record<TrackedField, (ref: Reference) => string> = {
+    title: ref => ref.title,
+    authors: ref => ref.authors.join(', '),
+    publicationDate: ref => ref.publicationDate,
+    venue: ref => ref.venue ?? '',
+    doi: ref => ref.doi ?? '',
+    citationCount: ref => (ref.citationCount === undefined ? '' : String(ref.citationCount)),
+    verification: ref => ref.verification?.status ?? '',
+};
+
+// Only values that changed between two non-empty states count; a field one run simply lacks is noise.
+const compareFields = (before: Reference, after: Reference): ReferenceChange[] =>
+    (Object.keys(TRACKED_FIELDS) as TrackedField[])
+        .map(field => ({ field, before: TRACKED_FIELDS[field](before), after: TRACKED_FIELDS[field](after) }))
+        .filter(change => change.before && change.after && change.before !== change.after);
+
+/**
+ * Compares two result sets by work identity (DOI, arXiv ID, URL or fuzzy title), not by position,
+ * so a paper that moved in the ranking or switched to its published version is not reported as new.
+ */
+export const diffReferences = (previous: Reference[], current: Reference[]): SearchDiff => {
+    const matched = new Set<Reference>();
+    const added: Reference[] = [];
+    const changed: SearchDiff['changed'] = [];
+    current.forEach(ref => {
+        const before = previous.find(candidate => !matched.has(candidate) && isSameWork(candidate, ref));
+        if (!before) {
+            added.push(ref);
+            return;
+        }
+        matched.add(before);
+        const changes = compareFields(before, ref);
+        if (changes.length > 0) changed.push({ reference: ref, changes });
+    });
+    return {
+        added,
+        removed: previous.filter(ref => !matched.has(ref)),
+        changed,
+        comparedAt: Date.now(),
+    };
+};
+
+// The windows found on a set of results, newest first; used when the searched windows were not recorded.
+export const windowsOf = (references: Reference[]): DateRange[] => {
+    const windows = new Map<string, DateRange>();
+    references.forEach(ref => {
+        if (ref.searchWindow) windows.set(`${ref.searchWindow.startYear}-${ref.searchWindow.endYear ?? ''}`, ref.searchWindow);
+    });
+    return Array.from(windows.values()).sort((a, b) => (b.endYear ?? Infinity) - (a.endYear ?? Infinity));
+};
+
+// A window that reached the year the search was saved keeps following the current year on later runs.
+const currentWindows = (search: SavedSearch): DateRange[] => {
+    const savedYear = new Date(search.createdAt).getFullYear();
+    const currentYear = new Date().getFullYear();
+    return search.windows.map(window =>
+        window.endYear !== undefined && window.endYear >= savedYear ? { ...window, endYear: Math.max(window.endYear, currentYear) } : window
+    );
+};
+
+/**
+ * Runs the saved search again over the windows it was saved with, stores the new snapshot and returns
+ * the updated search with the diff against the previous run. New papers are added to the digest.
+ * A run in which a provider failed only records its warnings: the missing papers would otherwise show
+ * up as removed, and as new again on the next complete run.
+ */
+export const rerunSavedSearch = async (id: string, signal?: AbortSignal): Promise<SavedSearch> => {
+    const search = await getSavedSearch(id);
+    // A re-run exists to find what changed, so it must never replay a cached result.
+    const result = await searchDateWindows(search.query, search.sources, currentWindows(search), {
+        verify: search.verify,
+        dropUnresolvable: search.dropUnresolvable,
+        refresh: true,
+        signal,
+    });
+    // Re-read so a rename or schedule change made while the search ran is not overwritten.
+    const latest = await getSavedSearch(id);
+    const warnings = result.warnings ?? [];
+    if (warnings.some(warning => warning.kind === 'provider')) {
+        // `lastRunAt` stays put, so the search is still due and is retried the next time the app opens.
+        const updated: SavedSearch = { ...latest, lastWarnings: warnings };
+        await putOne(STORES.savedSearches, updated);
+        return updated;
+    }
+    const diff = diffReferences(search.snapshot, result.references);
+    const updated: SavedSearch = {
+        ...latest,
+        summary: result.summary,
+        snapshot: result.references,
+        lastRunAt: Date.now(),
+        lastDiff: diff,
+        lastWarnings: warnings,
+        unseen: dedupeReferences([...latest.unseen, ...diff.added]),
+    };
+    await putOne(STORES.savedSearches, updated);
+    return updated;
+};
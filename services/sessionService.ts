@@ -0,0 +1,34 @@
+import type { DateRange, GroundingChunk, LiteratureReview, Reference } from '../types';
+import type { SavedSearchOptions } from './savedSearchService';
+import { STORES, getOne, putOne } from './db';
+
+const CURRENT_SESSION_ID = 'current';
+
+export interface SearchSession {
+    query: string;
+    summary: string | null;
+    references: Reference[];
+    groundingChunks: GroundingChunk[];
+    selectedURIs: string[];
+    // Date windows not searched yet, newest first.
+    pendingWindows: DateRange[];
+    // How the current results were searched, so saving them as a saved search re-runs the same windows.
+    searchOptions: SavedSearchOptions | null;
+    // Kept across searches, since it carries its own references and may hold the user's edits.
+    review: LiteratureReview | null;
+    savedAt: number;
+}
+
+export const loadSession = async (): Promise<SearchSession | null> => {
+    const stored = await getOne<SearchSession & { id: string }>(STORES.sessions, CURRENT_SESSION_ID);
+    if (!stored) return null;
+    const { id: _id, ...session } = stored;
+    return {
+        ...session,
+        searchOptions: session.searchOptions ?? null,
+        review: session.review ?? null,
+    };
+};
+
+export const saveSession = (session: Omit<SearchSession, 'savedAt'>): Promise<void> =>
+    putOne(STORES.sessions, { ...session, id: CURRENT_SESSION_ID, savedAt: Date.now() });
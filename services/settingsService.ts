@@ -0,0 +1,79 @@
+import type { BackendSettings, ModelBackendKind, ModelSettings, ModelTask } from '../types';
+
+const STORAGE_KEY = 'paperfinder.settings';
+
+export const DEFAULT_MODELS: Record<Exclude<ModelBackendKind, 'mock'>, Record<ModelTask, string>> = {
+    gemini: { search: 'gemini-2.5-flash', qa: 'gemini-2.5-flash', embedding: 'gemini-embedding-001' },
+    openai: { search: 'gpt-4o-mini', qa: 'gpt-4o-mini', embedding: 'text-embedding-3-small' },
+};
+
+export const DEFAULT_SETTINGS: ModelSettings = {
+    // A key supplied at build time keeps working; without one the app starts in the offline mock mode.
+    backend: process.env.API_KEY ? 'gemini' : 'mock',
+    gemini: { apiKey: '', baseUrl: '', models: DEFAULT_MODELS.gemini },
+    openai: { apiKey: '', baseUrl: 'https://api.openai.com/v1', models: DEFAULT_MODELS.openai },
+    temperature: 0.7,
+    resultCount: 20,
+};
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const RESULT_COUNT_RANGE = { min: 5, max: 50 };
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const mergeBackend = (stored: Partial<BackendSettings> | undefined, defaults: BackendSettings): BackendSettings => ({
+    apiKey: typeof stored?.apiKey === 'string' ? stored.apiKey : defaults.apiKey,
+    baseUrl: typeof stored?.baseUrl === 'string' && stored.baseUrl ? stored.baseUrl : defaults.baseUrl,
+    models: {
+        search: stored?.models?.search || defaults.models.search,
+        qa: stored?.models?.qa || defaults.models.qa,
+        embedding: stored?.models?.embedding || defaults.models.embedding,
+    },
+});
+
+// Settings saved by an older version may lack newer fields, so every field falls back to its default.
+const normalizeSettings = (stored: Partial<ModelSettings>): ModelSettings => ({
+    backend: stored.backend === 'gemini' || stored.backend === 'openai' || stored.backend === 'mock' ? stored.backend : DEFAULT_SETTINGS.backend,
+    gemini: mergeBackend(stored.gemini, DEFAULT_SETTINGS.gemini),
+    openai: mergeBackend(stored.openai, DEFAULT_SETTINGS.openai),
+    temperature: clamp(stored.temperature, TEMPERATURE_RANGE, DEFAULT_SETTINGS.temperature),
+    resultCount: Math.round(clamp(stored.resultCount, RESULT_COUNT_RANGE, DEFAULT_SETTINGS.resultCount)),
+});
+
+const readStoredSettings = (): ModelSettings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? normalizeSettings(JSON.parse(raw)) : DEFAULT_SETTINGS;
+    } catch (error) {
+        console.warn('Reading the saved settings failed; using the defaults.', error);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+let current: ModelSettings | null = null;
+
+// The settings services read at call time, so a change applies to the next request without a reload.
+export const getSettings = (): ModelSettings => {
+    if (!current) current = readStoredSettings();
+    return current;
+};
+
+// The model the current backend uses for `task`.
+export const activeModel = (task: ModelTask, settings: ModelSettings = getSettings()): string =>
+    settings.backend === 'mock' ? 'mock' : settings[settings.backend].models[task];
+
+// Part of cache keys, so switching the backend, its endpoint or the model is not answered from the cache.
+export const modelCacheKey = (task: ModelTask, settings: ModelSettings = getSettings()): [ModelBackendKind, string, string] =>
+    [settings.backend, settings.backend === 'mock' ? '' : settings[settings.backend].baseUrl, activeModel(task, settings)];
+
+// Settings, including API keys, stay in this browser's localStorage and are only sent to the configured endpoint.
+export const saveSettings = (settings: ModelSettings): ModelSettings => {
+    current = normalizeSettings(settings);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    } catch (error) {
+        console.warn('Saving the settings failed; they apply until the page is reloaded.', error);
+    }
+    return current;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ParseError } from './errors';
+import { parseSessionJson } from './shareService';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+const sessionJson = (fields: Record<string, unknown>): string =>
+    JSON.stringify({ version: 1, query: 'sleep and memory', references: [], ...fields });
+
+describe('parseSessionJson', () => {
+    it('rejects input that is not a session', () => {
+        expect(() => parseSessionJson('{"query": 1}')).toThrow(ParseError);
+        expect(() => parseSessionJson('not json')).toThrow(ParseError);
+    });
+
+    it.each([
+        ['years out of range', { startYear: -999999999, endYear: 99999, windowSize: 2, parallel: true }, { startYear: 1900, endYear: CURRENT_YEAR, windowSize: 2, parallel: true }],
+        ['an unsupported window size', { startYear: 2000, endYear: 2020, windowSize: 1 }, { startYear: 2000, endYear: 2020, windowSize: 0, parallel: false }],
+        ['a fractional window size', { startYear: 2000, endYear: 2020, windowSize: 2.5 }, { startYear: 2000, endYear: 2020, windowSize: 0, parallel: false }],
+        ['reversed years', { startYear: 2020, endYear: 2000, windowSize: 10 }, { startYear: 2000, endYear: 2020, windowSize: 10, parallel: false }],
+    ])('bounds a time range with %s', (_, timeRange, expected) => {
+        expect(parseSessionJson(sessionJson({ timeRange })).timeRange).toEqual(expected);
+    });
+
+    it('falls back to the last five years without a valid time range', () => {
+        expect(parseSessionJson(sessionJson({ timeRange: { startYear: '2000' } })).timeRange)
+            .toEqual({ startYear: CURRENT_YEAR - 5, endYear: CURRENT_YEAR, windowSize: 0, parallel: false });
+    });
+
+    it('drops references with links that are not web links', () => {
+        const references = [
+            { title: 'Kept', authors: ['A. Author'], uri: 'https://example.org/kept' },
+            { title: 'Dropped', authors: [], uri: 'javascript:alert(1)' },
+        ];
+        const session = parseSessionJson(sessionJson({ references, selectedURIs: ['https://example.org/kept', 'javascript:alert(1)'] }));
+        expect(session.references.map(ref => ref.title)).toEqual(['Kept']);
+        expect(session.selectedURIs).toEqual(['https://example.org/kept']);
+    });
+});
@@ -0,0 +1,212 @@
+import type { ChatMessage, CitationRelation, DateRange, GroundingChunk, PaperExtraction, Reference, TimeRange, VerificationResult, VerificationStatus } from '../types';
+import { ParseError } from './errors';
+import { createMessage } from './chatService';
+import { normalizeTimeRange } from './dateWindows';
+import { EXTRACTION_TEXT_FIELDS, STUDY_DESIGNS } from './paperExtraction';
+import type { ExtractionTextField } from './paperExtraction';
+
+const FORMAT_VERSION = 1;
+const HASH_PREFIX = '#session=';
+
+// Links longer than this are unreliable in chat apps and some browsers; the JSON file has no limit.
+export const MAX_LINK_LENGTH = 32000;
+
+/** A complete, self-contained copy of a search that opens without querying the model again. */
+export interface SharedSession {
+    version: number;
+    query: string;
+    sources: string[];
+    timeRange: TimeRange;
+    summary: string | null;
+    references: Reference[];
+    groundingChunks: GroundingChunk[];
+    selectedURIs: string[];
+    // The Q&A transcript about the selected references.
+    messages: ChatMessage[];
+    sharedAt: number;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// The browser's built-in deflate keeps links short without a compression library.
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const VERIFICATION_STATUSES: VerificationStatus[] = ['verified', 'mismatched', 'unresolvable'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isYear = (value: unknown): value is number => Number.isInteger(value);
+
+const optionalString = (value: unknown): string | undefined => (isString(value) ? value : undefined);
+
+// Links from a shared session end up in href attributes, so only web links are accepted.
+const isWebUrl = (value: unknown): value is string => {
+    if (!isString(value)) return false;
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const toDateRange = (value: unknown): DateRange | undefined => {
+    const range = value as DateRange | undefined;
+    if (!isYear(range?.startYear)) return undefined;
+    return isYear(range.endYear) ? { startYear: range.startYear, endYear: range.endYear } : { startYear: range.startYear };
+};
+
+const toVerification = (value: unknown): VerificationResult | undefined => {
+    const result = value as VerificationResult | undefined;
+    if (!result || !VERIFICATION_STATUSES.includes(result.status)) return undefined;
+    return {
+        status: result.status,
+        checkedAgainst: optionalString(result.checkedAgainst),
+        resolvedUri: isWebUrl(result.resolvedUri) ? result.resolvedUri : undefined,
+        mismatches: Array.isArray(result.mismatches) ? result.mismatches.filter(isString) : undefined,
+        error: optionalString(result.error),
+    };
+};
+
+const toCitationRelations = (value: unknown): CitationRelation[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const relations = value
+        .filter((relation: CitationRelation) => (relation?.direction === 'citing' || relation?.direction === 'cited') && isString(relation.seedURI))
+        .map((relation: CitationRelation) => ({ direction: relation.direction, seedURI: relation.seedURI }));
+    return relations.length > 0 ? relations : undefined;
+};
+
+const toExtraction = (value: unknown): PaperExtraction | undefined => {
+    const extraction = value as PaperExtraction | undefined;
+    if (!extraction || !STUDY_DESIGNS.includes(extraction.studyDesign)) return undefined;
+    const sampleSize = extraction.sampleSize;
+    return {
+        ...Object.fromEntries(EXTRACTION_TEXT_FIELDS.map(field => [field, optionalString(extraction[field]) ?? ''])) as Record<ExtractionTextField, string>,
+        studyDesign: extraction.studyDesign,
+        sampleSize: Number.isInteger(sampleSize) && sampleSize! > 0 ? sampleSize : undefined,
+        source: extraction.source === 'fullText' ? 'fullText' : 'abstract',
+        extractedAt: typeof extraction.extractedAt === 'number' ? extraction.extractedAt : Date.now(),
+    };
+};
+
+// Rebuilds a reference from the fields this version knows, dropping any whose shape is wrong.
+const toReference = (value: unknown): Reference | null => {
+    const ref = value as Reference | undefined;
+    if (!isString(ref?.title) || !isWebUrl(ref.uri) || !Array.isArray(ref.authors)) return null;
+    const alternateURIs = Array.isArray(ref.alternateURIs) ? ref.alternateURIs.filter(isWebUrl) : [];
+    return {
+        title: ref.title,
+        authors: ref.authors.filter(isString),
+        publicationDate: optionalString(ref.publicationDate) ?? '',
+        uri: ref.uri,
+        alternateURIs: alternateURIs.length > 0 ? alternateURIs : undefined,
+        abstract: optionalString(ref.abstract),
+        doi: optionalString(ref.doi),
+        venue: optionalString(ref.venue),
+        source: optionalString(ref.source),
+        citationCount: Number.isInteger(ref.citationCount) && ref.citationCount! >= 0 ? ref.citationCount : undefined,
+        verification: toVerification(ref.verification),
+        preprintDate: optionalString(ref.preprintDate),
+        searchWindow: toDateRange(ref.searchWindow),
+        citationRelations: toCitationRelations(ref.citationRelations),
+        extraction: toExtraction(ref.extraction),
+    };
+};
+
+const toGroundingChunk = (value: unknown): GroundingChunk | null => {
+    const web = (value as GroundingChunk | undefined)?.web;
+    return web && isWebUrl(web.uri) ? { web: { uri: web.uri, title: optionalString(web.title) ?? web.uri } } : null;
+};
+
+const toMessage = (value: unknown): ChatMessage | null => {
+    const message = value as ChatMessage | undefined;
+    if ((message?.role !== 'user' && message?.role !== 'model') || !isString(message.text)) return null;
+    return {
+        ...createMessage(message.role, message.text),
+        ...(isString(message.id) ? { id: message.id } : {}),
+        ...(typeof message.createdAt === 'number' ? { createdAt: message.createdAt } : {}),
+        ...(typeof message.cachedAt === 'number' ? { cachedAt: message.cachedAt } : {}),
+        ...(message.stopped === true ? { stopped: true } : {}),
+    };
+};
+
+const isPresent = <T>(value: T | null): value is T => value !== null;
+
+// Checks the shape of untrusted input, field by field; invalid entries and fields are dropped.
+const validate = (data: unknown): SharedSession => {
+    const session = data as Partial<SharedSession>;
+    if (typeof session?.query !== 'string' || !Array.isArray(session.references) || typeof session.version !== 'number') {
+        throw new ParseError('This is not a shared search session.');
+    }
+    if (session.version > FORMAT_VERSION) {
+        throw new ParseError('This session was shared from a newer version of the app.');
+    }
+    const references = session.references.map(toReference).filter(isPresent);
+    const timeRange = session.timeRange;
+    const currentYear = new Date().getFullYear();
+    return {
+        version: session.version,
+        query: session.query,
+        sources: Array.isArray(session.sources) ? session.sources.filter(isString) : [],
+        timeRange: timeRange && isYear(timeRange.startYear) && isYear(timeRange.endYear)
+            ? normalizeTimeRange({
+                startYear: timeRange.startYear,
+                endYear: timeRange.endYear,
+                windowSize: isYear(timeRange.windowSize) ? timeRange.windowSize : 0,
+                parallel: timeRange.parallel === true,
+            })
+            : { startYear: currentYear - 5, endYear: currentYear, windowSize: 0, parallel: false },
+        summary: typeof session.summary === 'string' ? session.summary : null,
+        references,
+        groundingChunks: Array.isArray(session.groundingChunks) ? session.groundingChunks.map(toGroundingChunk).filter(isPresent) : [],
+        selectedURIs: Array.isArray(session.selectedURIs) ? session.selectedURIs.filter(uri => references.some(ref => ref.uri === uri)) : [],
+        messages: Array.isArray(session.messages) ? session.messages.map(toMessage).filter(isPresent) : [],
+        sharedAt: typeof session.sharedAt === 'number' ? session.sharedAt : Date.now(),
+    };
+};
+
+export const createSharedSession = (session: Omit<SharedSession, 'version' | 'sharedAt'>): SharedSession => ({
+    ...session,
+    version: FORMAT_VERSION,
+    sharedAt: Date.now(),
+});
+
+export const sessionToJson = (session: SharedSession): string => JSON.stringify(session, null, 2);
+
+export const parseSessionJson = (text: string): SharedSession => {
+    try {
+        return validate(JSON.parse(text));
+    } catch (error) {
+        if (error instanceof SyntaxError) throw new ParseError('The file is not valid JSON.', false, { cause: error });
+        throw error;
+    }
+};
+
+// Returns a link to this page that carries the whole session in its fragment, which is never sent to a server.
+export const createSessionLink = async (session: SharedSession, baseUrl: string): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(session));
+    const compressed = await transform(bytes, new CompressionStream('deflate-raw'));
+    return `${baseUrl.split('#')[0]}${HASH_PREFIX}${toBase64Url(compressed)}`;
+};
+
+// Reads a session from a link's fragment; resolves with null when the fragment holds none.
+export const readSessionLink = async (hash: string): Promise<SharedSession | null> => {
+    if (!hash.startsWith(HASH_PREFIX)) return null;
+    try {
+        const decompressed = await transform(fromBase64Url(hash.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+        return parseSessionJson(new TextDecoder().decode(decompressed));
+    } catch (error) {
+        if (error instanceof ParseError) throw error;
+        throw new ParseError('The shared link is incomplete or damaged.', true, { cause: error });
+    }
+};
@@ -0,0 +1,109 @@
+import type { Reference } from '../types';
+import { embedTexts, labelClusters } from './geminiService';
+import type { ClusterLabel } from './geminiService';
+import { EmptyResponseError } from './errors';
+
+export interface TopicCluster {
+    id: string;
+    label: string;
+    // A focused follow-up search for the subtopic.
+    query: string;
+    // In the order the references were listed when clustering ran.
+    referenceURIs: string[];
+}
+
+export interface ClusterOptions {
+    clusterCount?: number;
+    signal?: AbortSignal;
+}
+
+export const MIN_CLUSTER_REFERENCES = 6;
+const MAX_CLUSTERS = 8;
+const ITERATIONS = 50;
+
+// Roughly sqrt(n / 2) groups: 3 for 20 papers, 5 for 50, capped so labels stay distinguishable.
+export const suggestedClusterCount = (referenceCount: number): number =>
+    Math.min(MAX_CLUSTERS, Math.max(2, Math.round(Math.sqrt(referenceCount / 2))));
+
+const normalize = (vector: number[]): number[] => {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length ? vector.map(value => value / length) : vector;
+};
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0);
+
+/**
+ * Spherical k-means over unit vectors. Seeds are picked farthest-first starting from the first
+ * vector, so the same input always produces the same groups. Returns a cluster index per vector.
+ */
+const kMeans = (vectors: number[][], k: number): number[] => {
+    const centroids = [vectors[0]];
+    while (centroids.length < k) {
+        const distances = vectors.map(vector => Math.min(...centroids.map(centroid => 1 - dot(vector, centroid))));
+        centroids.push(vectors[distances.indexOf(Math.max(...distances))]);
+    }
+
+    let assignments: number[] = [];
+    for (let step = 0; step < ITERATIONS; step++) {
+        const next = vectors.map(vector => {
+            const similarities = centroids.map(centroid => dot(vector, centroid));
+            return similarities.indexOf(Math.max(...similarities));
+        });
+        if (next.every((cluster, i) => cluster === assignments[i])) break;
+        assignments = next;
+        centroids.forEach((centroid, cluster) => {
+            const members = vectors.filter((_, i) => assignments[i] === cluster);
+            // An emptied cluster keeps its old centroid and may pick up members again.
+            if (members.length === 0) return;
+            centroids[cluster] = normalize(centroid.map((_, d) => members.reduce((sum, member) => sum + member[d], 0)));
+        });
+    }
+    return assignments;
+};
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'from', 'by', 'via', 'using', 'based', 'is', 'are', 'towards', 'toward', 'its', 'their', 'study', 'analysis', 'approach']);
+
+// The most frequent title words, used when the model cannot name the groups.
+const keywordLabel = (references: Reference[]): ClusterLabel => {
+    const counts = new Map<string, number>();
+    references.forEach(ref => {
+        new Set(ref.title.toLowerCase().match(/[a-z][a-z0-9-]{2,}|[\u4e00-\u9fff]{2,}/g) ?? [])
+            .forEach(word => { if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1); });
+    });
+    const words = Array.from(counts).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([word]) => word);
+    const label = words.join(' / ') || references[0].title;
+    return { label, query: words.join(' ') || references[0].title };
+};
+
+/**
+ * Groups references into subtopics by embedding their titles and abstracts, then asks the model
+ * to name each group. Larger groups come first.
+ */
+export const clusterReferences = async (query: string, references: Reference[], { clusterCount, signal }: ClusterOptions = {}): Promise<TopicCluster[]> => {
+    if (references.length < MIN_CLUSTER_REFERENCES) {
+        throw new EmptyResponseError(`At least ${MIN_CLUSTER_REFERENCES} references are needed to find subtopics.`);
+    }
+    const embeddings = await embedTexts(references.map(ref => `${ref.title}\n${ref.abstract ?? ''}`), 'CLUSTERING');
+    signal?.throwIfAborted();
+
+    const k = Math.min(clusterCount ?? suggestedClusterCount(references.length), references.length);
+    const assignments = kMeans(embeddings.map(normalize), k);
+    const groups = Array.from({ length: k }, (_, cluster) => references.filter((_, i) => assignments[i] === cluster))
+        .filter(group => group.length > 0)
+        .sort((a, b) => b.length - a.length);
+
+    let labels: ClusterLabel[];
+    try {
+        labels = await labelClusters(query, groups, { signal });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Labelling the clusters failed; falling back to title keywords.', error);
+        labels = groups.map(keywordLabel);
+    }
+
+    return groups.map((group, index) => ({
+        id: `cluster-${index + 1}`,
+        ...labels[index],
+        referenceURIs: group.map(ref => ref.uri),
+    }));
+};
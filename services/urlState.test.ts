@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { readUrlState, writeUrlState } from './urlState';
+import type { UrlState } from './urlState';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+describe('readUrlState', () => {
+    it('round-trips a written state', () => {
+        const state: UrlState = {
+            view: 'search',
+            query: 'graph neural networks',
+            sources: ['arxiv', 'pubmed'],
+            timeRange: { startYear: 2010, endYear: 2020, windowSize: 5, parallel: true },
+            sort: ['dateDesc', 'relevance'],
+            page: 3,
+            selectedURIs: ['https://example.org/a'],
+        };
+        expect(readUrlState(writeUrlState(state))).toEqual(state);
+    });
+
+    it.each([
+        ['years far in the past', '?q=x&from=-999999999&to=2000&window=1', { startYear: 1900, endYear: 2000, windowSize: 0, parallel: false }],
+        ['years in the future', `?q=x&from=2000&to=${CURRENT_YEAR + 500}&window=5`, { startYear: 2000, endYear: CURRENT_YEAR, windowSize: 5, parallel: false }],
+        ['a window size the control does not offer', '?q=x&from=2000&to=2020&window=4&parallel=1', { startYear: 2000, endYear: 2020, windowSize: 0, parallel: true }],
+        ['a negative window size', '?q=x&from=2000&to=2020&window=-3', { startYear: 2000, endYear: 2020, windowSize: 0, parallel: false }],
+    ])('bounds %s', (_, search, timeRange) => {
+        expect(readUrlState(search).timeRange).toEqual(timeRange);
+    });
+
+    it('drops a reversed or incomplete range', () => {
+        expect(readUrlState('?q=x&from=2020&to=2010').timeRange).toBeUndefined();
+        expect(readUrlState('?q=x&from=2020').timeRange).toBeUndefined();
+    });
+});
@@ -0,0 +1,71 @@
+import type { TimeRange } from '../types';
+import type { SortKey } from './referenceFilters';
+import { normalizeTimeRange } from './dateWindows';
+import { SORT_KEYS } from './referenceFilters';
+
+export type AppView = 'search' | 'library' | 'saved' | 'settings';
+
+// The part of the app's state a link reproduces; results themselves are re-fetched (or served from the cache).
+export interface UrlState {
+    view: AppView;
+    query: string;
+    sources: string[];
+    timeRange?: TimeRange;
+    sort: [SortKey, SortKey];
+    page: number;
+    selectedURIs: string[];
+}
+
+const VIEWS: AppView[] = ['search', 'library', 'saved', 'settings'];
+
+const isSortKey = (value: string): value is SortKey => SORT_KEYS.includes(value as SortKey);
+
+const parseInteger = (value: string | null): number | undefined => {
+    const parsed = value === null ? NaN : Number.parseInt(value, 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Parses `location.search`; anything missing or malformed falls back to the app's defaults.
+export const readUrlState = (search: string): UrlState => {
+    const params = new URLSearchParams(search);
+    const view = params.get('view') ?? '';
+    const [primary = '', secondary = ''] = (params.get('sort') ?? '').split(',');
+    const startYear = parseInteger(params.get('from'));
+    const endYear = parseInteger(params.get('to'));
+    return {
+        view: VIEWS.includes(view as AppView) ? view as AppView : 'search',
+        query: params.get('q')?.trim() ?? '',
+        sources: params.getAll('src'),
+        timeRange: startYear !== undefined && endYear !== undefined && startYear <= endYear
+            ? normalizeTimeRange({ startYear, endYear, windowSize: parseInteger(params.get('window')) ?? 0, parallel: params.get('parallel') === '1' })
+            : undefined,
+        sort: [isSortKey(primary) ? primary : 'relevance', isSortKey(secondary) ? secondary : 'relevance'],
+        page: Math.max(1, parseInteger(params.get('page')) ?? 1),
+        selectedURIs: params.getAll('sel'),
+    };
+};
+
+// Builds the query string for `state`; defaults are left out so ordinary links stay short.
+export const writeUrlState = (state: UrlState): string => {
+    const params = new URLSearchParams();
+    if (state.view !== 'search') params.set('view', state.view);
+    if (state.query) {
+        params.set('q', state.query);
+        state.sources.forEach(source => params.append('src', source));
+        if (state.timeRange) {
+            params.set('from', String(state.timeRange.startYear));
+            params.set('to', String(state.timeRange.endYear));
+            params.set('window', String(state.timeRange.windowSize));
+            if (state.timeRange.parallel) params.set('parallel', '1');
+        }
+        if (state.sort[0] !== 'relevance') params.set('sort', state.sort.join(','));
+        if (state.page > 1) params.set('page', String(state.page));
+        state.selectedURIs.forEach(uri => params.append('sel', uri));
+    }
+    const search = params.toString();
+    return search ? `?${search}` : '';
+};
+
+// Moving to another view, query or page is a navigation step; other changes only update the current entry.
+export const isNavigation = (from: UrlState, to: UrlState): boolean =>
+    from.view !== to.view || from.query !== to.query || from.page !== to.page;
@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import type { Reference } from '../types';
+import { compareWithRecord, createBibliographicResolver, verifyReferences } from './verificationService';
+import { fakeFetch, readFixture } from './providers/fixtures';
+
+const CROSSREF = 'https://crossref.test';
+const ARXIV = 'https://arxiv.test/api/query';
+
+const deepLearning: Reference = {
+    title: 'Deep learning',
+    authors: ['Yann LeCun', 'Yoshua Bengio', 'Geoffrey Hinton'],
+    publicationDate: '2015',
+    uri: 'https://www.nature.com/articles/nature14539',
+    doi: '10.1038/nature14539',
+};
+
+const resolverFor = (routes: Parameters<typeof fakeFetch>[0]) => {
+    const { fetchFn, requests } = fakeFetch(routes);
+    return { resolver: createBibliographicResolver({ crossrefBaseUrl: CROSSREF, arxivBaseUrl: ARXIV, fetchFn }), requests };
+};
+
+describe('createBibliographicResolver', () => {
+    it('looks a reference up by its DOI', async () => {
+        const { resolver } = resolverFor([[/\/works\/10\.1038/, { body: readFixture('crossref-work.json') }]]);
+        const resolved = await resolver.resolve(deepLearning);
+
+        expect(resolved?.via).toBe('DOI 10.1038/nature14539');
+        expect(resolved?.record.uri).toBe('https://doi.org/10.1038/nature14539');
+    });
+
+    it('falls back to the arXiv id when Crossref does not know the DOI', async () => {
+        const { resolver, requests } = resolverFor([[/arxiv\.test/, { body: readFixture('arxiv-search.xml') }]]);
+        const resolved = await resolver.resolve({ ...deepLearning, title: 'Attention Is All You Need', uri: 'https://arxiv.org/abs/1706.03762v2', doi: '10.1000/unknown' });
+
+        expect(resolved?.via).toBe('arXiv 1706.03762');
+        expect(requests.map(url => url.origin)).toEqual([CROSSREF, 'https://arxiv.test']);
+    });
+
+    it('searches Crossref by title when there is no identifier', async () => {
+        const { resolver } = resolverFor([[/\/works\?/, { body: readFixture('crossref-works.json') }]]);
+        const resolved = await resolver.resolve({ ...deepLearning, title: 'Deep residual learning for image recognition', uri: 'https://example.org/resnet', doi: undefined });
+
+        expect(resolved?.via).toBe('Crossref title search');
+        expect(resolved?.record.doi).toBe('10.1109/cvpr.2016.90');
+    });
+});
+
+describe('compareWithRecord', () => {
+    const record = { ...deepLearning, uri: 'https://doi.org/10.1038/nature14539' };
+
+    it('accepts a publisher link for the same work', () => {
+        expect(compareWithRecord(deepLearning, record, 'DOI').status).toBe('verified');
+    });
+
+    it('flags a link that names another DOI than the resolved record', () => {
+        const result = compareWithRecord({ ...deepLearning, uri: 'https://doi.org/10.1038/nature16961' }, record, 'DOI');
+        expect(result).toMatchObject({ status: 'mismatched', mismatches: ['link'], resolvedUri: record.uri });
+    });
+
+    it('tolerates a one-year difference between preprint and publication', () => {
+        expect(compareWithRecord({ ...deepLearning, publicationDate: '2014' }, record, 'DOI').status).toBe('verified');
+        expect(compareWithRecord({ ...deepLearning, publicationDate: '2012' }, record, 'DOI').mismatches).toEqual(['date']);
+    });
+});
+
+describe('verifyReferences', () => {
+    it('only skips the lookup for links an index provider returned', async () => {
+        const { resolver, requests } = resolverFor([[/\/works\/10\.1038/, { body: readFixture('crossref-work.json') }]]);
+        const fromIndex = { ...deepLearning, uri: 'https://pubmed.ncbi.nlm.nih.gov/26017442/', source: 'PubMed' };
+        const claimsIndex = { ...deepLearning, source: 'PubMed' };
+        const [indexed, claimed] = await verifyReferences([fromIndex, claimsIndex], new Set([fromIndex.uri]), resolver);
+
+        expect(indexed.verification).toEqual({ status: 'verified', checkedAgainst: 'PubMed', resolvedUri: fromIndex.uri });
+        expect(claimed.verification?.checkedAgainst).toBe('DOI 10.1038/nature14539');
+        expect(requests).toHaveLength(1);
+    });
+
+    it('skips the lookup for a merged reference whose alternate link came from an index provider', async () => {
+        const { resolver, requests } = resolverFor([]);
+        const pubmedUri = 'https://pubmed.ncbi.nlm.nih.gov/26017442/';
+        const [merged] = await verifyReferences([{ ...deepLearning, alternateURIs: [pubmedUri] }], new Set([pubmedUri]), resolver);
+
+        expect(merged.verification).toMatchObject({ status: 'verified', resolvedUri: pubmedUri });
+        expect(requests).toHaveLength(0);
+    });
+
+    it('marks a reference unresolvable when the lookup fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { resolver } = resolverFor([[/crossref\.test/, { status: 503 }]]);
+        const [checked] = await verifyReferences([deepLearning], new Set(), resolver);
+
+        expect(checked.verification).toMatchObject({ status: 'unresolvable', error: 'Crossref request failed with status 503.' });
+    });
+});
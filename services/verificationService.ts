@@ -0,0 +1,151 @@
+import type { Reference, VerificationResult } from '../types';
+import { parseArxivFeed } from './providers/arxivProvider';
+import { parseCrossrefWork } from './providers/crossrefProvider';
+import type { CrossrefResponse } from './providers/crossrefProvider';
+import { fetchJson, fetchText } from './providers/http';
+import { NetworkError } from './errors';
+import { authorOverlap, extractArxivId, extractDoi, extractYear, titleSimilarity } from './referenceMatching';
+
+const TITLE_MATCH_THRESHOLD = 0.85;
+const TITLE_CANDIDATE_THRESHOLD = 0.6;
+const AUTHOR_MATCH_THRESHOLD = 0.5;
+const MAX_CONCURRENT_LOOKUPS = 4;
+
+export interface ResolverConfig {
+    crossrefBaseUrl?: string;
+    arxivBaseUrl?: string;
+    fetchFn?: typeof fetch;
+}
+
+export interface BibliographicResolver {
+    resolve: (ref: Reference) => Promise<{ record: Reference; via: string } | null>;
+}
+
+export const createBibliographicResolver = ({
+    crossrefBaseUrl = 'https://api.crossref.org',
+    arxivBaseUrl = 'https://export.arxiv.org/api/query',
+    fetchFn = fetch,
+}: ResolverConfig = {}): BibliographicResolver => {
+    const byDoi = async (doi: string) => {
+        let response: Response;
+        try {
+            response = await fetchFn(`${crossrefBaseUrl}/works/${encodeURIComponent(doi)}`);
+        } catch (error) {
+            throw new NetworkError('Could not reach Crossref.', { cause: error });
+        }
+        if (response.status === 404) return null;
+        if (!response.ok) throw new NetworkError(`Crossref request failed with status ${response.status}.`);
+        const data = await response.json();
+        return data?.message ? parseCrossrefWork(data.message) : null;
+    };
+
+    const byArxivId = async (id: string) => {
+        const xml = await fetchText(fetchFn, `${arxivBaseUrl}?${new URLSearchParams({ id_list: id })}`, 'arXiv');
+        return parseArxivFeed(xml)[0] ?? null;
+    };
+
+    const byTitle = async (ref: Reference) => {
+        const params = new URLSearchParams({
+            'query.bibliographic': [ref.title, ref.authors[0]].filter(Boolean).join(' '),
+            rows: '3',
+        });
+        const data = await fetchJson<CrossrefResponse>(fetchFn, `${crossrefBaseUrl}/works?${params}`, 'Crossref');
+        const candidates = (data.message?.items ?? []).map(parseCrossrefWork);
+        const best = candidates
+            .map(candidate => ({ candidate, score: titleSimilarity(candidate.title, ref.title) }))
+            .sort((a, b) => b.score - a.score)[0];
+        return best && best.score >= TITLE_CANDIDATE_THRESHOLD ? best.candidate : null;
+    };
+
+    return {
+        resolve: async (ref) => {
+            const doi = ref.doi ? extractDoi(ref.doi) ?? ref.doi : extractDoi(ref.uri);
+            if (doi) {
+                const record = await byDoi(doi);
+                if (record) return { record, via: `DOI ${doi}` };
+            }
+            const arxivId = extractArxivId(ref.uri);
+            if (arxivId) {
+                const record = await byArxivId(arxivId);
+                if (record) return { record, via: `arXiv ${arxivId}` };
+            }
+            const record = await byTitle(ref);
+            return record ? { record, via: 'Crossref title search' } : null;
+        },
+    };
+};
+
+export const compareWithRecord = (ref: Reference, record: Reference, via: string): VerificationResult => {
+    const mismatches: string[] = [];
+    if (titleSimilarity(ref.title, record.title) < TITLE_MATCH_THRESHOLD) {
+        mismatches.push('title');
+    }
+    if (ref.authors.length > 0 && record.authors.length > 0 && authorOverlap(ref.authors, record.authors) < AUTHOR_MATCH_THRESHOLD) {
+        mismatches.push('authors');
+    }
+    const claimedYear = extractYear(ref.publicationDate);
+    const resolvedYear = extractYear(record.publicationDate);
+    // Preprint and journal versions routinely differ by a year.
+    if (claimedYear && resolvedYear && Math.abs(claimedYear - resolvedYear) > 1) {
+        mismatches.push('date');
+    }
+    // A link naming another DOI or arXiv id than the resolved record points to a different paper,
+    // even when the reference's own DOI or title resolved correctly.
+    const linkDoi = extractDoi(ref.uri);
+    const recordDoi = extractDoi(record.doi) ?? extractDoi(record.uri);
+    const linkArxivId = extractArxivId(ref.uri);
+    const recordArxivId = extractArxivId(record.uri);
+    if ((linkDoi && recordDoi && linkDoi !== recordDoi) || (linkArxivId && recordArxivId && linkArxivId !== recordArxivId)) {
+        mismatches.push('link');
+    }
+
+    return {
+        status: mismatches.length === 0 ? 'verified' : 'mismatched',
+        checkedAgainst: via,
+        resolvedUri: record.uri,
+        mismatches: mismatches.length > 0 ? mismatches : undefined,
+    };
+};
+
+// `indexed` is only true for records an index provider returned; the `source` label alone proves
+// nothing, since model-generated references can carry any label.
+const verifyOne = async (ref: Reference, resolver: BibliographicResolver, indexedUri: string | undefined): Promise<VerificationResult> => {
+    if (indexedUri) {
+        return { status: 'verified', checkedAgainst: ref.source, resolvedUri: indexedUri };
+    }
+    try {
+        const resolved = await resolver.resolve(ref);
+        if (!resolved) {
+            return { status: 'unresolvable' };
+        }
+        return compareWithRecord(ref, resolved.record, resolved.via);
+    } catch (error) {
+        console.warn(`Verification lookup failed for "${ref.title}":`, error);
+        return { status: 'unresolvable', error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+/**
+ * Looks every reference up in Crossref or arXiv, except those with a link that came straight from an
+ * index provider's results; `indexedURIs` holds the links those providers returned. A merged reference
+ * counts through any of its links, since the index's version may not be the one that kept the primary uri.
+ */
+export const verifyReferences = async (
+    references: Reference[],
+    indexedURIs: ReadonlySet<string> = new Set(),
+    resolver: BibliographicResolver = createBibliographicResolver()
+): Promise<Reference[]> => {
+    const verified: Reference[] = new Array(references.length);
+    let next = 0;
+    // A small worker pool keeps the resolver APIs from rate-limiting a 20-reference batch.
+    const worker = async () => {
+        while (next < references.length) {
+            const index = next++;
+            const ref = references[index];
+            const indexedUri = [ref.uri, ...(ref.alternateURIs ?? [])].find(uri => indexedURIs.has(uri));
+            verified[index] = { ...ref, verification: await verifyOne(ref, resolver, indexedUri) };
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_LOOKUPS, references.length) }, worker));
+    return verified;
+};
@@ -11,15 +11,293 @@ export interface GroundingMetadata {
   groundingChunks?: GroundingChunk[];
 }
 
+export type VerificationStatus = 'verified' | 'mismatched' | 'unresolvable';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  // Which identifier or index the reference was checked against, e.g. "DOI 10.1000/xyz".
+  checkedAgainst?: string;
+  resolvedUri?: string;
+  mismatches?: string[];
+  error?: string;
+}
+
 export interface Reference {
   title: string;
   authors: string[];
   publicationDate: string;
   uri: string;
+  // Other URLs of the same work (preprint, publisher page, index records) merged into this entry.
+  alternateURIs?: string[];
   abstract?: string;
+  doi?: string;
+  venue?: string;
+  source?: string;
+  citationCount?: number;
+  verification?: VerificationResult;
+  // Earliest preprint date, set when a preprint was merged with its published version.
+  preprintDate?: string;
+  // The date window whose search found this reference.
+  searchWindow?: DateRange;
+  // Set on references found by expanding a seed paper's citations.
+  citationRelations?: CitationRelation[];
+  // Set once the paper has been analyzed; kept with the reference so filters and sessions can use it.
+  extraction?: PaperExtraction;
+}
+
+// 'citing': the reference cites the seed paper. 'cited': the seed paper cites the reference.
+export type CitationDirection = 'citing' | 'cited';
+
+export interface CitationRelation {
+  direction: CitationDirection;
+  seedURI: string;
 }
 
 export interface SearchResult {
+  // May contain inline markers such as [1][3] that refer to 1-based positions in `references`.
   summary: string;
   references: Reference[];
-}
\ No newline at end of file
+  // Web pages the model consulted through Google Search grounding, if any.
+  groundingChunks?: GroundingChunk[];
+  // When the result was stored, if it was served from the response cache.
+  cachedAt?: number;
+  // Parts of the search that failed without failing all of it; results with warnings are never cached.
+  warnings?: SearchWarning[];
+}
+
+// 'provider': one provider's search of a window failed, so its papers are missing.
+// 'summary': the summary of the merged results could not be written.
+export type SearchWarning =
+  | { kind: 'provider'; sources: string[]; window?: DateRange; error: string }
+  | { kind: 'summary'; error: string };
+
+export interface DateRange {
+  startYear: number;
+  endYear?: number;
+}
+
+// The span of years a search covers and how it is split into separately searched windows.
+export interface TimeRange {
+  startYear: number;
+  endYear: number;
+  // Years per window; 0 searches the whole span at once.
+  windowSize: number;
+  // Searches every window at once instead of newest first, one window per click.
+  parallel: boolean;
+}
+
+export type ReadingStatus = 'unread' | 'reading' | 'read';
+
+export interface LibraryCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface LibraryEntry {
+  // The reference's uri, so saving the same paper twice updates a single entry.
+  id: string;
+  reference: Reference;
+  collectionIds: string[];
+  tags: string[];
+  notes: string;
+  readingStatus: ReadingStatus;
+  // The search query the paper was saved from, reused as context when asking about it later.
+  sourceQuery: string;
+  savedAt: number;
+  updatedAt: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  createdAt: number;
+  // When the answer was first generated, if it was replayed from the response cache.
+  cachedAt?: number;
+  // Set on a partial answer kept after the user stopped its generation.
+  stopped?: boolean;
+}
+
+export interface ChatThread {
+  // Derived from the selected references, so each selection set keeps its own conversation.
+  id: string;
+  referenceURIs: string[];
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+export interface FullTextChunk {
+  id: string;
+  page: number;
+  // The nearest heading above the chunk, e.g. "2 Methods", when one could be detected.
+  section?: string;
+  text: string;
+  embedding?: number[];
+}
+
+export interface FullTextDocument {
+  // The reference's uri.
+  uri: string;
+  fileName: string;
+  origin: 'upload' | 'open-access';
+  pageCount: number;
+  chunks: FullTextChunk[];
+  // The model the chunk embeddings came from; vectors from different models cannot be compared.
+  embeddingModel?: string;
+  // The model the last failed embedding attempt used; retrieval ranks by keywords until the model changes.
+  embeddingFailure?: { model: string; failedAt: number };
+  addedAt: number;
+}
+
+// A retrieved full-text chunk, labelled with the paper it belongs to.
+export interface Passage {
+  reference: Reference;
+  chunk: FullTextChunk;
+  score: number;
+}
+
+export type ReviewSectionKind = 'background' | 'themes' | 'methods' | 'conflicts' | 'openQuestions';
+
+export interface ReviewSection {
+  kind: ReviewSectionKind;
+  heading: string;
+  // Paragraphs separated by blank lines; [n] markers cite the review's nth reference.
+  body: string;
+}
+
+export interface EvidenceRow {
+  // 1-based position in the review's references.
+  paper: number;
+  method: string;
+  dataset: string;
+  keyResult: string;
+}
+
+export interface LiteratureReview {
+  topic: string;
+  sections: ReviewSection[];
+  evidence: EvidenceRow[];
+  // The papers the review was generated from, in citation-number order.
+  references: Reference[];
+  createdAt: number;
+}
+
+export type StudyDesign =
+  | 'rct'
+  | 'observational'
+  | 'caseReport'
+  | 'systematicReview'
+  | 'metaAnalysis'
+  | 'experimental'
+  | 'computational'
+  | 'qualitative'
+  | 'theoretical'
+  | 'other';
+
+// Structured facts extracted from one paper. Text fields are empty when the paper does not report them.
+export interface PaperExtraction {
+  researchQuestion: string;
+  studyDesign: StudyDesign;
+  // The design in the paper's own words, e.g. "double-blind multicentre trial".
+  designDetail: string;
+  // The number of participants, samples or data points, when the paper states one.
+  sampleSize?: number;
+  // The sample or dataset as described, e.g. "1,204 adults from 12 hospitals" or "ImageNet-1k".
+  dataset: string;
+  methods: string;
+  findings: string;
+  limitations: string;
+  futureWork: string;
+  // Whether excerpts of an attached full text were available, or only the abstract.
+  source: 'abstract' | 'fullText';
+  extractedAt: number;
+}
+
+export type ComparisonDimensionKey = 'methods' | 'datasets' | 'metrics' | 'results' | 'conclusions';
+
+// A row of the comparison matrix: one of the built-in dimensions, or one the user named.
+export type ComparisonDimension =
+  | { kind: 'builtIn'; key: ComparisonDimensionKey }
+  | { kind: 'custom'; name: string };
+
+export interface ComparisonCell {
+  text: string;
+  // The paper's abstract and full text say nothing about the dimension; `text` is then empty.
+  missing: boolean;
+}
+
+export type RecheckSchedule = 'manual' | 'onOpen' | 'daily' | 'weekly';
+
+export type TrackedField = 'title' | 'authors' | 'publicationDate' | 'venue' | 'doi' | 'citationCount' | 'verification';
+
+export interface ReferenceChange {
+  field: TrackedField;
+  before: string;
+  after: string;
+}
+
+// How a re-run's results differ from the previous snapshot.
+export interface SearchDiff {
+  added: Reference[];
+  removed: Reference[];
+  changed: { reference: Reference; changes: ReferenceChange[] }[];
+  comparedAt: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  sources: string[];
+  timeRange: TimeRange;
+  // The date windows the saved results actually came from, newest first. Re-runs search exactly
+  // these, with the same verification options, so the diff compares like with like.
+  windows: DateRange[];
+  verify: boolean;
+  dropUnresolvable: boolean;
+  // The summary and references of the latest run.
+  summary: string;
+  snapshot: Reference[];
+  schedule: RecheckSchedule;
+  createdAt: number;
+  lastRunAt: number;
+  lastDiff: SearchDiff | null;
+  // What failed in the latest re-run. When a provider failed, the snapshot and diff above are still
+  // those of the last complete run.
+  lastWarnings?: SearchWarning[];
+  // Papers found by re-runs that the user has not looked at yet; cleared when the digest is dismissed.
+  unseen: Reference[];
+}
+
+export type ModelBackendKind = 'gemini' | 'openai' | 'mock';
+
+// 'search' also covers summaries and other short generation around a search; 'qa' covers answers and reviews.
+export type ModelTask = 'search' | 'qa' | 'embedding';
+
+export interface BackendSettings {
+  apiKey: string;
+  // e.g. https://api.openai.com/v1 or a local server; empty for Gemini means Google's own endpoint.
+  baseUrl: string;
+  models: Record<ModelTask, string>;
+}
+
+export interface ModelSettings {
+  backend: ModelBackendKind;
+  gemini: BackendSettings;
+  openai: BackendSettings;
+  temperature: number;
+  // How many papers the model search and each index are asked for.
+  resultCount: number;
+}
+
+export type Language = 'zh' | 'en';
+
+// A search query rewritten in the other language, so indexes that only match one language still find it.
+export interface QueryExpansion {
+  from: Language;
+  to: Language;
+  query: string;
+  // Key technical terms in the target language, including common synonyms and abbreviations.
+  terms: string[];
+}